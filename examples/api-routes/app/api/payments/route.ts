@@ -212,40 +212,18 @@ export async function POST(request: NextRequest) {
 // examples/api-routes/app/api/auth/token/route.ts
 // OAuth token generation for 3DS2
 
-import { NextRequest, NextResponse } from 'next/server';
-import { createFatZebraClient } from '@fwcgovau/fat-zebra-nextjs/server';
-
-const client = createFatZebraClient({
-  username: process.env.FATZEBRA_USERNAME!,
-  token: process.env.FATZEBRA_TOKEN!,
-  isTestMode: process.env.NODE_ENV !== 'production'
+import { createAccessTokenHandler, createOAuthTokenService } from '@fwcgovau/fat-zebra-nextjs/server';
+
+// Tokens are cached and refreshed before they expire; the client secret stays on the server
+const tokenService = createOAuthTokenService({
+  clientId: process.env.FATZEBRA_CLIENT_ID!,
+  clientSecret: process.env.FATZEBRA_CLIENT_SECRET!,
+  sandbox: process.env.NODE_ENV !== 'production',
+  browserScope: 'payments'
 });
 
-export async function POST(request: NextRequest) {
-  try {
-    const oauthConfig = {
-      clientId: process.env.FATZEBRA_CLIENT_ID!,
-      clientSecret: process.env.FATZEBRA_CLIENT_SECRET!,
-      scope: 'api'
-    };
-
-    const tokenResponse = await client.generateAccessToken(oauthConfig);
-
-    return NextResponse.json({
-      success: true,
-      accessToken: tokenResponse.access_token,
-      expiresIn: tokenResponse.expires_in
-    });
-
-  } catch (error) {
-    console.error('OAuth token generation failed:', error);
-
-    return NextResponse.json(
-      { error: 'Failed to generate access token' },
-      { status: 500 }
-    );
-  }
-}
+// Responds with { successful, access_token, token_type, expires_in, scope }
+export const POST = createAccessTokenHandler(tokenService);
 
 // examples/api-routes/app/api/tokenize/route.ts
 // Card tokenization endpoint
@@ -4,7 +4,7 @@ import { createFatZebraClient, handleFatZebraResponse, FatZebraError } from '@fw
 const client = createFatZebraClient({
   username: process.env.FATZEBRA_USERNAME!,
   token: process.env.FATZEBRA_TOKEN!,
-  isTestMode: process.env.NODE_ENV !== 'production'
+  sandbox: process.env.NODE_ENV !== 'production'
 });
 
 export async function POST(request: NextRequest) {
@@ -18,26 +18,26 @@ export async function POST(request: NextRequest) {
     } = await request.json();
 
     // First, create a tokenized card for recurring payments
-    const tokenResponse = await client.createToken({
+    const tokenResponse = await client.tokenize({
       card_holder: cardDetails.cardHolder,
       card_number: cardDetails.cardNumber,
       card_expiry: cardDetails.cardExpiry,
       cvv: cardDetails.cvv
     });
 
-    const tokenData = handleFatZebraResponse(tokenResponse);
+    const tokenData = handleFatZebraResponse(tokenResponse).response!;
 
     // Process initial payment with token
-    const initialPaymentResponse = await client.createPurchaseWithToken(
-      tokenData.token,
+    const initialPaymentResponse = await client.purchaseWithToken({
+      card_token: tokenData.token,
       amount,
-      `SUB-INIT-${Date.now()}`,
       currency,
-      request.ip || '127.0.0.1',
-      { customer }
-    );
+      reference: `SUB-INIT-${Date.now()}`,
+      customer_ip: request.ip || '127.0.0.1',
+      customer
+    });
 
-    const initialPayment = handleFatZebraResponse(initialPaymentResponse);
+    const initialPayment = handleFatZebraResponse(initialPaymentResponse).response!;
 
     // Create subscription record (this would be in your database)
     const subscription = {
@@ -1,12 +1,14 @@
 /**
  * Jest Master Configuration
  * 
- * Runs both unit and integration test suites.
+ * Runs the unit, edge runtime, Node.js and integration test suites.
  */
 
 module.exports = {
   projects: [
     '<rootDir>/jest.unit.config.js',
+    '<rootDir>/jest.edge.config.js',
+    '<rootDir>/jest.node.config.js',
     '<rootDir>/jest.integration.config.js'
   ],
   
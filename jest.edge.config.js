@@ -0,0 +1,35 @@
+/**
+ * Jest Configuration for Edge Runtime Tests
+ *
+ * Runs the client and crypto utilities in an edge-like global environment
+ * (no Buffer, no Node.js crypto) to catch Node-only code paths.
+ */
+
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: '<rootDir>/tests/edge/environment.js',
+
+  displayName: 'Edge Runtime Tests',
+
+  // Setup files for edge runtime tests
+  setupFiles: [
+    '<rootDir>/tests/edge/setup.ts'
+  ],
+
+  // Test patterns for edge runtime tests only
+  testMatch: [
+    '<rootDir>/tests/edge/**/*.test.ts',
+  ],
+
+  // Module resolution
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+
+  // Transform configuration
+  transform: {
+    '^.+\\.tsx?$': ['ts-jest', {
+      tsconfig: 'tsconfig.json'
+    }]
+  },
+};
@@ -0,0 +1,30 @@
+/**
+ * Jest Configuration for Node.js Tests
+ *
+ * Runs tests that need the real Node.js globals (fetch, Request, Response) and sockets,
+ * such as the mock gateway served over HTTP.
+ */
+
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+
+  displayName: 'Node.js Tests',
+
+  // Test patterns for Node.js tests only
+  testMatch: [
+    '<rootDir>/tests/node/**/*.test.ts',
+  ],
+
+  // Module resolution
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+
+  // Transform configuration
+  transform: {
+    '^.+\\.tsx?$': ['ts-jest', {
+      tsconfig: 'tsconfig.json'
+    }]
+  },
+};
@@ -139,5 +139,28 @@ export default [
       sourcemap: true
     },
     false
+  ),
+
+  // Testing module build - CommonJS
+  createConfig(
+    'src/testing/index.ts',
+    {
+      file: 'dist/testing/index.js',
+      format: 'cjs',
+      sourcemap: true,
+      exports: 'named'
+    },
+    false
+  ),
+
+  // Testing module build - ES Module
+  createConfig(
+    'src/testing/index.ts',
+    {
+      file: 'dist/testing/index.esm.js',
+      format: 'esm',
+      sourcemap: true
+    },
+    false
   )
 ];
\ No newline at end of file
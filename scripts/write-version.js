@@ -0,0 +1,20 @@
+#!/usr/bin/env node
+
+// Regenerate src/utils/version.ts from package.json, so a build or `npm version` can never ship a
+// stale VERSION
+const fs = require('fs');
+const path = require('path');
+
+const root = path.join(__dirname, '..');
+const { version } = require(path.join(root, 'package.json'));
+const target = path.join(root, 'src', 'utils', 'version.ts');
+
+const source = `// Package version reported by health checks and the gateway User-Agent. Generated from
+// package.json by scripts/write-version.js (run by the build and \`npm version\`); do not edit
+export const VERSION = '${version}';
+`;
+
+if (!fs.existsSync(target) || fs.readFileSync(target, 'utf8') !== source) {
+  fs.writeFileSync(target, source);
+  console.log(`Wrote VERSION ${version} to src/utils/version.ts`);
+}
@@ -7,6 +7,9 @@ import {
   validateCard,
   validateEmail,
   extractErrorMessage,
+  getCurrencyExponent,
+  toMinorUnits,
+  defaultLogger,
 } from '../utils';
 import type { PaymentFormProps, PaymentFormErrors, Customer } from '../types';
 
@@ -32,6 +35,7 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
   enableTokenization = false,
   onTokenizationSuccess,
   className = '',
+  logger = defaultLogger,
 }) => {
   const [formData, setFormData] = useState<FormData>({
     card_holder: '',
@@ -53,14 +57,15 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
     loading: paymentLoading,
     error: paymentError,
   } = usePayment({
+    logger,
     onSuccess: response => {
-      console.log('Payment successful:', response);
+      logger.debug('Payment successful', { transactionId: response.id });
       if (enableTokenization && onTokenizationSuccess && response.authorization) {
         onTokenizationSuccess(response.authorization);
       }
     },
+    // Failures are logged by usePayment
     onError: error => {
-      console.error('Payment error:', error);
       setErrors(prev => ({
         ...prev,
         general: extractErrorMessage(error),
@@ -181,7 +186,7 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
         }
 
         await processPayment({
-          amount,
+          amount: toMinorUnits(amount, currency),
           currency,
           card_holder: formData.card_holder,
           card_number: formData.card_number.replace(/\s/g, ''),
@@ -192,7 +197,7 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
         });
       } catch (error) {
         // Error is handled by the usePayment hook
-        console.error('Form submission error:', error);
+        logger.debug('Form submission error', { error });
       }
     },
     [amount, currency, formData, processPayment]
@@ -370,7 +375,7 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
 
       {/* Amount display */}
       <div className='amount-display'>
-        <span className='amount'>{amount.toFixed(2)}</span>
+        <span className='amount'>{amount.toFixed(getCurrencyExponent(currency))}</span>
         <span className='currency'>{currency}</span>
       </div>
 
@@ -507,7 +512,7 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({
             Processing...
           </>
         ) : (
-          `Pay ${currency} ${amount.toFixed(2)}`
+          `Pay ${currency} ${amount.toFixed(getCurrencyExponent(currency))}`
         )}
       </button>
 
@@ -6,8 +6,11 @@
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { FatZebraError } from '../types';
+import { FatZebraError, ValidationError } from '../types';
+import { defaultLogger } from '../utils/logger';
+import { VERSION } from '../utils/version';
 import type {
+  Logger,
   PaymentFormData,
   PurchaseRequest,
   FatZebraResponse,
@@ -52,6 +55,7 @@ export interface UseOAuthPaymentOptions {
   onPaymentSuccess?: (result: any) => void;
   onPaymentError?: (error: string) => void;
   on3DSChallenge?: (challengeData: ThreeDSResult) => void;
+  logger?: Logger; // defaults to the console logger
 }
 
 export interface UseOAuthPaymentResult {
@@ -98,6 +102,7 @@ export function useOAuthPayment(
     onPaymentSuccess,
     onPaymentError,
     on3DSChallenge,
+    logger = defaultLogger,
   } = options;
 
   // Initialize SDK and validate authentication
@@ -125,7 +130,7 @@ export function useOAuthPayment(
           throw new Error('Fat Zebra SDK not loaded');
         }
       } catch (err) {
-        console.error('OAuth authentication failed:', err);
+        logger.error('OAuth authentication failed', { error: err });
         setError(err instanceof Error ? err.message : 'Authentication failed');
         setIsAuthenticated(false);
       }
@@ -251,11 +256,11 @@ export function useOAuthPayment(
       try {
         // Validate required payment data
         if (!data.amount || data.amount <= 0) {
-          throw new FatZebraError('Invalid payment amount');
+          throw new ValidationError('Invalid payment amount');
         }
 
         if (!data.cardDetails?.card_number) {
-          throw new FatZebraError('Card number is required');
+          throw new ValidationError('Card number is required');
         }
 
         // Build purchase request
@@ -271,7 +276,7 @@ export function useOAuthPayment(
           metadata: {
             ...data.metadata,
             oauth_payment: true,
-            sdk_version: '0.5.9',
+            sdk_version: VERSION,
             environment,
           },
         };
@@ -351,8 +356,8 @@ export function useOAuthPayment(
           onPaymentError(errorMessage);
         }
 
-        // Re-throw to allow caller to handle
-        throw new FatZebraError(errorMessage);
+        // Re-throw to allow caller to handle, keeping the original error code when present
+        throw err instanceof FatZebraError ? err : new FatZebraError(errorMessage);
       } finally {
         setLoading(false);
         abortControllerRef.current = null;
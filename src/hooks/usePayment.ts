@@ -1,14 +1,21 @@
 /**
  * Fat Zebra Payment Hook Implementation
  *
- * This hook provides payment processing functionality with retry logic,
- * loading state management, and error handling.
+ * This hook provides payment processing functionality with loading state management and
+ * error handling. Retries are delegated to the client's retry policy, which only repeats
+ * transient gateway failures.
+ *
+ * With the `proxy` option the hook posts to your own payment route (see
+ * src/server/routes/payments/route.ts), which holds the gateway credentials and sets the
+ * customer IP and reference on the server.
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { createFatZebraClient, handleFatZebraResponse } from '../lib/client';
-import { FatZebraError } from '../types';
+import { FatZebraError, ValidationError } from '../types';
 import type {
+  FatZebraResponse,
+  PaymentProxyOptions,
   PurchaseRequest,
   TransactionResponse,
   UsePaymentOptions,
@@ -16,7 +23,16 @@ import type {
 } from '../types';
 
 export function usePayment(options: UsePaymentOptions = {}): UsePaymentResult {
-  const { onSuccess, onError, enableRetry = false, maxRetries = 3, retryDelay = 1000 } = options;
+  const {
+    onSuccess,
+    onError,
+    enableRetry = false,
+    maxRetries = 3,
+    retryDelay = 1000,
+    retryCondition,
+    proxy,
+    logger,
+  } = options;
 
   // State management
   const [loading, setLoading] = useState(false);
@@ -41,14 +57,14 @@ export function usePayment(options: UsePaymentOptions = {}): UsePaymentResult {
 
       // Validate required fields
       if (!data.amount || data.amount <= 0) {
-        const error = new FatZebraError('Invalid amount provided');
+        const error = new ValidationError('Invalid amount provided');
         setError(error.message);
         if (onError) onError(error);
         throw error;
       }
 
       if (!data.card_number || !data.card_expiry || !data.cvv) {
-        const error = new FatZebraError('Missing required card details');
+        const error = new ValidationError('Missing required card details');
         setError(error.message);
         if (onError) onError(error);
         throw error;
@@ -61,22 +77,38 @@ export function usePayment(options: UsePaymentOptions = {}): UsePaymentResult {
       abortControllerRef.current = new AbortController();
 
       try {
-        // Create Fat Zebra client
-        const client = createFatZebraClient({
-          username: process.env.FATZEBRA_USERNAME || 'test',
-          token: process.env.FATZEBRA_TOKEN || 'test',
-          sandbox: process.env.NODE_ENV !== 'production',
-          ...(process.env.FATZEBRA_GATEWAY && { gatewayUrl: process.env.FATZEBRA_GATEWAY }),
-        });
-
-        // Add customer IP if not provided
-        const enrichedData: PurchaseRequest = {
-          ...data,
-          customer_ip: data.customer_ip || getClientIP(),
-        };
-
-        // Process the payment
-        const response = await client.purchase(enrichedData);
+        let response: FatZebraResponse<TransactionResponse>;
+
+        if (proxy) {
+          // Credentials, customer IP and reference are handled by the server route
+          response = await postToPaymentProxy(proxy, data, abortControllerRef.current.signal);
+        } else {
+          // Create Fat Zebra client
+          const client = createFatZebraClient({
+            username: process.env.FATZEBRA_USERNAME || 'test',
+            token: process.env.FATZEBRA_TOKEN || 'test',
+            sandbox: process.env.NODE_ENV !== 'production',
+            ...(process.env.FATZEBRA_GATEWAY && { gatewayUrl: process.env.FATZEBRA_GATEWAY }),
+            ...(enableRetry && {
+              retry: {
+                maxRetries,
+                baseDelay: retryDelay,
+                ...(retryCondition && { shouldRetry: retryCondition }),
+              },
+            }),
+            ...(logger && { logger }),
+          });
+
+          // Add customer IP if not provided
+          const enrichedData: PurchaseRequest = {
+            ...data,
+            customer_ip: data.customer_ip || getClientIP(),
+          };
+
+          // Process the payment
+          response = await client.purchase(enrichedData);
+        }
+
         const handledResponse = handleFatZebraResponse(response);
 
         if (handledResponse.successful && handledResponse.response) {
@@ -109,6 +141,7 @@ export function usePayment(options: UsePaymentOptions = {}): UsePaymentResult {
         }
 
         setError(errorMessage);
+        logger?.warn('Payment failed', { error: err });
 
         const fatZebraError = err instanceof FatZebraError ? err : new FatZebraError(errorMessage);
 
@@ -117,43 +150,23 @@ export function usePayment(options: UsePaymentOptions = {}): UsePaymentResult {
           onError(fatZebraError);
         }
 
-        // Retry logic
-        if (enableRetry && maxRetries > 0) {
-          return retryPayment(data, maxRetries, retryDelay);
-        }
-
         throw fatZebraError;
       } finally {
         setLoading(false);
         abortControllerRef.current = null;
       }
     },
-    [loading, onSuccess, onError, enableRetry, maxRetries, retryDelay]
-  );
-
-  const retryPayment = useCallback(
-    async (
-      data: PurchaseRequest,
-      retriesLeft: number,
-      delay: number
-    ): Promise<TransactionResponse> => {
-      if (retriesLeft <= 0) {
-        throw new FatZebraError('Maximum retry attempts exceeded');
-      }
-
-      // Wait before retrying
-      await new Promise(resolve => setTimeout(resolve, delay));
-
-      try {
-        return await processPayment(data);
-      } catch (err) {
-        if (retriesLeft > 1) {
-          return retryPayment(data, retriesLeft - 1, delay * 2); // Exponential backoff
-        }
-        throw err;
-      }
-    },
-    [processPayment]
+    [
+      loading,
+      onSuccess,
+      onError,
+      enableRetry,
+      maxRetries,
+      retryDelay,
+      retryCondition,
+      proxy,
+      logger,
+    ]
   );
 
   const reset = useCallback(() => {
@@ -181,33 +194,50 @@ function getClientIP(): string {
   return '127.0.0.1';
 }
 
-// Enhanced hook with additional retry capabilities
-export function usePaymentWithRetry(
-  options: UsePaymentOptions & {
-    retryCondition?: (error: FatZebraError) => boolean;
-  } = {}
-): UsePaymentResult {
-  const { retryCondition, ...paymentOptions } = options;
-
-  const defaultRetryCondition = (error: FatZebraError) => {
-    // Retry on network errors or temporary failures
-    const retryableErrors = ['network error', 'timeout', 'server error', 'temporary unavailable'];
-    return retryableErrors.some(keyword => error.message.toLowerCase().includes(keyword));
-  };
-
-  const finalOptions: UsePaymentOptions = {
-    ...paymentOptions,
-    enableRetry: true,
-    maxRetries: paymentOptions.maxRetries || 3,
-    retryDelay: paymentOptions.retryDelay || 1000,
-    onError: error => {
-      const shouldRetry = retryCondition ? retryCondition(error) : defaultRetryCondition(error);
-
-      if (!shouldRetry && paymentOptions.onError) {
-        paymentOptions.onError(error);
-      }
+// Post a purchase to the server payment route. Amounts stay in minor units; the route
+// determines the customer IP and reference itself.
+async function postToPaymentProxy(
+  proxy: PaymentProxyOptions,
+  data: PurchaseRequest,
+  signal: AbortSignal
+): Promise<FatZebraResponse<TransactionResponse>> {
+  const paymentData: Partial<PurchaseRequest> = { ...data };
+  delete paymentData.customer_ip;
+  delete paymentData.reference;
+  const currency = data.currency || 'AUD';
+  const url = `${proxy.baseUrl ?? ''}${proxy.endpoint ?? '/api/payments'}`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...proxy.headers,
     },
-  };
+    body: JSON.stringify({ ...paymentData, currency }),
+    signal,
+  });
+
+  let result: FatZebraResponse<TransactionResponse>;
+  try {
+    result = await response.json();
+  } catch {
+    throw new FatZebraError(`Payment endpoint returned an invalid response (${response.status})`);
+  }
+
+  if (!response.ok && !result?.errors?.length) {
+    throw new FatZebraError(`Payment endpoint returned ${response.status}`);
+  }
+
+  return result;
+}
 
-  return usePayment(finalOptions);
+// Payment hook with client retries enabled; retryCondition can narrow which transient failures
+// are retried, but declines and validation errors are never retried
+export function usePaymentWithRetry(options: UsePaymentOptions = {}): UsePaymentResult {
+  return usePayment({
+    ...options,
+    enableRetry: true,
+    maxRetries: options.maxRetries || 3,
+    retryDelay: options.retryDelay || 1000,
+  });
 }
@@ -4,17 +4,41 @@
  */
 
 // Import for local use and re-export
-import { FatZebraClient, createFatZebraClient, handleFatZebraResponse } from './lib/client';
+import {
+  FatZebraClient,
+  createFatZebraClient,
+  handleFatZebraResponse,
+  IDEMPOTENCY_HEADER,
+} from './lib/client';
 
-import { FatZebraError, TEST_CARDS, CURRENCIES } from './types';
+import {
+  FatZebraError,
+  ValidationError,
+  NetworkError,
+  TimeoutError,
+  AuthenticationError,
+  DeclinedError,
+  GatewayError,
+  ERROR_CODES,
+  TEST_CARDS,
+  CURRENCIES,
+} from './types';
 import { PaymentForm } from './components/PaymentForm';
 import { usePayment, usePaymentWithRetry, useOAuthPayment } from './hooks';
 
 // Re-export core client functions
-export { FatZebraClient, createFatZebraClient, handleFatZebraResponse };
+export { FatZebraClient, createFatZebraClient, handleFatZebraResponse, IDEMPOTENCY_HEADER };
 
 // Re-export error classes
-export { FatZebraError };
+export {
+  FatZebraError,
+  ValidationError,
+  NetworkError,
+  TimeoutError,
+  AuthenticationError,
+  DeclinedError,
+  GatewayError,
+};
 
 // Re-export React components
 export { PaymentForm };
@@ -30,6 +54,13 @@ export {
   formatCvv,
   validateAmount,
   generateVerificationHash,
+  generateVerificationHashAsync,
+  verifyWebhookSignature,
+  getCurrencyExponent,
+  toMinorUnits,
+  fromMinorUnits,
+  moneyFromMajor,
+  formatMoney,
   extractErrorMessage,
   extractErrorDetails,
   formatCurrency,
@@ -38,6 +69,11 @@ export {
   isTestCard,
   luhnCheck,
   getCardType,
+  redactSensitiveData,
+  createLogger,
+  defaultLogger,
+  StructuredLogger,
+  VERSION,
 } from './utils';
 
 // Type definitions
@@ -47,14 +83,29 @@ export type {
   Customer,
   PurchaseRequest,
   AuthorizationRequest,
+  TokenPurchaseRequest,
+  TokenAuthorizationRequest,
   RefundRequest,
+  TransactionRequestOptions,
+  Money,
+  RetryPolicy,
+  FetchLike,
+  GatewayRequest,
+  GatewayResponse,
+  RequestInterceptor,
+  ResponseInterceptor,
   TokenizationRequest,
   FatZebraResponse,
   TransactionResponse,
   TokenizationResponse,
+  StoredCardResponse,
+  ListCardsOptions,
+  UpdateCardExpiryRequest,
+  CardDeletionResponse,
   SettlementResponse,
   CardValidationResult,
   UsePaymentOptions,
+  PaymentProxyOptions,
   UsePaymentResult,
   PaymentFormProps,
   PaymentFormData,
@@ -62,10 +113,20 @@ export type {
   OAuthConfig,
   VerificationHashData,
   WebhookEvent,
+  WebhookEventType,
+  WebhookEventOfType,
   Currency,
   TestCard,
   PaymentMethod,
   TransactionType,
+  FatZebraErrorCode,
+  FatZebraErrorOptions,
+  Logger,
+  LogLevel,
+  LogEntry,
+  LogContext,
+  LogWriter,
+  LoggerConfig,
 } from './types';
 
 // Re-export OAuth hook types
@@ -77,12 +138,13 @@ export type {
 } from './hooks';
 
 // Re-export constants
-export { TEST_CARDS, CURRENCIES };
+export { ERROR_CODES, TEST_CARDS, CURRENCIES };
 
 // Default export for convenience - now using imported values
 const FatZebraNextJS = {
   createFatZebraClient,
   FatZebraError,
+  ERROR_CODES,
   handleFatZebraResponse,
   PaymentForm,
   usePayment,
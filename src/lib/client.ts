@@ -7,18 +7,230 @@ import type {
   FatZebraConfig,
   PurchaseRequest,
   AuthorizationRequest,
+  TokenPurchaseRequest,
+  TokenAuthorizationRequest,
   RefundRequest,
   TokenizationRequest,
   FatZebraResponse,
   TransactionResponse,
   TokenizationResponse,
+  StoredCardResponse,
+  ListCardsOptions,
+  UpdateCardExpiryRequest,
+  CardDeletionResponse,
+  TransactionRequestOptions,
+  RetryPolicy,
+  FetchLike,
+  GatewayRequest,
+  RequestInterceptor,
+  ResponseInterceptor,
+  Logger,
 } from '../types';
 
-import { FatZebraError } from '../types';
+import type { FatZebraErrorCode } from '../types';
+
+import {
+  FatZebraError,
+  ValidationError,
+  NetworkError,
+  TimeoutError,
+  AuthenticationError,
+  DeclinedError,
+  GatewayError,
+} from '../types';
+
+import { delay, encodeBase64, isMinorUnitAmount, VERSION } from '../utils';
+
+// ISO 8583 response codes the gateway returns for declined transactions
+const GATEWAY_RESPONSE_CODES: Record<string, FatZebraErrorCode> = {
+  '05': 'DECLINED',
+  '14': 'INVALID_CARD',
+  '15': 'INVALID_CARD',
+  '33': 'EXPIRED_CARD',
+  '34': 'SUSPECTED_FRAUD',
+  '41': 'SUSPECTED_FRAUD',
+  '43': 'SUSPECTED_FRAUD',
+  '51': 'INSUFFICIENT_FUNDS',
+  '54': 'EXPIRED_CARD',
+  '56': 'INVALID_CARD',
+  '59': 'SUSPECTED_FRAUD',
+};
+
+/**
+ * Resolve a stable error code from a gateway response code and/or error messages
+ */
+function resolveDeclineCode(
+  responseCode: string | undefined,
+  messages: string[]
+): FatZebraErrorCode | undefined {
+  if (responseCode && GATEWAY_RESPONSE_CODES[responseCode]) {
+    return GATEWAY_RESPONSE_CODES[responseCode];
+  }
+
+  const text = messages.join(' ').toLowerCase();
+  if (text.includes('insufficient')) return 'INSUFFICIENT_FUNDS';
+  if (text.includes('expired')) return 'EXPIRED_CARD';
+  if (text.includes('fraud')) return 'SUSPECTED_FRAUD';
+  if (text.includes('invalid card') || text.includes('card number')) return 'INVALID_CARD';
+  if (text.includes('declined')) return 'DECLINED';
+
+  return undefined;
+}
+
+/**
+ * Map a non-2xx gateway response onto the error hierarchy
+ */
+function createHttpError(status: number, responseData: any, retryAfter?: number): FatZebraError {
+  const errors: string[] = responseData?.errors || [];
+  const message = errors.join(', ') || `HTTP ${status}`;
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, errors, responseData, status);
+  }
+
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, errors, responseData, status);
+  }
+
+  if (status === 404) {
+    return new FatZebraError(message, errors, responseData, {
+      code: 'NOT_FOUND',
+      statusCode: status,
+    });
+  }
+
+  if (status === 429) {
+    return new GatewayError(message, errors, responseData, {
+      code: 'RATE_LIMITED',
+      statusCode: status,
+      ...(retryAfter !== undefined && { retryAfter }),
+    });
+  }
+
+  if (status >= 500) {
+    return new GatewayError(message, errors, responseData, {
+      statusCode: status,
+      ...(retryAfter !== undefined && { retryAfter }),
+    });
+  }
+
+  return new FatZebraError(message, errors, responseData, {
+    code: resolveDeclineCode(undefined, errors) ?? 'UNKNOWN_ERROR',
+    statusCode: status,
+  });
+}
+
+// Header used to pass idempotency keys to the gateway
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Resolve the idempotency key for a mutating call: an explicit key wins, otherwise one is
+ * derived from the operation and its reference (or transaction ID) so that repeating the
+ * same call maps onto the same gateway-side operation. Partial captures get no derived key,
+ * since a second one on the same transaction would reuse it.
+ */
+function resolveIdempotencyKey(
+  operation: string,
+  options: TransactionRequestOptions,
+  seed?: string
+): string | undefined {
+  if (options.idempotencyKey) {
+    return options.idempotencyKey;
+  }
+
+  return seed ? `${operation}-${seed}` : undefined;
+}
+
+const DEFAULT_RETRY_POLICY = {
+  maxRetries: 2,
+  baseDelay: 250,
+  maxDelay: 5000,
+  jitter: true,
+};
+
+// HTTP methods that are safe to repeat without an idempotency key
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'DELETE'];
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Only transient failures are retried: network errors, timeouts, rate limiting and 5xx responses
+ */
+function isRetryableError(error: unknown): error is FatZebraError {
+  if (error instanceof NetworkError) {
+    return true;
+  }
+
+  return (
+    error instanceof GatewayError &&
+    (error.statusCode === 429 || (error.statusCode !== undefined && error.statusCode >= 500))
+  );
+}
+
+/**
+ * Exponential backoff with full jitter; a Retry-After from the gateway takes precedence
+ */
+function getRetryDelay(
+  policy: Required<Omit<RetryPolicy, 'shouldRetry'>>,
+  attempt: number,
+  retryAfter?: number
+): number {
+  if (retryAfter !== undefined) {
+    return retryAfter;
+  }
+
+  const backoff = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, attempt));
+  return policy.jitter ? Math.random() * backoff : backoff;
+}
+
+/**
+ * Reject amounts that are not whole minor units, which usually means a major-unit amount
+ * (e.g. 10.50 instead of 1050) was passed by mistake
+ */
+function assertMinorUnits(amount: unknown): void {
+  if (!isMinorUnitAmount(amount)) {
+    throw new ValidationError(
+      'Amount must be a non-negative integer in minor units (e.g. 1050 for $10.50)',
+      [`Invalid amount: ${String(amount)}`]
+    );
+  }
+}
+
+const DEFAULT_USER_AGENT = `FatZebra Next.js v${VERSION}`;
+
+/**
+ * Read a JSON body, tolerating empty or non-JSON payloads (e.g. proxy error pages)
+ */
+async function readJson(response: Response): Promise<any> {
+  try {
+    return await response.json();
+  } catch {
+    return {};
+  }
+}
 
 export class FatZebraClient {
-  private config: Required<FatZebraConfig>;
+  private config: Required<Omit<FatZebraConfig, 'fetch' | 'interceptors' | 'logger'>>;
   private baseUrl: string;
+  private transport: FetchLike | undefined;
+  private logger: Logger | undefined;
+  private requestInterceptors: RequestInterceptor[];
+  private responseInterceptors: ResponseInterceptor[];
 
   constructor(config: FatZebraConfig) {
     this.config = {
@@ -31,50 +243,144 @@ export class FatZebraClient {
           ? 'https://gateway.sandbox.fatzebra.com.au'
           : 'https://gateway.fatzebra.com.au'),
       timeout: config.timeout ?? 30000,
+      retry: config.retry ?? { maxRetries: 0 }, // retries are opt-in
+      userAgent: config.userAgent ?? DEFAULT_USER_AGENT,
     };
 
     this.baseUrl = `${this.config.gatewayUrl}/v1.0`;
+    this.transport = config.fetch;
+    this.logger = config.logger;
+    this.requestInterceptors = [...(config.interceptors?.request ?? [])];
+    this.responseInterceptors = [...(config.interceptors?.response ?? [])];
+  }
+
+  /**
+   * Register a request interceptor; returns a function that removes it
+   */
+  addRequestInterceptor(interceptor: RequestInterceptor): () => void {
+    this.requestInterceptors.push(interceptor);
+    return () => {
+      this.requestInterceptors = this.requestInterceptors.filter(i => i !== interceptor);
+    };
+  }
+
+  /**
+   * Register a response interceptor; returns a function that removes it
+   */
+  addResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+    this.responseInterceptors.push(interceptor);
+    return () => {
+      this.responseInterceptors = this.responseInterceptors.filter(i => i !== interceptor);
+    };
   }
 
   /**
    * Process a purchase transaction
    */
-  async purchase(data: PurchaseRequest): Promise<FatZebraResponse<TransactionResponse>> {
-    return this.makeRequest<TransactionResponse>('POST', '/purchases', data);
+  async purchase(
+    data: PurchaseRequest,
+    options: TransactionRequestOptions = {}
+  ): Promise<FatZebraResponse<TransactionResponse>> {
+    assertMinorUnits(data.amount);
+    return this.makeRequest<TransactionResponse>('POST', '/purchases', data, {
+      idempotencyKey: resolveIdempotencyKey('purchase', options, data.reference),
+    });
   }
 
   /**
    * Process an authorization transaction
    */
-  async authorize(data: AuthorizationRequest): Promise<FatZebraResponse<TransactionResponse>> {
-    return this.makeRequest<TransactionResponse>('POST', '/purchases', {
-      ...data,
-      capture: false,
+  async authorize(
+    data: AuthorizationRequest,
+    options: TransactionRequestOptions = {}
+  ): Promise<FatZebraResponse<TransactionResponse>> {
+    assertMinorUnits(data.amount);
+    return this.makeRequest<TransactionResponse>(
+      'POST',
+      '/purchases',
+      {
+        ...data,
+        capture: false,
+      },
+      { idempotencyKey: resolveIdempotencyKey('authorize', options, data.reference) }
+    );
+  }
+
+  /**
+   * Process a purchase transaction against a stored card token
+   */
+  async purchaseWithToken(
+    data: TokenPurchaseRequest,
+    options: TransactionRequestOptions = {}
+  ): Promise<FatZebraResponse<TransactionResponse>> {
+    assertMinorUnits(data.amount);
+    return this.makeRequest<TransactionResponse>('POST', '/purchases', data, {
+      idempotencyKey: resolveIdempotencyKey('purchase', options, data.reference),
     });
   }
 
+  /**
+   * Process an authorization transaction against a stored card token
+   */
+  async authorizeWithToken(
+    data: TokenAuthorizationRequest,
+    options: TransactionRequestOptions = {}
+  ): Promise<FatZebraResponse<TransactionResponse>> {
+    assertMinorUnits(data.amount);
+    return this.makeRequest<TransactionResponse>(
+      'POST',
+      '/purchases',
+      {
+        ...data,
+        capture: false,
+      },
+      { idempotencyKey: resolveIdempotencyKey('authorize', options, data.reference) }
+    );
+  }
+
   /**
    * Capture a previously authorized transaction
+   *
+   * @param amount - Amount to capture in minor units; omit to capture the full authorization.
+   * Pass options.idempotencyKey with a partial capture to make it safe to retry
    */
   async capture(
     transactionId: string,
-    amount?: number
+    amount?: number,
+    options: TransactionRequestOptions = {}
   ): Promise<FatZebraResponse<TransactionResponse>> {
-    const data = amount ? { amount: Math.round(amount * 100) } : {};
+    if (amount !== undefined) {
+      assertMinorUnits(amount);
+    }
+
+    const data = amount !== undefined ? { amount } : {};
     return this.makeRequest<TransactionResponse>(
       'POST',
       `/purchases/${transactionId}/capture`,
-      data
+      data,
+      {
+        idempotencyKey: resolveIdempotencyKey(
+          'capture',
+          options,
+          amount === undefined ? transactionId : undefined
+        ),
+      }
     );
   }
 
   /**
-   * Process a refund transaction
+   * Process a refund transaction (amount in minor units; omit for a full refund)
    */
-  async refund(data: RefundRequest): Promise<FatZebraResponse<TransactionResponse>> {
-    return this.makeRequest<TransactionResponse>('POST', '/refunds', {
-      ...data,
-      amount: data.amount ? Math.round(data.amount * 100) : undefined,
+  async refund(
+    data: RefundRequest,
+    options: TransactionRequestOptions = {}
+  ): Promise<FatZebraResponse<TransactionResponse>> {
+    if (data.amount !== undefined) {
+      assertMinorUnits(data.amount);
+    }
+
+    return this.makeRequest<TransactionResponse>('POST', '/refunds', data, {
+      idempotencyKey: resolveIdempotencyKey('refund', options, data.reference),
     });
   }
 
@@ -85,6 +391,55 @@ export class FatZebraClient {
     return this.makeRequest<TokenizationResponse>('POST', '/credit_cards', data);
   }
 
+  /**
+   * List stored card tokens
+   */
+  async listCards(options: ListCardsOptions = {}): Promise<FatZebraResponse<StoredCardResponse[]>> {
+    const params = new URLSearchParams();
+    if (options.page !== undefined) params.set('page', String(options.page));
+    if (options.per_page !== undefined) params.set('per_page', String(options.per_page));
+
+    const query = params.toString();
+    return this.makeRequest<StoredCardResponse[]>(
+      'GET',
+      `/credit_cards${query ? `?${query}` : ''}`
+    );
+  }
+
+  /**
+   * Get the masked details of a stored card token
+   */
+  async getCard(cardToken: string): Promise<FatZebraResponse<StoredCardResponse>> {
+    return this.makeRequest<StoredCardResponse>(
+      'GET',
+      `/credit_cards/${encodeURIComponent(cardToken)}`
+    );
+  }
+
+  /**
+   * Update the expiry date of a stored card token (e.g. after the card is reissued)
+   */
+  async updateCardExpiry(
+    cardToken: string,
+    data: UpdateCardExpiryRequest
+  ): Promise<FatZebraResponse<StoredCardResponse>> {
+    return this.makeRequest<StoredCardResponse>(
+      'PUT',
+      `/credit_cards/${encodeURIComponent(cardToken)}`,
+      data
+    );
+  }
+
+  /**
+   * Delete a stored card token
+   */
+  async deleteCard(cardToken: string): Promise<FatZebraResponse<CardDeletionResponse>> {
+    return this.makeRequest<CardDeletionResponse>(
+      'DELETE',
+      `/credit_cards/${encodeURIComponent(cardToken)}`
+    );
+  }
+
   /**
    * Get transaction details
    */
@@ -95,8 +450,25 @@ export class FatZebraClient {
   /**
    * Void a transaction
    */
-  async void(transactionId: string): Promise<FatZebraResponse<TransactionResponse>> {
-    return this.makeRequest<TransactionResponse>('POST', `/purchases/${transactionId}/void`);
+  async void(
+    transactionId: string,
+    options: TransactionRequestOptions = {}
+  ): Promise<FatZebraResponse<TransactionResponse>> {
+    return this.makeRequest<TransactionResponse>(
+      'POST',
+      `/purchases/${transactionId}/void`,
+      undefined,
+      { idempotencyKey: resolveIdempotencyKey('void', options, transactionId) }
+    );
+  }
+
+  /**
+   * Check the gateway is reachable and accepts the credentials; throws like any other request
+   *
+   * Lists at most one stored card, a read that changes nothing.
+   */
+  async ping(): Promise<void> {
+    await this.makeRequest<StoredCardResponse[]>('GET', '/credit_cards?per_page=1');
   }
 
   /**
@@ -118,66 +490,149 @@ export class FatZebraClient {
   }
 
   /**
-   * Make HTTP request to Fat Zebra API
+   * Make HTTP request to Fat Zebra API, retrying transient failures per the configured policy
    */
   private async makeRequest<T>(
     method: string,
     endpoint: string,
-    data?: any
+    data?: any,
+    options: { idempotencyKey?: string | undefined } = {}
   ): Promise<FatZebraResponse<T>> {
-    const url = `${this.baseUrl}${endpoint}`;
-
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      Authorization: `Basic ${Buffer.from(`${this.config.username}:${this.config.token}`).toString(
-        'base64'
-      )}`,
-      'User-Agent': 'FatZebra Next.js v0.5.9',
-    };
+    const { shouldRetry, ...retryPolicy } = this.config.retry;
+    const policy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
+
+    // A POST without an idempotency key could be applied twice by the gateway
+    const canRetry = IDEMPOTENT_METHODS.includes(method) || !!options.idempotencyKey;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.sendRequest<T>(method, endpoint, data, options);
+      } catch (error) {
+        if (
+          !canRetry ||
+          attempt >= policy.maxRetries ||
+          !isRetryableError(error) ||
+          (shouldRetry && !shouldRetry(error, attempt + 1))
+        ) {
+          throw error;
+        }
 
-    const requestOptions: RequestInit = {
+        const retryDelay = getRetryDelay(policy, attempt, error.retryAfter);
+        this.logger?.warn('Retrying gateway request', {
+          method,
+          endpoint,
+          attempt: attempt + 1,
+          delay: retryDelay,
+          error,
+        });
+        await delay(retryDelay);
+      }
+    }
+  }
+
+  /**
+   * Send a single HTTP request to the Fat Zebra API
+   */
+  private async sendRequest<T>(
+    method: string,
+    endpoint: string,
+    data: any,
+    options: { idempotencyKey?: string | undefined }
+  ): Promise<FatZebraResponse<T>> {
+    let request: GatewayRequest = {
       method,
-      headers,
-      signal: this.createTimeoutSignal(this.config.timeout),
+      url: `${this.baseUrl}${endpoint}`,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Basic ${encodeBase64(`${this.config.username}:${this.config.token}`)}`,
+        'User-Agent': this.config.userAgent,
+      },
     };
 
+    if (options.idempotencyKey) {
+      request.headers[IDEMPOTENCY_HEADER] = options.idempotencyKey;
+    }
+
     if (data && method !== 'GET') {
-      requestOptions.body = JSON.stringify(data);
+      request.body = JSON.stringify(data);
     }
 
+    for (const interceptor of this.requestInterceptors) {
+      request = (await interceptor(request)) ?? request;
+    }
+
+    const startedAt = Date.now();
+    let response: Response;
+    let responseData: any;
+
     try {
-      const response = await fetch(url, requestOptions);
-      const responseData = await response.json();
-
-      if (!response.ok) {
-        throw new FatZebraError(
-          responseData.errors?.join(', ') || `HTTP ${response.status}`,
-          responseData.errors || [],
-          responseData
-        );
-      }
+      // Resolve the global fetch per call so it can be replaced after the client is created
+      const transport = this.transport ?? fetch;
 
-      return {
-        successful: responseData.successful || false,
-        response: responseData.response,
-        errors: responseData.errors,
-        test: responseData.test,
-      };
+      response = await transport(request.url, {
+        method: request.method,
+        headers: request.headers,
+        signal: this.createTimeoutSignal(this.config.timeout),
+        ...(request.body !== undefined && { body: request.body }),
+      });
+      responseData = await readJson(response);
     } catch (error) {
-      if (error instanceof FatZebraError) {
-        throw error;
-      }
+      this.logger?.error('Gateway request failed', {
+        method: request.method,
+        url: request.url,
+        error,
+      });
 
       if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new FatZebraError('Request timeout', ['Request timed out']);
+        if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+          throw new TimeoutError();
         }
 
-        throw new FatZebraError(`Network error: ${error.message}`, [error.message]);
+        throw new NetworkError(`Network error: ${error.message}`, [error.message]);
       }
 
       throw new FatZebraError('Unknown error occurred', ['Unknown error']);
     }
+
+    for (const interceptor of this.responseInterceptors) {
+      await interceptor({
+        request,
+        status: response.status,
+        headers: response.headers,
+        data: responseData,
+        duration: Date.now() - startedAt,
+      });
+    }
+
+    const duration = Date.now() - startedAt;
+    this.logger?.debug('Gateway response', {
+      method: request.method,
+      url: request.url,
+      status: response.status,
+      duration,
+    });
+
+    if (!response.ok) {
+      // Gateway errors can echo the submitted card data; the logger redacts it
+      this.logger?.warn('Gateway returned an error', {
+        method: request.method,
+        url: request.url,
+        status: response.status,
+        response: responseData,
+      });
+      throw createHttpError(
+        response.status,
+        responseData,
+        parseRetryAfter(response.headers?.get?.('retry-after'))
+      );
+    }
+
+    return {
+      successful: responseData.successful || false,
+      response: responseData.response,
+      errors: responseData.errors,
+      test: responseData.test,
+    };
   }
 }
 
@@ -190,14 +645,48 @@ export function createFatZebraClient(config: FatZebraConfig): FatZebraClient {
 
 /**
  * Handle Fat Zebra API response
+ *
+ * Throws a DeclinedError (with a code such as INSUFFICIENT_FUNDS or EXPIRED_CARD) when the
+ * gateway processed the transaction but did not approve it, or a FatZebraError for other
+ * unsuccessful responses.
  */
 export function handleFatZebraResponse<T>(response: FatZebraResponse<T>): FatZebraResponse<T> {
+  const transaction = response.response as Partial<TransactionResponse> | undefined;
+  const isTransaction =
+    !!transaction && typeof transaction === 'object' && 'successful' in transaction;
+
   if (!response.successful && response.errors?.length) {
-    throw new FatZebraError(response.errors[0], response.errors, response);
+    const code = resolveDeclineCode(transaction?.response_code, response.errors);
+
+    if (isTransaction) {
+      throw new DeclinedError(response.errors[0], response.errors, response, code);
+    }
+
+    throw new FatZebraError(response.errors[0], response.errors, response, {
+      code: code ?? 'UNKNOWN_ERROR',
+    });
+  }
+
+  if (response.successful && isTransaction && transaction.successful === false) {
+    const message = transaction.message || 'Transaction declined';
+    throw new DeclinedError(
+      message,
+      [message],
+      response,
+      resolveDeclineCode(transaction.response_code, [message])
+    );
   }
 
   return response;
 }
 
-// Export error class for convenience
-export { FatZebraError };
+// Export error classes for convenience
+export {
+  FatZebraError,
+  ValidationError,
+  NetworkError,
+  TimeoutError,
+  AuthenticationError,
+  DeclinedError,
+  GatewayError,
+};
@@ -1,4 +1,12 @@
 export { FatZebraClient } from './client';
 export { createFatZebraClient } from './client';
-export { FatZebraError } from './client';
-export { handleFatZebraResponse } from './client';
+export {
+  FatZebraError,
+  ValidationError,
+  NetworkError,
+  TimeoutError,
+  AuthenticationError,
+  DeclinedError,
+  GatewayError,
+} from './client';
+export { handleFatZebraResponse, IDEMPOTENCY_HEADER } from './client';
@@ -0,0 +1,457 @@
+/**
+ * Framework adapters for route handlers
+ *
+ * Each adapter turns a framework request into a StandaloneRequest, runs the handler and writes
+ * its response (a StandaloneResponse or a NextResponse) back through the framework. Bodies
+ * already parsed by the framework are used as they are; otherwise the raw body is read from the
+ * request stream, up to bodyLimit. Webhook signatures are checked over the raw body, so keep
+ * JSON parsers away from the webhook route or expose the raw body as `rawBody`.
+ *
+ * Handler errors go to the framework's own error handling (next(error) for Express, thrown for
+ * Fastify, Koa and Hono); createNodeHandler answers them with a 500.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { AdapterOptions, RequestHandler, ServerError, StandaloneRequest } from './types';
+
+const DEFAULT_BODY_LIMIT = 1024 * 1024; // 1 MB
+
+const METHODS_WITH_BODY = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Statuses that must not carry a body
+const EMPTY_STATUSES = [204, 205, 304];
+
+export interface StandaloneRequestInit {
+  method?: string | undefined;
+  url?: string | undefined;
+  headers?: unknown;
+  body?: string | undefined;
+  remoteAddress?: string | undefined;
+}
+
+export interface ResponseParts {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+function createBodyError(statusCode: number, message: string, code: string): ServerError {
+  return Object.assign(new Error(message), { statusCode, code });
+}
+
+function isBodyError(error: any): error is ServerError {
+  return error?.code === 'PAYLOAD_TOO_LARGE' || error?.code === 'INVALID_BODY';
+}
+
+// Plain header object with lower-case names from Headers or Node's IncomingHttpHeaders
+function toHeaderRecord(headers: any): Record<string, string> {
+  const record: Record<string, string> = {};
+
+  if (typeof headers?.forEach === 'function' && typeof headers.get === 'function') {
+    headers.forEach((value: string, name: string) => {
+      record[name.toLowerCase()] = value;
+    });
+    return record;
+  }
+
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    if (value !== undefined) {
+      record[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+
+  return record;
+}
+
+// Body text from what a framework's parser left behind (string, Buffer or parsed JSON)
+function serializeBody(body: unknown): string {
+  if (body === undefined || body === null) {
+    return '';
+  }
+
+  if (typeof body === 'string') {
+    return body;
+  }
+
+  if (body instanceof Uint8Array) {
+    return new TextDecoder().decode(body);
+  }
+
+  return JSON.stringify(body);
+}
+
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+function assertWithinLimit(text: string, limit: number): string {
+  if (byteLength(text) > limit) {
+    throw createBodyError(413, 'Request body too large', 'PAYLOAD_TOO_LARGE');
+  }
+  return text;
+}
+
+/**
+ * Build the StandaloneRequest route handlers expect
+ */
+export function toStandaloneRequest(init: StandaloneRequestInit): StandaloneRequest {
+  const body = init.body ?? '';
+
+  return {
+    method: (init.method || 'GET').toUpperCase(),
+    ...(init.url && { url: init.url }),
+    headers: toHeaderRecord(init.headers),
+    body,
+    json: async () => (body ? JSON.parse(body) : null),
+    text: async () => body,
+    ...(init.remoteAddress && { remoteAddress: init.remoteAddress }),
+  };
+}
+
+/**
+ * Status, headers and body text of a StandaloneResponse or a Fetch/Next.js Response
+ *
+ * A non-empty body without a Content-Type is sent as application/json.
+ */
+export async function readStandaloneResponse(response: any): Promise<ResponseParts> {
+  const status = typeof response?.status === 'number' ? response.status : 200;
+  const headers: Record<string, string> = {};
+
+  if (typeof response?.headers?.forEach === 'function') {
+    response.headers.forEach((value: string, name: string) => {
+      headers[name] = value;
+    });
+  } else {
+    for (const [name, value] of Object.entries(response?.headers ?? {})) {
+      if (value !== undefined && value !== null) {
+        headers[name] = String(value);
+      }
+    }
+  }
+
+  let body = '';
+  if (!EMPTY_STATUSES.includes(status)) {
+    if (typeof response?.body === 'string') {
+      body = response.body;
+    } else if (typeof response?.text === 'function') {
+      body = await response.text();
+    } else if (response?.body !== undefined && response?.body !== null) {
+      body = serializeBody(response.body);
+    }
+  }
+
+  const hasContentType = Object.keys(headers).some(name => name.toLowerCase() === 'content-type');
+  if (body && !hasContentType) {
+    headers['content-type'] = 'application/json';
+  }
+
+  return { status, headers, body };
+}
+
+/**
+ * Read a Node.js request body, rejecting with 413 past limit bytes and 400 when the stream fails
+ */
+export function readNodeBody(
+  req: IncomingMessage,
+  limit: number = DEFAULT_BODY_LIMIT
+): Promise<string> {
+  const declared = Number(req.headers?.['content-length']);
+  if (declared > limit) {
+    return Promise.reject(createBodyError(413, 'Request body too large', 'PAYLOAD_TOO_LARGE'));
+  }
+
+  if (req.readableEnded) {
+    return Promise.resolve('');
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const cleanup = () => {
+      req.off('data', onData);
+      req.off('end', onEnd);
+      req.off('error', onError);
+      req.off('aborted', onAborted);
+    };
+    const fail = (error: ServerError) => {
+      cleanup();
+      // Drain the rest so the response can still be written
+      req.resume();
+      reject(error);
+    };
+    const onData = (chunk: Buffer | string) => {
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+      size += buffer.length;
+      if (size > limit) {
+        fail(createBodyError(413, 'Request body too large', 'PAYLOAD_TOO_LARGE'));
+        return;
+      }
+      chunks.push(buffer);
+    };
+    const onEnd = () => {
+      cleanup();
+      resolve(Buffer.concat(chunks).toString('utf8'));
+    };
+    const onError = () =>
+      fail(createBodyError(400, 'Request body could not be read', 'INVALID_BODY'));
+    const onAborted = () => fail(createBodyError(400, 'Request aborted', 'INVALID_BODY'));
+
+    req.on('data', onData);
+    req.on('end', onEnd);
+    req.on('error', onError);
+    req.on('aborted', onAborted);
+  });
+}
+
+// Body of a Node.js request, preferring a raw or parsed body left by framework middleware
+async function getNodeRequestBody(
+  req: IncomingMessage & { body?: unknown; rawBody?: unknown },
+  limit: number,
+  parsed: unknown = req.body,
+  raw: unknown = req.rawBody
+): Promise<string> {
+  if (raw !== undefined) {
+    return assertWithinLimit(serializeBody(raw), limit);
+  }
+
+  // A parser has consumed the stream, or this is a plain object rather than a stream
+  if (parsed !== undefined && (req.readableEnded || typeof req.on !== 'function')) {
+    return assertWithinLimit(serializeBody(parsed), limit);
+  }
+
+  if (!METHODS_WITH_BODY.includes((req.method || 'GET').toUpperCase())) {
+    return '';
+  }
+
+  return typeof req.on === 'function' ? readNodeBody(req, limit) : '';
+}
+
+/**
+ * Write a handler response to a Node.js ServerResponse
+ */
+export async function sendNodeResponse(res: ServerResponse, response: unknown): Promise<void> {
+  const { status, headers, body } = await readStandaloneResponse(response);
+
+  res.statusCode = status;
+  for (const [name, value] of Object.entries(headers)) {
+    res.setHeader(name, value);
+  }
+
+  if (body) {
+    res.end(body);
+  } else {
+    res.end();
+  }
+}
+
+function errorBody(message: string, code?: string): string {
+  return JSON.stringify({ successful: false, error: message, ...(code && { code }) });
+}
+
+function sendNodeError(res: ServerResponse, status: number, message: string, code?: string): void {
+  res.statusCode = status;
+  res.setHeader('content-type', 'application/json');
+  res.end(errorBody(message, code));
+}
+
+/**
+ * Adapt a route handler to node:http (createServer(createNodeHandler(handler)))
+ */
+export function createNodeHandler(
+  handler: RequestHandler,
+  options: AdapterOptions = {}
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  const limit = options.bodyLimit ?? DEFAULT_BODY_LIMIT;
+
+  return async (req, res) => {
+    try {
+      const body = await getNodeRequestBody(req, limit);
+      const request = toStandaloneRequest({
+        method: req.method,
+        url: (req as any).originalUrl ?? req.url,
+        headers: req.headers,
+        body,
+        remoteAddress: req.socket?.remoteAddress,
+      });
+
+      await sendNodeResponse(res, await handler(request));
+    } catch (error: any) {
+      if (isBodyError(error)) {
+        sendNodeError(res, error.statusCode!, error.message, error.code);
+        return;
+      }
+
+      options.logger?.error('Handler error', { error });
+
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
+      sendNodeError(res, 500, 'Internal server error');
+    }
+  };
+}
+
+/**
+ * Adapt a route handler to Express middleware (app.use('/api/fatzebra', ...))
+ *
+ * Uses req.rawBody or a body parsed by express.json()/express.raw(), else reads the stream.
+ */
+export function createExpressMiddleware(
+  handler: RequestHandler,
+  options: AdapterOptions = {}
+): (req: any, res: any, next: (error?: unknown) => void) => Promise<void> {
+  const limit = options.bodyLimit ?? DEFAULT_BODY_LIMIT;
+
+  return async (req, res, next) => {
+    let body: string;
+    try {
+      body = await getNodeRequestBody(req, limit);
+    } catch (error: any) {
+      if (!isBodyError(error)) {
+        next(error);
+        return;
+      }
+      sendNodeError(res, error.statusCode!, error.message, error.code);
+      return;
+    }
+
+    try {
+      const request = toStandaloneRequest({
+        method: req.method,
+        url: req.originalUrl ?? req.url,
+        headers: req.headers,
+        body,
+        remoteAddress: req.socket?.remoteAddress,
+      });
+
+      await sendNodeResponse(res, await handler(request));
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Adapt a route handler to a Fastify route handler (fastify.all('/api/fatzebra/*', ...))
+ *
+ * Fastify parses JSON bodies itself; register a string content-type parser (or a plugin that sets
+ * request.rawBody) where webhook signatures are verified.
+ */
+export function createFastifyHandler(
+  handler: RequestHandler,
+  options: AdapterOptions = {}
+): (request: any, reply: any) => Promise<any> {
+  const limit = options.bodyLimit ?? DEFAULT_BODY_LIMIT;
+
+  return async (request, reply) => {
+    let body: string;
+    try {
+      body = assertWithinLimit(serializeBody(request.rawBody ?? request.body), limit);
+    } catch (error: any) {
+      return reply
+        .code(error.statusCode)
+        .header('content-type', 'application/json')
+        .send(errorBody(error.message, error.code));
+    }
+
+    const response = await handler(
+      toStandaloneRequest({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        body,
+        remoteAddress: request.raw?.socket?.remoteAddress,
+      })
+    );
+    const parts = await readStandaloneResponse(response);
+
+    reply.code(parts.status).headers(parts.headers);
+    return parts.body ? reply.send(parts.body) : reply.send();
+  };
+}
+
+/**
+ * Adapt a route handler to Koa middleware
+ *
+ * Uses ctx.request.rawBody (koa-bodyparser) or ctx.request.body, else reads the stream.
+ */
+export function createKoaMiddleware(
+  handler: RequestHandler,
+  options: AdapterOptions = {}
+): (ctx: any, next?: () => Promise<unknown>) => Promise<void> {
+  const limit = options.bodyLimit ?? DEFAULT_BODY_LIMIT;
+
+  return async ctx => {
+    let body: string;
+    try {
+      body = await getNodeRequestBody(ctx.req, limit, ctx.request.body, ctx.request.rawBody);
+    } catch (error: any) {
+      if (!isBodyError(error)) {
+        throw error;
+      }
+      ctx.status = error.statusCode;
+      ctx.type = 'application/json';
+      ctx.body = errorBody(error.message, error.code);
+      return;
+    }
+
+    const response = await handler(
+      toStandaloneRequest({
+        method: ctx.method,
+        url: ctx.originalUrl ?? ctx.url,
+        headers: ctx.headers,
+        body,
+        remoteAddress: ctx.req?.socket?.remoteAddress,
+      })
+    );
+    const parts = await readStandaloneResponse(response);
+
+    ctx.status = parts.status;
+    ctx.set(parts.headers);
+    ctx.body = parts.body || null;
+    // Koa turns a null body into 204; keep the handler's status
+    ctx.status = parts.status;
+  };
+}
+
+/**
+ * Adapt a route handler to a Hono handler (app.all('/api/fatzebra/*', ...)); also runs where
+ * Hono runs on the Fetch API, e.g. edge runtimes
+ */
+export function createHonoHandler(
+  handler: RequestHandler,
+  options: AdapterOptions = {}
+): (c: any) => Promise<Response> {
+  const limit = options.bodyLimit ?? DEFAULT_BODY_LIMIT;
+
+  return async c => {
+    const raw: Request = c.req.raw;
+    let body = '';
+
+    if (METHODS_WITH_BODY.includes(raw.method.toUpperCase())) {
+      try {
+        if (Number(raw.headers.get('content-length')) > limit) {
+          throw createBodyError(413, 'Request body too large', 'PAYLOAD_TOO_LARGE');
+        }
+        body = assertWithinLimit(await raw.text(), limit);
+      } catch (error: any) {
+        const bodyError = isBodyError(error)
+          ? error
+          : createBodyError(400, 'Request body could not be read', 'INVALID_BODY');
+        return new Response(errorBody(bodyError.message, bodyError.code), {
+          status: bodyError.statusCode!,
+          headers: { 'content-type': 'application/json' },
+        });
+      }
+    }
+
+    const response = await handler(
+      toStandaloneRequest({ method: raw.method, url: raw.url, headers: raw.headers, body })
+    );
+    const parts = await readStandaloneResponse(response);
+
+    return new Response(parts.body || null, { status: parts.status, headers: parts.headers });
+  };
+}
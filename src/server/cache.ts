@@ -0,0 +1,129 @@
+/**
+ * Response cache for idempotent gateway reads
+ *
+ * Transaction and card token lookups are kept for `ttl` ms, so status polling does not hit the
+ * gateway on every request. Keys are scoped to the merchant and gateway, and the handlers that
+ * change a transaction or card (capture, refund, void, card updates) invalidate its entry.
+ * Only successful responses are cached, and cache failures fall back to the gateway.
+ */
+
+import type { FatZebraConfig, FatZebraResponse } from '../types';
+import type { CacheConfig, CacheItem, ResponseCacheStore } from './types';
+
+const DEFAULT_TTL = 10 * 1000; // 10 seconds
+const DEFAULT_MAX_SIZE = 500;
+
+/**
+ * In-memory LRU store (per process; use a shared store when running multiple instances)
+ */
+export class MemoryResponseCacheStore implements ResponseCacheStore {
+  private items = new Map<string, CacheItem>();
+
+  constructor(private readonly maxSize: number = DEFAULT_MAX_SIZE) {}
+
+  async get<T = any>(key: string): Promise<CacheItem<T> | undefined> {
+    const item = this.items.get(key);
+
+    if (!item) {
+      return undefined;
+    }
+
+    if (isExpired(item)) {
+      this.items.delete(key);
+      return undefined;
+    }
+
+    // Re-insert so the Map's insertion order tracks recency
+    this.items.delete(key);
+    this.items.set(key, item);
+    return item;
+  }
+
+  async set<T = any>(key: string, item: CacheItem<T>): Promise<void> {
+    this.items.delete(key);
+    this.items.set(key, item);
+
+    while (this.items.size > this.maxSize) {
+      const oldest = this.items.keys().next().value as string;
+      this.items.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
+
+function isExpired(item: CacheItem, now: number = Date.now()): boolean {
+  return now - item.timestamp >= item.ttl;
+}
+
+// Merchant and gateway a response belongs to, so a shared store never mixes accounts
+function scope(config: FatZebraConfig): string {
+  const gateway = config.gatewayUrl ?? (config.sandbox ? 'sandbox' : 'live');
+  return `${config.username}@${gateway}`;
+}
+
+export function transactionCacheKey(config: FatZebraConfig, transactionId: string): string {
+  return `${scope(config)}:transaction:${transactionId}`;
+}
+
+export function cardCacheKey(config: FatZebraConfig, cardToken: string): string {
+  return `${scope(config)}:card:${cardToken}`;
+}
+
+export class ResponseCache {
+  readonly enabled: boolean;
+  private readonly ttl: number;
+  private readonly store: ResponseCacheStore;
+
+  constructor(config: CacheConfig = {}) {
+    this.enabled = config.enabled ?? true;
+    this.ttl = config.ttl ?? DEFAULT_TTL;
+    this.store = config.store ?? new MemoryResponseCacheStore(config.maxSize ?? DEFAULT_MAX_SIZE);
+  }
+
+  /**
+   * Return the cached response for key, or load it and cache it when successful
+   */
+  async fetch<T extends FatZebraResponse>(
+    key: string,
+    load: () => Promise<T>
+  ): Promise<{ result: T; cached: boolean }> {
+    if (!this.enabled) {
+      return { result: await load(), cached: false };
+    }
+
+    const item = await this.store.get<T>(key).catch(() => undefined);
+    if (item && !isExpired(item)) {
+      return { result: item.data, cached: true };
+    }
+
+    const result = await load();
+    if (result?.successful) {
+      await this.store
+        .set(key, { data: result, timestamp: Date.now(), ttl: this.ttl })
+        .catch(() => undefined);
+    }
+
+    return { result, cached: false };
+  }
+
+  /**
+   * Drop cached responses, e.g. after a capture, refund or void changed the transaction
+   */
+  async invalidate(...keys: string[]): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    await Promise.all(keys.map(key => this.store.delete(key).catch(() => undefined)));
+  }
+}
+
+/**
+ * Create a response cache (in memory unless config.store is given)
+ */
+export function createResponseCache(config: CacheConfig = {}): ResponseCache {
+  return new ResponseCache(config);
+}
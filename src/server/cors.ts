@@ -0,0 +1,127 @@
+/**
+ * CORS for route handlers
+ *
+ * Answers preflight (OPTIONS) requests itself and adds Access-Control-* headers to responses
+ * for allowed origins. Requests from other origins still reach the handler, but without CORS
+ * headers the browser does not let the page read the response.
+ */
+
+import { compose, getRequestHeader, setResponseHeaders } from './middleware';
+import {
+  isNextJSAvailable,
+  type CorsOptions,
+  type CorsOrigin,
+  type MiddlewareFunction,
+  type RequestHandler,
+} from './types';
+
+const DEFAULT_METHODS = ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE'];
+
+function matchesOrigin(origin: string, allowed: string | RegExp): boolean {
+  return typeof allowed === 'string' ? allowed === origin : allowed.test(origin);
+}
+
+// Value for Access-Control-Allow-Origin, or undefined when the origin is not allowed
+async function resolveOrigin(
+  origin: string,
+  allowed: CorsOrigin,
+  request: any
+): Promise<string | undefined> {
+  if (allowed === '*') {
+    return '*';
+  }
+
+  if (typeof allowed === 'boolean') {
+    return allowed ? origin : undefined;
+  }
+
+  if (typeof allowed === 'function') {
+    return (await allowed(origin, request)) ? origin : undefined;
+  }
+
+  const list = Array.isArray(allowed) ? allowed : [allowed];
+  return list.some(entry => matchesOrigin(origin, entry)) ? origin : undefined;
+}
+
+// 204 without a body, as a Response under Next.js or a standalone response otherwise
+function createPreflightResponse(headers: Record<string, string>): any {
+  if (typeof Response !== 'undefined' && isNextJSAvailable()) {
+    return new Response(null, { status: 204, headers });
+  }
+
+  return {
+    status: 204,
+    statusText: 'No Content',
+    headers,
+    body: '',
+    json: () => Promise.resolve(null),
+  };
+}
+
+/**
+ * CORS middleware for compose()
+ */
+export function cors(options: CorsOptions = {}): MiddlewareFunction {
+  const allowed = options.origin ?? '*';
+  const credentials = options.credentials ?? false;
+
+  // Reflecting every origin with credentials would let any site call the payment routes
+  if (credentials && (allowed === '*' || allowed === true)) {
+    throw new Error('CORS credentials need an explicit origin allow-list');
+  }
+
+  return async (request, next) => {
+    const origin = getRequestHeader(request, 'origin');
+
+    // Not a cross-origin request
+    if (!origin) {
+      return next();
+    }
+
+    const allowOrigin = await resolveOrigin(origin, allowed, request);
+    const headers: Record<string, string> = {
+      ...(allowOrigin && { 'Access-Control-Allow-Origin': allowOrigin }),
+      ...(allowOrigin && credentials && { 'Access-Control-Allow-Credentials': 'true' }),
+      ...(allowOrigin !== '*' && { Vary: 'Origin' }),
+    };
+
+    const requestedMethod = getRequestHeader(request, 'access-control-request-method');
+
+    if (request.method?.toUpperCase() === 'OPTIONS' && requestedMethod) {
+      const requestedHeaders = getRequestHeader(request, 'access-control-request-headers');
+      const allowedHeaders = options.allowedHeaders?.join(', ') ?? requestedHeaders;
+
+      return createPreflightResponse(
+        allowOrigin
+          ? {
+              ...headers,
+              'Access-Control-Allow-Methods': (options.methods ?? DEFAULT_METHODS).join(', '),
+              ...(allowedHeaders && { 'Access-Control-Allow-Headers': allowedHeaders }),
+              ...(options.maxAge !== undefined && {
+                'Access-Control-Max-Age': String(options.maxAge),
+              }),
+            }
+          : headers
+      );
+    }
+
+    const response = await next();
+
+    setResponseHeaders(response, {
+      ...headers,
+      ...(allowOrigin &&
+        options.exposedHeaders?.length && {
+          'Access-Control-Expose-Headers': options.exposedHeaders.join(', '),
+        }),
+    });
+
+    return response;
+  };
+}
+
+/**
+ * Wrap a route handler with CORS (export it as OPTIONS too, so preflight requests reach it)
+ */
+export function withCors(handler: RequestHandler, options: CorsOptions = {}): RequestHandler {
+  return compose(cors(options))(handler);
+}
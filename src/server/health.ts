@@ -0,0 +1,111 @@
+/**
+ * Health checks for load balancers and orchestrators
+ *
+ * Liveness answers from the process alone, so a gateway outage never restarts healthy
+ * instances. Readiness also checks that credentials and required environment variables are
+ * present and that the gateway accepts the credentials within a timeout; it fails with 503 so
+ * traffic moves to other instances.
+ */
+
+import { createFatZebraClient } from '../lib/client';
+import { VERSION } from '../utils/version';
+import {
+  createResponse,
+  type HealthCheckOptions,
+  type HealthCheckResponse,
+  type HealthCheckType,
+  type StandaloneRequest,
+  type StandaloneResponse,
+} from './types';
+
+const DEFAULT_TIMEOUT = 5000;
+
+const startedAt = Date.now();
+
+/**
+ * Seconds since the server module was loaded
+ */
+export function getUptime(): number {
+  return Math.floor((Date.now() - startedAt) / 1000);
+}
+
+// ?check=readiness (or ready) selects readiness; anything else is a liveness check
+export function getHealthCheckType(request: StandaloneRequest): HealthCheckType {
+  try {
+    const check = new URL(request.url ?? '/', 'http://localhost').searchParams.get('check');
+    return check === 'readiness' || check === 'ready' ? 'readiness' : 'liveness';
+  } catch {
+    return 'liveness';
+  }
+}
+
+async function probeGateway(options: HealthCheckOptions): Promise<'ok' | 'error'> {
+  if (!options.config) {
+    return 'error';
+  }
+
+  const client = createFatZebraClient({
+    ...options.config,
+    timeout: options.timeout ?? DEFAULT_TIMEOUT,
+    retry: { maxRetries: 0 },
+    ...(options.logger && { logger: options.logger }),
+  });
+
+  try {
+    await client.ping();
+    return 'ok';
+  } catch {
+    return 'error';
+  }
+}
+
+/**
+ * Run a liveness or readiness check
+ */
+export async function checkHealth(options: HealthCheckOptions = {}): Promise<HealthCheckResponse> {
+  const check = options.check ?? 'liveness';
+  const response: HealthCheckResponse = {
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    version: VERSION,
+    mode: options.mode ?? 'standalone',
+    check,
+    uptime: getUptime(),
+  };
+
+  if (check === 'liveness') {
+    return response;
+  }
+
+  const configured =
+    !!options.config?.username &&
+    !!options.config.token &&
+    (options.requiredEnv ?? []).every(name => !!process.env[name]);
+  const dependencies = {
+    config: configured ? 'ok' : 'error',
+    gateway: await probeGateway(options),
+  } as const;
+
+  return {
+    ...response,
+    status: Object.values(dependencies).every(status => status === 'ok') ? 'ok' : 'error',
+    dependencies,
+  };
+}
+
+/**
+ * Answer a health check request: 200 when healthy, 503 otherwise
+ */
+export async function respondToHealthCheck(
+  request: StandaloneRequest,
+  options: HealthCheckOptions = {}
+): Promise<StandaloneResponse> {
+  const result = await checkHealth({
+    ...options,
+    check: options.check ?? getHealthCheckType(request),
+  });
+
+  return createResponse(result, result.status === 'ok' ? 200 : 503, {
+    'Cache-Control': 'no-store',
+  });
+}
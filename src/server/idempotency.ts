@@ -0,0 +1,221 @@
+/**
+ * Idempotency support for mutating route handlers
+ *
+ * Wraps a handler so that repeated calls carrying the same Idempotency-Key header replay the
+ * stored outcome instead of reaching the gateway a second time.
+ */
+
+import { createResponse } from './types';
+import type {
+  IdempotencyOptions,
+  IdempotencyRecord,
+  IdempotencyStore,
+  RequestHandler,
+} from './types';
+import type { TransactionRequestOptions } from '../types';
+import { sha256Hex } from '../utils/crypto';
+
+const DEFAULT_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const DEFAULT_HEADER = 'idempotency-key';
+
+/**
+ * In-memory idempotency store (per process; use a shared store when running multiple instances)
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, { record: IdempotencyRecord; expiresAt: number }>();
+
+  async get(key: string): Promise<IdempotencyRecord | undefined> {
+    const entry = this.records.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return undefined;
+    }
+
+    return entry.record;
+  }
+
+  async create(key: string, record: IdempotencyRecord, ttlMs: number): Promise<boolean> {
+    if (await this.get(key)) {
+      return false;
+    }
+
+    this.records.set(key, { record, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  async set(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void> {
+    this.records.set(key, { record, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+const defaultStore = new MemoryIdempotencyStore();
+
+// Read a header regardless of header format (Headers, Map or plain object)
+function getHeader(request: any, name: string): string | undefined {
+  const headers = request?.headers;
+
+  if (!headers) {
+    return undefined;
+  }
+
+  if (typeof headers.get === 'function') {
+    return headers.get(name) ?? undefined;
+  }
+
+  const match = Object.keys(headers).find(key => key.toLowerCase() === name);
+  return match ? headers[match] : undefined;
+}
+
+// Read the raw request body without consuming it for the wrapped handler. Requests that can only
+// be read through json() keep the parsed value in parsedBody, which extractRequestData reuses;
+// bodies a framework already parsed into an object are serialized
+export async function readRequestBody(request: any): Promise<string> {
+  if (typeof request.body === 'string') {
+    return request.body;
+  }
+
+  if (typeof request.clone === 'function') {
+    return request.clone().text();
+  }
+
+  if (request.body !== null && typeof request.body === 'object') {
+    return JSON.stringify(request.body);
+  }
+
+  if (request.parsedBody !== undefined) {
+    return JSON.stringify(request.parsedBody);
+  }
+
+  if (typeof request.json === 'function') {
+    request.parsedBody = await request.json();
+    return JSON.stringify(request.parsedBody);
+  }
+
+  return '';
+}
+
+async function readResponseBody(response: any): Promise<any> {
+  if (typeof response.body === 'string') {
+    return JSON.parse(response.body);
+  }
+
+  if (typeof response.clone === 'function') {
+    return response.clone().json();
+  }
+
+  if (typeof response.json === 'function') {
+    return response.json();
+  }
+
+  return undefined;
+}
+
+/**
+ * Wrap a route handler with idempotency key handling
+ *
+ * - Requests without the header are passed straight through
+ * - The first request for a key runs the handler and stores its status and body
+ * - Repeats with the same body replay the stored response (with `idempotent-replayed: true`)
+ * - Repeats while the first is still running get 409; repeats with a different body get 422
+ * - 5xx outcomes and thrown errors are not stored, so the call can be retried
+ */
+export function withIdempotency(
+  handler: RequestHandler,
+  options: IdempotencyOptions = {}
+): RequestHandler {
+  const store = options.store ?? defaultStore;
+  const ttl = options.ttl ?? DEFAULT_TTL;
+  const headerName = (options.headerName ?? DEFAULT_HEADER).toLowerCase();
+
+  return async request => {
+    const key = getHeader(request, headerName);
+
+    if (!key) {
+      return handler(request);
+    }
+
+    // Detects a key reused for a different request without keeping card data
+    const requestFingerprint = await sha256Hex(
+      `${request.method || 'GET'} ${request.url || ''} ${await readRequestBody(request)}`
+    );
+
+    const acquired = await store.create(
+      key,
+      { state: 'in_progress', fingerprint: requestFingerprint, createdAt: Date.now() },
+      ttl
+    );
+
+    if (!acquired) {
+      const existing = await store.get(key);
+
+      if (existing && existing.fingerprint !== requestFingerprint) {
+        return createResponse(
+          {
+            successful: false,
+            errors: ['Idempotency key has already been used for a different request'],
+          },
+          422
+        );
+      }
+
+      if (existing && existing.state === 'completed') {
+        return createResponse(existing.body, existing.status, { 'idempotent-replayed': 'true' });
+      }
+
+      return createResponse(
+        {
+          successful: false,
+          errors: ['A request with this idempotency key is already in progress'],
+        },
+        409
+      );
+    }
+
+    try {
+      const response = await handler(request);
+      const status = response?.status ?? 200;
+
+      if (status >= 500) {
+        await store.delete(key);
+        return response;
+      }
+
+      await store.set(
+        key,
+        {
+          state: 'completed',
+          fingerprint: requestFingerprint,
+          createdAt: Date.now(),
+          status,
+          body: await readResponseBody(response),
+        },
+        ttl
+      );
+
+      return response;
+    } catch (error) {
+      await store.delete(key);
+      throw error;
+    }
+  };
+}
+
+/**
+ * Client call options carrying the idempotency key a caller supplied on a route request
+ */
+export function getIdempotencyOptions(
+  request: any,
+  headerName: string = DEFAULT_HEADER
+): TransactionRequestOptions {
+  const idempotencyKey = getHeader(request, headerName.toLowerCase());
+  return idempotencyKey ? { idempotencyKey } : {};
+}
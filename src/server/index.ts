@@ -3,15 +3,31 @@
  * Now supports both Next.js and standalone environments
  */
 
-// FIXED: Import both extractErrorMessage and generateVerificationHash for local use within this file
-import { extractErrorMessage, generateVerificationHash } from '../utils';
+import {
+  createLogger,
+  defaultLogger,
+  extractErrorMessage,
+  generateVerificationHashAsync,
+} from '../utils';
+import type { Logger } from '../types';
+import { createNodeHandler } from './adapters';
+import { withCors } from './cors';
+import { createAccessTokenHandler, createOAuthTokenService, type OAuthTokenService } from './oauth';
+import { createResponse, type ServerConfig } from './types';
 
 // Re-export client for server-side use
 export {
   createFatZebraClient,
   FatZebraClient,
   FatZebraError,
+  ValidationError,
+  NetworkError,
+  TimeoutError,
+  AuthenticationError,
+  DeclinedError,
+  GatewayError,
   handleFatZebraResponse,
+  IDEMPOTENCY_HEADER,
 } from '../lib/client';
 
 // Re-export specific types needed for server-side operations
@@ -19,17 +35,38 @@ export type {
   FatZebraConfig,
   PurchaseRequest,
   AuthorizationRequest,
+  TokenPurchaseRequest,
+  TokenAuthorizationRequest,
   RefundRequest,
+  TransactionRequestOptions,
+  Money,
+  RetryPolicy,
+  FetchLike,
+  GatewayRequest,
+  GatewayResponse,
+  RequestInterceptor,
+  ResponseInterceptor,
   TokenizationRequest,
   FatZebraResponse,
   TransactionResponse,
   TokenizationResponse,
+  StoredCardResponse,
+  ListCardsOptions,
+  UpdateCardExpiryRequest,
+  CardDeletionResponse,
   SettlementResponse,
   VerificationHashData,
   WebhookEvent,
+  WebhookEventType,
+  WebhookEventOfType,
+  Logger,
+  LogLevel,
+  LogContext,
+  LogWriter,
   OAuthConfig,
   Customer,
   CardDetails,
+  FatZebraErrorCode,
 } from '../types';
 
 // Re-export specific utilities needed for server-side operations
@@ -43,15 +80,163 @@ export {
   delay,
   retryWithBackoff,
   generateVerificationHash,
+  generateVerificationHashAsync,
+  verifyWebhookSignature,
+  hmacSha256Hex,
+  sha256Hex,
+  timingSafeEqual,
+  encodeBase64,
+  getCurrencyExponent,
+  toMinorUnits,
+  fromMinorUnits,
+  isMinorUnitAmount,
+  moneyFromMajor,
+  formatMoney,
   extractErrorMessage,
   extractErrorDetails,
+  redactSensitiveData,
+  createLogger,
+  defaultLogger,
+  StructuredLogger,
 } from '../utils';
 
 // Export standalone types and utilities
-export type { StandaloneRequest, StandaloneResponse, RequestHandler } from './types';
+export type {
+  StandaloneRequest,
+  StandaloneResponse,
+  RequestHandler,
+  IdempotencyRecord,
+  IdempotencyStore,
+  IdempotencyOptions,
+  StandaloneServerConfig,
+  WebhookEventHandlers,
+  WebhookHandlerOptions,
+  WebhookEventStore,
+  WebhookVerificationOptions,
+  WebhookVerificationResult,
+  WebhookInboxStatus,
+  WebhookInboxRecord,
+  WebhookInboxFilter,
+  WebhookInboxStore,
+  WebhookInboxOptions,
+  OAuthTokenRequest,
+  OAuthTokenResponse,
+  OAuthTokenServiceOptions,
+  AccessTokenHandlerOptions,
+  OAuthAccessToken,
+  RateLimitConfig,
+  RateLimitInfo,
+  RateLimitStore,
+  RateLimitKey,
+  RateLimitOptions,
+  MiddlewareFunction,
+  LegacyMiddlewareFunction,
+  EnhancedRequest,
+  EnhancedResponse,
+  ErrorResponse,
+  ServerError,
+  RequestIdOptions,
+  JsonBodyOptions,
+  AuthOptions,
+  ServerConfig,
+  CorsOptions,
+  CorsOrigin,
+  LogEntry,
+  LoggerConfig,
+  FileLogWriter,
+  CacheConfig,
+  CacheItem,
+  ResponseCacheStore,
+  HealthCheckOptions,
+  HealthCheckResponse,
+  HealthCheckType,
+  FatZebraRouteName,
+  FatZebraRouteOptions,
+  FatZebraRouterOptions,
+  AdapterOptions,
+} from './types';
 
 export { createResponse, extractRequestData, getClientIP, isNextJSAvailable } from './types';
 
+// Export idempotency support for mutating routes
+export { withIdempotency, MemoryIdempotencyStore, getIdempotencyOptions } from './idempotency';
+
+// Export the middleware pipeline and built-in middleware
+export {
+  compose,
+  requestId,
+  timing,
+  allowMethods,
+  jsonBody,
+  normalizeErrors,
+  requireAuth,
+  requestLogger,
+  createErrorResponse,
+  getRequestHeader,
+  setResponseHeaders,
+} from './middleware';
+
+// Export the file destination for the structured logger
+export { createFileLogWriter } from './log-file';
+
+// Export CORS support for cross-origin storefronts
+export { cors, withCors } from './cors';
+
+// Export rate limiting for route handlers
+export {
+  withRateLimit,
+  MemoryRateLimitStore,
+  getCardFingerprint,
+  getRateLimitHeaders,
+} from './rate-limit';
+
+// Export the response cache for transaction status and card lookups
+export {
+  ResponseCache,
+  createResponseCache,
+  MemoryResponseCacheStore,
+  transactionCacheKey,
+  cardCacheKey,
+} from './cache';
+
+// Export framework adapters (Express, Fastify, Koa, Hono and node:http)
+export {
+  createNodeHandler,
+  createExpressMiddleware,
+  createFastifyHandler,
+  createKoaMiddleware,
+  createHonoHandler,
+  toStandaloneRequest,
+  readStandaloneResponse,
+  readNodeBody,
+  sendNodeResponse,
+} from './adapters';
+export type { StandaloneRequestInit, ResponseParts } from './adapters';
+
+// Export the catch-all router for a single API route
+export { createFatZebraRouter } from './router';
+export type { FatZebraRouter } from './router';
+
+// Export health checks for load balancers
+export { checkHealth, respondToHealthCheck, getHealthCheckType, getUptime } from './health';
+
+// Export typed webhook dispatch
+export {
+  createWebhookHandler,
+  parseWebhookEvent,
+  verifyWebhookRequest,
+  MemoryWebhookEventStore,
+} from './webhooks';
+// Export the OAuth client-credentials token service
+export { OAuthTokenService, createOAuthTokenService, createAccessTokenHandler } from './oauth';
+
+export {
+  WebhookInbox,
+  createWebhookInbox,
+  MemoryWebhookInboxStore,
+  FileWebhookInboxStore,
+} from './webhook-inbox';
+
 // Export standalone route handlers (work without Next.js)
 export {
   handlePurchase,
@@ -59,15 +244,22 @@ export {
   handleCapture,
   handleRefund,
   handleTokenization,
+  handleListCards,
+  handleGetCard,
+  handleUpdateCardExpiry,
+  handleDeleteCard,
   handleVoid,
   handleTransactionStatus,
   handleVerifyWebhook,
   handleGenerateHash,
   handleHealthCheck,
+  createStandaloneHandlers,
   runtime,
   dynamic,
 } from './routes-standalone';
 
+export type { StandaloneHandler, StandaloneHandlers } from './routes-standalone';
+
 // Import standalone handlers as fallbacks
 import {
   handlePurchase as handlePurchaseStandalone,
@@ -137,232 +329,78 @@ export const handleEnhancedWebhookNextJS =
   nextjsRoutes.handleEnhancedWebhook || handleVerifyWebhookStandalone;
 
 // Utility function to get appropriate handlers based on environment
-export function getRouteHandlers() {
+export function getRouteHandlers(config: ServerConfig = {}) {
   const isNextJS = checkNextJSAvailability();
 
+  const handlers = {
+    purchase: isNextJS ? handlePurchaseNextJS : handlePurchaseStandalone,
+    authorization: isNextJS ? handleAuthorizationNextJS : handleAuthorizationStandalone,
+    capture: isNextJS ? handleCaptureNextJS : handleCaptureStandalone,
+    refund: isNextJS ? handleRefundNextJS : handleRefundStandalone,
+    tokenization: isNextJS ? handleTokenizationNextJS : handleTokenizationStandalone,
+    void: isNextJS ? handleVoidNextJS : handleVoidStandalone,
+    transactionStatus: isNextJS ? handleTransactionStatusNextJS : handleTransactionStatusStandalone,
+    verifyWebhook: isNextJS ? handleVerifyWebhookNextJS : handleVerifyWebhookStandalone,
+    generateHash: isNextJS ? handleGenerateHashNextJS : handleGenerateHashStandalone,
+    healthCheck: isNextJS ? handleHealthCheckNextJS : handleHealthCheckStandalone,
+  };
+
   return {
     isNextJS,
-    handlers: {
-      purchase: isNextJS ? handlePurchaseNextJS : handlePurchaseStandalone,
-      authorization: isNextJS ? handleAuthorizationNextJS : handleAuthorizationStandalone,
-      capture: isNextJS ? handleCaptureNextJS : handleCaptureStandalone,
-      refund: isNextJS ? handleRefundNextJS : handleRefundStandalone,
-      tokenization: isNextJS ? handleTokenizationNextJS : handleTokenizationStandalone,
-      void: isNextJS ? handleVoidNextJS : handleVoidStandalone,
-      transactionStatus: isNextJS
-        ? handleTransactionStatusNextJS
-        : handleTransactionStatusStandalone,
-      verifyWebhook: isNextJS ? handleVerifyWebhookNextJS : handleVerifyWebhookStandalone,
-      generateHash: isNextJS ? handleGenerateHashNextJS : handleGenerateHashStandalone,
-      healthCheck: isNextJS ? handleHealthCheckNextJS : handleHealthCheckStandalone,
-    },
+    handlers: Object.fromEntries(
+      Object.entries(handlers).map(([name, handler]) => [name, withServerConfig(handler, config)])
+    ) as typeof handlers,
   };
 }
 
-// Express.js/standalone HTTP server support
-export function createExpressHandler(handler: any) {
-  return async (req: any, res: any) => {
-    try {
-      let body = '';
-      if (req.method === 'POST' || req.method === 'PUT' || req.method === 'PATCH') {
-        // Read request body for non-GET requests
-        req.on('data', (chunk: any) => {
-          body += chunk.toString();
-        });
-
-        req.on('end', async () => {
-          try {
-            // Create request object
-            const request = {
-              method: req.method,
-              url: req.url,
-              headers: req.headers,
-              body: body,
-              json: () => (body ? JSON.parse(body) : null),
-            };
-
-            const response = await handler(request);
-
-            // Convert our response to HTTP format
-            if (response && typeof response === 'object') {
-              if (response.status) {
-                res.statusCode = response.status;
-              }
-              if (response.headers) {
-                Object.entries(response.headers).forEach(([key, value]) => {
-                  res.setHeader(key, value as string);
-                });
-              }
-              res.setHeader('Content-Type', 'application/json');
-              res.end(response.body || JSON.stringify(response));
-            } else {
-              res.setHeader('Content-Type', 'application/json');
-              res.end(JSON.stringify(response));
-            }
-          } catch (parseError) {
-            console.error('Request parsing error:', parseError);
-            res.statusCode = 400;
-            res.setHeader('Content-Type', 'application/json');
-            res.end(
-              JSON.stringify({
-                successful: false,
-                errors: ['Invalid request format'],
-              })
-            );
-          }
-        });
-      } else {
-        // Handle GET requests
-        try {
-          const request = {
-            method: req.method,
-            url: req.url,
-            headers: req.headers,
-            body: null,
-            json: () => Promise.resolve(null),
-          };
-
-          const response = await handler(request);
-
-          // Convert our response to HTTP format
-          if (response && typeof response === 'object') {
-            if (response.status) {
-              res.statusCode = response.status;
-            }
-            if (response.headers) {
-              Object.entries(response.headers).forEach(([key, value]) => {
-                res.setHeader(key, value as string);
-              });
-            }
-            res.setHeader('Content-Type', 'application/json');
-            res.end(response.body || JSON.stringify(response));
-          } else {
-            res.setHeader('Content-Type', 'application/json');
-            res.end(JSON.stringify(response));
-          }
-        } catch (parseError) {
-          console.error('Request parsing error:', parseError);
-          res.statusCode = 400;
-          res.setHeader('Content-Type', 'application/json');
-          res.end(
-            JSON.stringify({
-              successful: false,
-              errors: ['Invalid request format'],
-            })
-          );
-        }
-      }
-    } catch (error) {
-      console.error('Handler error:', error);
-      res.statusCode = 500;
-      res.setHeader('Content-Type', 'application/json');
-      res.end(
-        JSON.stringify({
-          successful: false,
-          errors: [extractErrorMessage(error)],
-        })
-      );
-    }
-  };
+function getConfiguredLogger(config: ServerConfig): Logger | undefined {
+  return config.logger ?? (config.logging && createLogger(config.logging));
 }
 
-// OAuth token generation handler that works in both environments
-export async function generateAccessToken(request: any): Promise<any> {
-  try {
-    const method = request.method || 'POST';
-    if (method !== 'POST') {
-      const response = {
-        successful: false,
-        errors: ['Method not allowed'],
-      };
-
-      if (checkNextJSAvailability()) {
-        if (typeof require !== 'undefined') {
-          const { NextResponse } = require('next/server');
-          return NextResponse.json(response, { status: 405 });
-        }
-      }
-
-      return {
-        status: 405,
-        headers: { 'content-type': 'application/json' },
-        body: JSON.stringify(response),
-      };
-    }
-
-    const body = await request.json();
-    const { clientId, clientSecret, scope } = body;
-
-    if (!clientId || !clientSecret) {
-      const response = {
-        successful: false,
-        errors: ['Missing client credentials'],
-      };
-
-      if (checkNextJSAvailability()) {
-        if (typeof require !== 'undefined') {
-          const { NextResponse } = require('next/server');
-          return NextResponse.json(response, { status: 400 });
-        }
+// Apply ServerConfig.enableCors / corsOptions and the configured logger to a route handler
+function withServerConfig(handler: any, config: ServerConfig): any {
+  const logger = getConfiguredLogger(config);
+  const logged = logger
+    ? (request: any) => {
+        request.logger ??= logger;
+        return handler(request);
       }
+    : handler;
 
-      return {
-        status: 400,
-        headers: { 'content-type': 'application/json' },
-        body: JSON.stringify(response),
-      };
-    }
+  return config.enableCors ? withCors(logged, config.corsOptions) : logged;
+}
 
-    // Generate OAuth token logic here
-    const token = {
-      access_token: `fz_token_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      token_type: 'Bearer',
-      expires_in: 3600,
-      scope: scope || 'payments',
-    };
+// Express.js/standalone HTTP server support; see createExpressMiddleware for Express error handling
+export function createExpressHandler(handler: any, config: ServerConfig = {}) {
+  const logger = getConfiguredLogger(config) ?? defaultLogger;
+  return createNodeHandler(withServerConfig(handler, config), { logger });
+}
 
-    if (checkNextJSAvailability()) {
-      if (typeof require !== 'undefined') {
-        const { NextResponse } = require('next/server');
-        return NextResponse.json({
-          successful: true,
-          ...token,
-        });
-      }
-    }
+let envTokenService: OAuthTokenService | undefined;
 
-    return {
-      status: 200,
-      headers: { 'content-type': 'application/json' },
-      body: JSON.stringify({
-        successful: true,
-        ...token,
-      }),
-    };
-  } catch (error) {
-    console.error('OAuth token generation error:', error);
-    const errorMessage = extractErrorMessage(error);
+// Token service for FAT_ZEBRA_CLIENT_ID / FAT_ZEBRA_CLIENT_SECRET, created on first use
+function getEnvTokenService(): OAuthTokenService | undefined {
+  const clientId = process.env.FAT_ZEBRA_CLIENT_ID;
+  const clientSecret = process.env.FAT_ZEBRA_CLIENT_SECRET;
 
-    const response = {
-      successful: false,
-      errors: [errorMessage],
-    };
-
-    if (checkNextJSAvailability()) {
-      if (typeof require !== 'undefined') {
-        const { NextResponse } = require('next/server');
-        return NextResponse.json(response, { status: 500 });
-      }
-    }
+  if (!clientId || !clientSecret) {
+    return undefined;
+  }
 
-    return {
-      status: 500,
-      headers: { 'content-type': 'application/json' },
-      body: JSON.stringify(response),
-    };
+  if (!envTokenService) {
+    envTokenService = createOAuthTokenService({
+      clientId,
+      clientSecret,
+      sandbox: process.env.NODE_ENV !== 'production',
+    });
   }
+
+  return envTokenService;
 }
 
+// OAuth token route handler: issues browser tokens using the server's client credentials
+export const generateAccessToken = createAccessTokenHandler(getEnvTokenService);
+
 // Verification hash generation handler that works in both environments
 export async function generateVerificationHashHandler(request: any): Promise<any> {
   try {
@@ -373,18 +411,7 @@ export async function generateVerificationHashHandler(request: any): Promise<any
         errors: ['Method not allowed'],
       };
 
-      if (checkNextJSAvailability()) {
-        if (typeof require !== 'undefined') {
-          const { NextResponse } = require('next/server');
-          return NextResponse.json(response, { status: 405 });
-        }
-      }
-
-      return {
-        status: 405,
-        headers: { 'content-type': 'application/json' },
-        body: JSON.stringify(response),
-      };
+      return createResponse(response, 405);
     }
 
     const body = await request.json();
@@ -395,42 +422,20 @@ export async function generateVerificationHashHandler(request: any): Promise<any
         errors: ['Missing required hash data'],
       };
 
-      if (checkNextJSAvailability()) {
-        if (typeof require !== 'undefined') {
-          const { NextResponse } = require('next/server');
-          return NextResponse.json(response, { status: 400 });
-        }
-      }
-
-      return {
-        status: 400,
-        headers: { 'content-type': 'application/json' },
-        body: JSON.stringify(response),
-      };
+      return createResponse(response, 400);
     }
 
     const secret = process.env.FAT_ZEBRA_SHARED_SECRET || 'default-secret';
-    const hash = generateVerificationHash(body, secret);
+    const hash = await generateVerificationHashAsync(body, secret);
 
     const response = {
       successful: true,
       hash,
     };
 
-    if (checkNextJSAvailability()) {
-      if (typeof require !== 'undefined') {
-        const { NextResponse } = require('next/server');
-        return NextResponse.json(response);
-      }
-    }
-
-    return {
-      status: 200,
-      headers: { 'content-type': 'application/json' },
-      body: JSON.stringify(response),
-    };
+    return createResponse(response);
   } catch (error) {
-    console.error('Hash generation error:', error);
+    defaultLogger.error('Hash generation error', { error });
     const errorMessage = extractErrorMessage(error);
 
     const response = {
@@ -438,17 +443,6 @@ export async function generateVerificationHashHandler(request: any): Promise<any
       errors: [errorMessage],
     };
 
-    if (checkNextJSAvailability()) {
-      if (typeof require !== 'undefined') {
-        const { NextResponse } = require('next/server');
-        return NextResponse.json(response, { status: 500 });
-      }
-    }
-
-    return {
-      status: 500,
-      headers: { 'content-type': 'application/json' },
-      body: JSON.stringify(response),
-    };
+    return createResponse(response, 500);
   }
 }
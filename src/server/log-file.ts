@@ -0,0 +1,81 @@
+/**
+ * File destination for the structured logger (Node.js only)
+ *
+ * Lines are appended in order through a single queue. When maxSize is set and the next line
+ * would take the file past it, the file is rotated: app.log becomes app.log.1, app.log.1
+ * becomes app.log.2 and so on, keeping at most maxFiles rotated files.
+ */
+
+import type { FileLogWriter, LoggerConfig } from './types';
+
+const DEFAULT_MAX_FILES = 5;
+
+async function rotate(filename: string, maxFiles: number): Promise<void> {
+  const { rename, rm } = await import('fs/promises');
+
+  if (maxFiles < 1) {
+    await rm(filename, { force: true });
+    return;
+  }
+
+  await rm(`${filename}.${maxFiles}`, { force: true });
+
+  for (let index = maxFiles - 1; index >= 1; index--) {
+    // Missing files are expected until the first rotations have happened
+    await rename(`${filename}.${index}`, `${filename}.${index + 1}`).catch(() => undefined);
+  }
+
+  await rename(filename, `${filename}.1`);
+}
+
+async function currentSize(filename: string): Promise<number> {
+  const { stat } = await import('fs/promises');
+
+  try {
+    return (await stat(filename)).size;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return 0;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create a LoggerConfig.write that appends lines to config.filename
+ */
+export function createFileLogWriter(
+  config: Pick<LoggerConfig, 'filename' | 'maxSize' | 'maxFiles'>
+): FileLogWriter {
+  const { filename, maxSize } = config;
+  const maxFiles = config.maxFiles ?? DEFAULT_MAX_FILES;
+
+  if (!filename) {
+    throw new Error('LoggerConfig.filename is required for the file destination');
+  }
+
+  let queue: Promise<void> = Promise.resolve();
+
+  const append = async (line: string): Promise<void> => {
+    const { appendFile, mkdir } = await import('fs/promises');
+    const { dirname } = await import('path');
+    const data = `${line}\n`;
+
+    await mkdir(dirname(filename), { recursive: true });
+
+    const size = maxSize ? await currentSize(filename) : 0;
+    if (maxSize && size > 0 && size + Buffer.byteLength(data) > maxSize) {
+      await rotate(filename, maxFiles);
+    }
+
+    await appendFile(filename, data, 'utf8');
+  };
+
+  const write = (line: string): Promise<void> => {
+    // One failed write (e.g. a full disk) must not stop later lines
+    queue = queue.then(() => append(line)).catch(() => undefined);
+    return queue;
+  };
+
+  return Object.assign(write, { flush: () => queue });
+}
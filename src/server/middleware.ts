@@ -0,0 +1,343 @@
+/**
+ * Middleware pipeline for route handlers
+ *
+ * compose(...middleware)(handler) returns a RequestHandler. Each middleware receives the request
+ * and a next() that runs the rest of the pipeline, so it can act before and after the handler or
+ * return its own response. Works with Next.js (Request/NextResponse) and standalone requests.
+ */
+
+import {
+  AuthenticationError,
+  DeclinedError,
+  FatZebraError,
+  GatewayError,
+  NetworkError,
+  TimeoutError,
+  ValidationError,
+  type Logger,
+} from '../types';
+import { randomUUID, timingSafeEqual } from '../utils/crypto';
+import { readRequestBody } from './idempotency';
+import {
+  createResponse,
+  getClientIP,
+  type AuthOptions,
+  type EnhancedRequest,
+  type EnhancedResponse,
+  type ErrorResponse,
+  type JsonBodyOptions,
+  type MiddlewareFunction,
+  type RequestHandler,
+  type RequestIdOptions,
+} from './types';
+
+const DEFAULT_REQUEST_ID_HEADER = 'x-request-id';
+
+/**
+ * Chain middleware around a route handler; the first middleware runs outermost
+ */
+export function compose(
+  ...middleware: MiddlewareFunction[]
+): (handler: RequestHandler) => RequestHandler {
+  return handler => async request => {
+    const enhanced = request as EnhancedRequest;
+    let index = -1;
+
+    const dispatch = async (position: number): Promise<EnhancedResponse> => {
+      if (position <= index) {
+        throw new Error('next() called multiple times');
+      }
+      index = position;
+
+      const current = middleware[position];
+      return current
+        ? current(enhanced, () => dispatch(position + 1))
+        : (handler(enhanced) as Promise<EnhancedResponse>);
+    };
+
+    return dispatch(0);
+  };
+}
+
+// Header lookup for Request/NextRequest (Headers) or standalone requests (plain object)
+export function getRequestHeader(request: any, name: string): string | undefined {
+  const headers = request?.headers;
+
+  if (typeof headers?.get === 'function') {
+    return headers.get(name) ?? undefined;
+  }
+
+  const match = Object.keys(headers ?? {}).find(key => key.toLowerCase() === name.toLowerCase());
+  return match ? (headers[match] ?? undefined) : undefined;
+}
+
+// Add headers to a NextResponse/Response (Headers) or a standalone response (plain object)
+export function setResponseHeaders(response: any, headers: Record<string, string>): void {
+  if (!response) {
+    return;
+  }
+
+  if (typeof response.headers?.set === 'function') {
+    for (const [name, value] of Object.entries(headers)) {
+      response.headers.set(name, value);
+    }
+  } else {
+    response.headers = { ...response.headers, ...headers };
+  }
+}
+
+/**
+ * Build an ErrorResponse for a request, carrying its request ID when one was assigned
+ */
+export function createErrorResponse(
+  request: EnhancedRequest,
+  status: number,
+  error: string,
+  extra: { code?: string; details?: any; headers?: Record<string, string> } = {}
+): EnhancedResponse {
+  const body: ErrorResponse = {
+    successful: false,
+    error,
+    errors: [error],
+    ...(extra.code && { code: extra.code }),
+    ...(extra.details !== undefined && { details: extra.details }),
+    ...(request.requestId && { requestId: request.requestId }),
+    timestamp: new Date().toISOString(),
+  };
+
+  return createResponse(body, status, extra.headers);
+}
+
+/**
+ * Assign request.requestId (reusing X-Request-Id when present) and echo it on the response
+ */
+export function requestId(options: RequestIdOptions = {}): MiddlewareFunction {
+  const header = options.header ?? DEFAULT_REQUEST_ID_HEADER;
+  const generate = options.generate ?? randomUUID;
+
+  return async (request, next) => {
+    const incoming =
+      options.trustIncoming === false ? undefined : getRequestHeader(request, header);
+    const id = incoming || (await generate());
+    request.requestId = id;
+
+    const response = await next();
+    setResponseHeaders(response, { [header]: id });
+    if (response) {
+      response.requestId = id;
+    }
+
+    return response;
+  };
+}
+
+/**
+ * Record request metadata and set processingTime and X-Response-Time (ms) on the response
+ */
+export function timing(): MiddlewareFunction {
+  return async (request, next) => {
+    const start = Date.now();
+    request.timestamp = new Date(start);
+    request.ip = getClientIP(request);
+    const userAgent = getRequestHeader(request, 'user-agent');
+    if (userAgent) {
+      request.userAgent = userAgent;
+    }
+
+    const response = await next();
+    const processingTime = Date.now() - start;
+
+    setResponseHeaders(response, { 'X-Response-Time': `${processingTime}ms` });
+    if (response) {
+      response.processingTime = processingTime;
+    }
+
+    return response;
+  };
+}
+
+/**
+ * Reject methods not in the list with 405 and an Allow header
+ */
+export function allowMethods(...methods: string[]): MiddlewareFunction {
+  const allowed = methods.map(method => method.toUpperCase());
+
+  return async (request, next) => {
+    if (!allowed.includes((request.method || 'GET').toUpperCase())) {
+      return createErrorResponse(request, 405, 'Method not allowed', {
+        code: 'METHOD_NOT_ALLOWED',
+        headers: { Allow: allowed.join(', ') },
+      });
+    }
+
+    return next();
+  };
+}
+
+/**
+ * Parse the JSON body into request.parsedBody, answering 400 for malformed JSON
+ *
+ * The body is read without consuming it, so handlers can still call request.json().
+ */
+export function jsonBody(options: JsonBodyOptions = {}): MiddlewareFunction {
+  return async (request, next) => {
+    let text: string;
+    try {
+      text = await readRequestBody(request);
+    } catch {
+      text = '';
+    }
+
+    if (text.trim() === '') {
+      if (options.required) {
+        return createErrorResponse(request, 400, 'Request body is required', {
+          code: 'VALIDATION_ERROR',
+        });
+      }
+      return next();
+    }
+
+    try {
+      request.parsedBody = JSON.parse(text);
+    } catch {
+      return createErrorResponse(request, 400, 'Request body must be valid JSON', {
+        code: 'VALIDATION_ERROR',
+      });
+    }
+
+    return next();
+  };
+}
+
+function getErrorStatus(error: any): number {
+  if (error instanceof ValidationError || error instanceof DeclinedError) {
+    return 400;
+  }
+
+  if (error instanceof TimeoutError) {
+    return 504;
+  }
+
+  // The gateway failed or rejected the server's own credentials: not the caller's fault
+  if (
+    error instanceof NetworkError ||
+    error instanceof GatewayError ||
+    error instanceof AuthenticationError
+  ) {
+    return 502;
+  }
+
+  if (error instanceof FatZebraError) {
+    return 500;
+  }
+
+  const status = error?.statusCode;
+  return typeof status === 'number' && status >= 400 && status < 600 ? status : 500;
+}
+
+/**
+ * Turn errors thrown further down the pipeline into an ErrorResponse
+ *
+ * FatZebraErrors map to 400 (validation, declines), 502/504 (gateway) or 500; other errors use
+ * their statusCode (see ServerError). Messages of unexpected 500s are not exposed to the client.
+ * Without onError, errors are written to request.logger when requestLogger() is in the pipeline.
+ */
+export function normalizeErrors(
+  onError?: (error: unknown, request: EnhancedRequest) => void
+): MiddlewareFunction {
+  return async (request, next) => {
+    try {
+      return await next();
+    } catch (error: any) {
+      if (onError) {
+        onError(error, request);
+      } else {
+        request.logger?.error('Unhandled route error', { error });
+      }
+
+      const status = getErrorStatus(error);
+      const known = error instanceof FatZebraError || typeof error?.statusCode === 'number';
+      const message = known && error.message ? error.message : 'Internal server error';
+      const details = error instanceof FatZebraError ? error.errors : error?.details;
+
+      return createErrorResponse(request, status, message, {
+        ...(known && error.code && { code: String(error.code) }),
+        ...(known && details !== undefined && { details }),
+      });
+    }
+  };
+}
+
+/**
+ * Give each request a child logger (request.logger) carrying its request ID, IP and user agent,
+ * and log one entry per completed request
+ *
+ * Place it after requestId() so entries can be correlated with the X-Request-Id header.
+ */
+export function requestLogger(logger: Logger): MiddlewareFunction {
+  return async (request, next) => {
+    const start = Date.now();
+    const userAgent = getRequestHeader(request, 'user-agent');
+
+    request.logger = logger.child({
+      ...(request.requestId && { requestId: request.requestId }),
+      ip: getClientIP(request),
+      ...(userAgent && { userAgent }),
+    });
+
+    const response = await next();
+    const status = response?.status ?? 200;
+    const details = {
+      method: request.method || 'GET',
+      url: request.url,
+      status,
+      duration: Date.now() - start,
+    };
+
+    if (status >= 500) {
+      request.logger.error('Request failed', details);
+    } else {
+      request.logger.info('Request completed', details);
+    }
+
+    return response;
+  };
+}
+
+// Bearer token from Authorization, or the X-API-Key header
+function getToken(request: EnhancedRequest): string | undefined {
+  const authorization = getRequestHeader(request, 'authorization');
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+
+  return bearer ?? getRequestHeader(request, 'x-api-key');
+}
+
+/**
+ * Require an API key or a custom check to pass, answering 401 otherwise
+ */
+export function requireAuth(options: AuthOptions): MiddlewareFunction {
+  if (!options.apiKeys?.length && !options.verify) {
+    throw new Error('requireAuth needs apiKeys or a verify function');
+  }
+
+  return async (request, next) => {
+    const token = getToken(request);
+    let principal: unknown;
+
+    if (options.verify) {
+      principal = await options.verify(request, token);
+    } else if (token !== undefined) {
+      principal = options.apiKeys!.some(key => timingSafeEqual(key, token)) || undefined;
+    }
+
+    if (!principal) {
+      return createErrorResponse(request, 401, 'Unauthorized', {
+        code: 'AUTHENTICATION_ERROR',
+        headers: { 'WWW-Authenticate': 'Bearer' },
+      });
+    }
+
+    request.auth = principal;
+    return next();
+  };
+}
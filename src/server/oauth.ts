@@ -0,0 +1,248 @@
+/**
+ * OAuth client-credentials token service
+ *
+ * Obtains access tokens from the Fat Zebra OAuth endpoint, caches them per scope and refreshes
+ * them shortly before they expire. Concurrent requests for the same scope share one token call.
+ * The client secret never leaves the server: the browser receives a separate token limited to
+ * browserScope through createAccessTokenHandler.
+ */
+
+import {
+  AuthenticationError,
+  FatZebraError,
+  GatewayError,
+  NetworkError,
+  TimeoutError,
+} from '../types';
+import type { FetchLike } from '../types';
+import { extractErrorMessage } from '../utils';
+import {
+  createResponse,
+  extractRequestData,
+  type AccessTokenHandlerOptions,
+  type OAuthAccessToken,
+  type OAuthTokenRequest,
+  type OAuthTokenResponse,
+  type OAuthTokenServiceOptions,
+  type StandaloneRequest,
+  type StandaloneResponse,
+} from './types';
+
+const DEFAULT_BROWSER_SCOPE = 'payments';
+const DEFAULT_REFRESH_MARGIN = 60;
+const DEFAULT_TIMEOUT = 30000;
+
+// Map an OAuth error response ({ error, error_description }) onto the error hierarchy
+function createTokenError(status: number, data: any): FatZebraError {
+  const errors = [data?.error_description || data?.error || `HTTP ${status}`];
+  const message = `OAuth token request failed: ${errors[0]}`;
+
+  if (status === 400 || status === 401 || status === 403) {
+    return new AuthenticationError(message, errors, data, status);
+  }
+
+  if (status === 429 || status >= 500) {
+    return new GatewayError(message, errors, data, {
+      statusCode: status,
+      ...(status === 429 && { code: 'RATE_LIMITED' as const }),
+    });
+  }
+
+  return new FatZebraError(message, errors, data, { statusCode: status });
+}
+
+export class OAuthTokenService {
+  private tokens = new Map<string, OAuthAccessToken>();
+  private pending = new Map<string, Promise<OAuthAccessToken>>();
+  private tokenUrl: string;
+
+  constructor(private readonly options: OAuthTokenServiceOptions) {
+    this.tokenUrl =
+      options.tokenUrl ??
+      `${
+        options.sandbox === false
+          ? 'https://gateway.fatzebra.com.au'
+          : 'https://gateway.sandbox.fatzebra.com.au'
+      }/oauth/token`;
+  }
+
+  /**
+   * Bearer token for server-side calls, from the cache while it is fresh
+   */
+  async getAccessToken(scope: string | undefined = this.options.scope): Promise<string> {
+    return (await this.getToken(scope)).accessToken;
+  }
+
+  /**
+   * Cached token for a scope, requesting a new one when it is missing or about to expire
+   */
+  async getToken(scope: string | undefined = this.options.scope): Promise<OAuthAccessToken> {
+    const key = scope ?? '';
+    const cached = this.tokens.get(key);
+    const refreshMargin = (this.options.refreshMargin ?? DEFAULT_REFRESH_MARGIN) * 1000;
+
+    if (cached && cached.expiresAt - refreshMargin > Date.now()) {
+      return cached;
+    }
+
+    const pending = this.pending.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.requestToken(scope)
+      .then(token => {
+        this.tokens.set(key, token);
+        return token;
+      })
+      .finally(() => this.pending.delete(key));
+
+    this.pending.set(key, request);
+    return request;
+  }
+
+  /**
+   * Token for the browser, limited to browserScope and cached like any other scope. expires_in is
+   * the lifetime left, at least refreshMargin seconds
+   */
+  async issueBrowserToken(): Promise<OAuthTokenResponse> {
+    const scope = this.options.browserScope ?? DEFAULT_BROWSER_SCOPE;
+    const token = await this.getToken(scope);
+
+    return {
+      access_token: token.accessToken,
+      token_type: 'Bearer',
+      expires_in: Math.max(Math.floor((token.expiresAt - Date.now()) / 1000), 0),
+      scope,
+    };
+  }
+
+  /**
+   * Drop cached tokens (one scope, or all), e.g. after the gateway rejects a token
+   */
+  invalidate(scope?: string): void {
+    if (scope === undefined) {
+      this.tokens.clear();
+    } else {
+      this.tokens.delete(scope);
+    }
+  }
+
+  private async requestToken(scope: string | undefined): Promise<OAuthAccessToken> {
+    const body: OAuthTokenRequest = {
+      grant_type: 'client_credentials',
+      client_id: this.options.clientId,
+      client_secret: this.options.clientSecret,
+      ...(scope && { scope }),
+    };
+    const transport: FetchLike = this.options.fetch ?? fetch;
+    let response: Response;
+    let data: any;
+
+    try {
+      response = await transport(this.tokenUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'application/json',
+        },
+        body: new URLSearchParams(body as unknown as Record<string, string>).toString(),
+        ...('timeout' in AbortSignal && {
+          signal: AbortSignal.timeout(this.options.timeout ?? DEFAULT_TIMEOUT),
+        }),
+      });
+      data = await response.json().catch(() => ({}));
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        (error.name === 'AbortError' || error.name === 'TimeoutError')
+      ) {
+        throw new TimeoutError();
+      }
+
+      const message = extractErrorMessage(error);
+      throw new NetworkError(`Network error: ${message}`, [message]);
+    }
+
+    if (!response.ok) {
+      throw createTokenError(response.status, data);
+    }
+
+    const token = data as Partial<OAuthTokenResponse>;
+
+    if (!token.access_token || typeof token.expires_in !== 'number') {
+      throw new FatZebraError('OAuth token response is missing access_token or expires_in');
+    }
+
+    const grantedScope = token.scope ?? scope;
+
+    return {
+      accessToken: token.access_token,
+      tokenType: 'Bearer',
+      expiresAt: Date.now() + token.expires_in * 1000,
+      ...(grantedScope && { scope: grantedScope }),
+    };
+  }
+}
+
+/**
+ * Create an OAuth token service
+ */
+export function createOAuthTokenService(options: OAuthTokenServiceOptions): OAuthTokenService {
+  return new OAuthTokenService(options);
+}
+
+/**
+ * Create a route handler that issues browser tokens (e.g. for useOAuthPayment)
+ *
+ * Client credentials are configured on the server; a request body carrying them is rejected.
+ * options.authorize decides which callers get a token; without it anyone who can reach the route
+ * can obtain one.
+ */
+export function createAccessTokenHandler(
+  service: OAuthTokenService | (() => OAuthTokenService | undefined),
+  options: AccessTokenHandlerOptions = {}
+): (request: StandaloneRequest) => Promise<StandaloneResponse> {
+  return async request => {
+    try {
+      const { method, body } = await extractRequestData(request);
+
+      if (method !== 'POST') {
+        return createResponse({ successful: false, errors: ['Method not allowed'] }, 405);
+      }
+
+      if (options.authorize && !(await options.authorize(request))) {
+        return createResponse({ successful: false, errors: ['Forbidden'] }, 403);
+      }
+
+      if (body?.clientSecret || body?.client_secret) {
+        return createResponse(
+          {
+            successful: false,
+            errors: [
+              'clientSecret must not be sent in the request body; configure it on the server',
+            ],
+          },
+          400
+        );
+      }
+
+      const tokenService = typeof service === 'function' ? service() : service;
+
+      if (!tokenService) {
+        return createResponse(
+          {
+            successful: false,
+            errors: ['OAuth client credentials are not configured on the server'],
+          },
+          500
+        );
+      }
+
+      return createResponse({ successful: true, ...(await tokenService.issueBrowserToken()) });
+    } catch (error) {
+      const status = error instanceof AuthenticationError ? 502 : 500;
+      return createResponse({ successful: false, errors: [extractErrorMessage(error)] }, status);
+    }
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * Rate limiting for route handlers
+ *
+ * A sliding-window log: each request records a timestamp under its key (client IP, card
+ * fingerprint or a custom key) and is rejected with 429 once `maxRequests` fall inside the last
+ * `windowMs`. Limiting by card fingerprint slows card testing spread across many IPs.
+ *
+ * The client IP is the connection address unless `trustProxy` says how many proxies append to
+ * X-Forwarded-For; a client can put any value in that header, so it is not read by default.
+ */
+
+import { sha256Hex } from '../utils/crypto';
+import { readRequestBody } from './idempotency';
+import { getRequestHeader, setResponseHeaders } from './middleware';
+import {
+  createResponse,
+  type RateLimitInfo,
+  type RateLimitOptions,
+  type RateLimitStore,
+  type RequestHandler,
+} from './types';
+
+const DEFAULT_WINDOW = 60 * 1000; // 1 minute
+const DEFAULT_MAX_REQUESTS = 30;
+
+/**
+ * In-memory rate limit store (per process; use a shared store when running multiple instances)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, number[]>();
+
+  async hit(
+    key: string,
+    now: number,
+    windowMs: number,
+    limit: number
+  ): Promise<{ recorded: boolean; hits: number[] }> {
+    const hits = (this.hits.get(key) ?? []).filter(timestamp => timestamp > now - windowMs);
+    const recorded = hits.length < limit;
+
+    if (recorded) {
+      hits.push(now);
+    }
+
+    if (hits.length > 0) {
+      this.hits.set(key, hits);
+    } else {
+      this.hits.delete(key);
+    }
+
+    return { recorded, hits: [...hits] };
+  }
+
+  async remove(key: string, timestamp: number): Promise<void> {
+    const hits = this.hits.get(key);
+    const index = hits?.indexOf(timestamp) ?? -1;
+
+    if (hits && index !== -1) {
+      hits.splice(index, 1);
+    }
+  }
+}
+
+const defaultStore = new MemoryRateLimitStore();
+
+// Card number or token from a payment body, wherever the route expects it
+function findCard(body: any): string | undefined {
+  const source = body?.purchaseData ?? body?.authData ?? body?.tokenData ?? body;
+  const card = source?.card_number ?? source?.cardNumber ?? source?.card_token ?? source?.cardToken;
+
+  return typeof card === 'string' && card !== '' ? card.replace(/[\s-]/g, '') : undefined;
+}
+
+/**
+ * SHA-256 fingerprint of the card in a request body, so keys never hold card numbers
+ */
+export async function getCardFingerprint(request: any): Promise<string | undefined> {
+  try {
+    const card = findCard(JSON.parse((await readRequestBody(request)) || 'null'));
+    return card && (await sha256Hex(card));
+  } catch {
+    return undefined;
+  }
+}
+
+// Connection address, or the address the outermost trusted proxy appended to X-Forwarded-For.
+// Entries left of that one came from the client
+function getClientAddress(request: any, trustProxy: boolean | number = false): string | undefined {
+  const hops = trustProxy === true ? 1 : Number(trustProxy);
+
+  if (hops > 0) {
+    const forwarded = (getRequestHeader(request, 'x-forwarded-for') ?? '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean);
+
+    if (forwarded.length > 0) {
+      return forwarded[Math.max(forwarded.length - hops, 0)];
+    }
+  }
+
+  return request.remoteAddress || undefined;
+}
+
+async function resolveKey(request: any, options: RateLimitOptions): Promise<string | undefined> {
+  const key = options.key ?? 'ip';
+
+  if (typeof key === 'function') {
+    return key(request);
+  }
+
+  if (key === 'card') {
+    // Requests without a card (e.g. refunds by transaction ID) fall back to the client IP
+    const fingerprint = await getCardFingerprint(request);
+    if (fingerprint) {
+      return `card:${fingerprint}`;
+    }
+  }
+
+  // Requests without a known address are not limited rather than sharing one bucket
+  const address = getClientAddress(request, options.trustProxy);
+  return address && `ip:${address}`;
+}
+
+function getRateLimitInfo(
+  hits: number[],
+  limit: number,
+  windowMs: number,
+  now: number
+): RateLimitInfo {
+  const reset = new Date((hits[0] ?? now) + windowMs);
+  const remaining = Math.max(limit - hits.length, 0);
+
+  return {
+    limit,
+    remaining,
+    reset,
+    ...(remaining === 0 && {
+      retryAfter: Math.max(Math.ceil((reset.getTime() - now) / 1000), 1),
+    }),
+  };
+}
+
+export function getRateLimitHeaders(info: RateLimitInfo): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(info.limit),
+    'X-RateLimit-Remaining': String(info.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(info.reset.getTime() / 1000)),
+  };
+}
+
+/**
+ * Wrap a route handler with rate limiting
+ *
+ * - Over the limit: 429 with Retry-After, without calling the handler
+ * - Every response carries X-RateLimit-Limit, X-RateLimit-Remaining and X-RateLimit-Reset
+ * - skipSuccessful / skipFailed stop responses below / from 400 (and thrown errors) counting
+ */
+export function withRateLimit(
+  handler: RequestHandler,
+  options: RateLimitOptions = {}
+): RequestHandler {
+  const store = options.store ?? defaultStore;
+  const windowMs = options.windowMs ?? DEFAULT_WINDOW;
+  const limit = options.maxRequests ?? DEFAULT_MAX_REQUESTS;
+
+  return async request => {
+    const key = await resolveKey(request, options);
+
+    if (key === undefined) {
+      return handler(request);
+    }
+
+    const now = Date.now();
+    const { recorded, hits } = await store.hit(key, now, windowMs, limit);
+    const info = getRateLimitInfo(hits, limit, windowMs, now);
+
+    if (!recorded) {
+      return createResponse(
+        { successful: false, errors: ['Too many requests, please try again later'] },
+        429,
+        { ...getRateLimitHeaders(info), 'Retry-After': String(info.retryAfter ?? 1) }
+      );
+    }
+
+    let response;
+    try {
+      response = await handler(request);
+    } catch (error) {
+      if (options.skipFailed) {
+        await store.remove(key, now);
+      }
+      throw error;
+    }
+
+    const status = response?.status ?? 200;
+
+    if ((options.skipSuccessful && status < 400) || (options.skipFailed && status >= 400)) {
+      await store.remove(key, now);
+      info.remaining = Math.min(info.remaining + 1, limit);
+    }
+
+    setResponseHeaders(response, getRateLimitHeaders(info));
+    return response;
+  };
+}
@@ -0,0 +1,323 @@
+/**
+ * Single catch-all route for every Fat Zebra handler
+ *
+ * createFatZebraRouter maps REST paths onto the standalone handlers, so one
+ * app/api/fatzebra/[...path]/route.ts (or one mount point in any HTTP server) replaces a file per
+ * handler. Path parameters and query strings are merged into the body each handler expects;
+ * routes without parameters receive the original request untouched (webhook signatures need the
+ * raw body).
+ */
+
+import { compose, createErrorResponse } from './middleware';
+import { readRequestBody } from './idempotency';
+import { createStandaloneHandlers, type StandaloneHandlers } from './routes-standalone';
+import type {
+  EnhancedRequest,
+  EnhancedResponse,
+  FatZebraRouteName,
+  FatZebraRouteOptions,
+  FatZebraRouterOptions,
+  RequestHandler,
+} from './types';
+
+const DEFAULT_BASE_PATH = '/api/fatzebra';
+
+interface RouteDefinition {
+  name: FatZebraRouteName;
+  method: string;
+  path: string;
+  handler: keyof StandaloneHandlers;
+  // Body for handlers that take identifiers from the URL
+  toBody?: (params: Record<string, string>, query: URLSearchParams, body: any) => any;
+}
+
+const ROUTES: RouteDefinition[] = [
+  { name: 'healthCheck', method: 'GET', path: '/health', handler: 'handleHealthCheck' },
+  { name: 'liveness', method: 'GET', path: '/health/live', handler: 'handleLiveness' },
+  { name: 'readiness', method: 'GET', path: '/health/ready', handler: 'handleReadiness' },
+  { name: 'purchase', method: 'POST', path: '/purchases', handler: 'handlePurchase' },
+  {
+    name: 'authorization',
+    method: 'POST',
+    path: '/authorizations',
+    handler: 'handleAuthorization',
+  },
+  {
+    name: 'capture',
+    method: 'POST',
+    path: '/purchases/:id/capture',
+    handler: 'handleCapture',
+    toBody: ({ id }, _query, body) => ({ ...body, transactionId: id }),
+  },
+  {
+    name: 'void',
+    method: 'POST',
+    path: '/purchases/:id/void',
+    handler: 'handleVoid',
+    toBody: ({ id }, _query, body) => ({ ...body, transactionId: id }),
+  },
+  { name: 'refund', method: 'POST', path: '/refunds', handler: 'handleRefund' },
+  {
+    name: 'transactionStatus',
+    method: 'GET',
+    path: '/transactions/:id',
+    handler: 'handleTransactionStatus',
+    toBody: ({ id }) => ({ transactionId: id }),
+  },
+  { name: 'tokenization', method: 'POST', path: '/cards', handler: 'handleTokenization' },
+  {
+    name: 'listCards',
+    method: 'GET',
+    path: '/cards',
+    handler: 'handleListCards',
+    toBody: (_params, query) => ({
+      options: {
+        ...(query.has('page') && { page: Number(query.get('page')) }),
+        ...(query.has('per_page') && { per_page: Number(query.get('per_page')) }),
+      },
+    }),
+  },
+  {
+    name: 'getCard',
+    method: 'GET',
+    path: '/cards/:token',
+    handler: 'handleGetCard',
+    toBody: ({ token }) => ({ cardToken: token }),
+  },
+  {
+    name: 'updateCardExpiry',
+    method: 'PUT',
+    path: '/cards/:token',
+    handler: 'handleUpdateCardExpiry',
+    toBody: ({ token }, _query, body) => ({ ...body, cardToken: token }),
+  },
+  {
+    name: 'deleteCard',
+    method: 'DELETE',
+    path: '/cards/:token',
+    handler: 'handleDeleteCard',
+    toBody: ({ token }, _query, body) => ({ ...body, cardToken: token }),
+  },
+  { name: 'verifyWebhook', method: 'POST', path: '/webhooks', handler: 'handleVerifyWebhook' },
+  { name: 'generateHash', method: 'POST', path: '/hash', handler: 'handleGenerateHash' },
+];
+
+// Routes that act on existing transactions or the card vault with the server's credentials. They
+// are off unless enabled in options.routes, and enabling one requires authorize
+const PRIVILEGED_ROUTES: ReadonlySet<FatZebraRouteName> = new Set<FatZebraRouteName>([
+  'capture',
+  'void',
+  'refund',
+  'transactionStatus',
+  'listCards',
+  'getCard',
+  'updateCardExpiry',
+  'deleteCard',
+]);
+
+// Request properties set by middleware that handlers read
+const ENHANCED_KEYS = ['requestId', 'logger', 'auth', 'ip', 'userAgent', 'timestamp'] as const;
+
+function normalizePath(path: string): string {
+  const trimmed = path.replace(/\/+$/, '');
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
+
+function matchPath(pattern: string, path: string): Record<string, string> | undefined {
+  const expected = pattern.split('/');
+  const actual = path.split('/');
+
+  if (expected.length !== actual.length) {
+    return undefined;
+  }
+
+  const params: Record<string, string> = {};
+  for (let index = 0; index < expected.length; index++) {
+    const segment = expected[index]!;
+    const value = actual[index]!;
+
+    if (segment.startsWith(':')) {
+      if (!value) {
+        return undefined;
+      }
+      try {
+        params[segment.slice(1)] = decodeURIComponent(value);
+      } catch {
+        return undefined;
+      }
+    } else if (segment !== value) {
+      return undefined;
+    }
+  }
+
+  return params;
+}
+
+function getRouteOptions(
+  options: FatZebraRouterOptions,
+  name: FatZebraRouteName
+): FatZebraRouteOptions | undefined {
+  const setting = options.routes?.[name];
+  if (setting === false || (setting === undefined && PRIVILEGED_ROUTES.has(name))) {
+    return undefined;
+  }
+
+  const routeOptions = typeof setting === 'object' ? setting : {};
+  return routeOptions.enabled === false ? undefined : routeOptions;
+}
+
+function copyHeaders(request: any): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  if (typeof request.headers?.entries === 'function') {
+    for (const [name, value] of request.headers.entries()) {
+      headers[name.toLowerCase()] = value;
+    }
+  } else {
+    for (const [name, value] of Object.entries(request.headers ?? {})) {
+      if (value !== undefined) {
+        headers[name.toLowerCase()] = String(value);
+      }
+    }
+  }
+
+  return headers;
+}
+
+// The POST the standalone handlers expect, carrying identifiers from the URL in the body
+async function createHandlerRequest(
+  request: EnhancedRequest,
+  route: RouteDefinition,
+  params: Record<string, string>,
+  query: URLSearchParams
+): Promise<{ request: EnhancedRequest } | { response: EnhancedResponse }> {
+  let body: any = {};
+
+  if (route.method !== 'GET') {
+    const text = await readRequestBody(request).catch(() => '');
+    try {
+      body = text.trim() ? JSON.parse(text) : {};
+    } catch {
+      return {
+        response: createErrorResponse(request, 400, 'Request body must be valid JSON', {
+          code: 'VALIDATION_ERROR',
+        }),
+      };
+    }
+  }
+
+  const data = route.toBody!(params, query, body);
+  const handlerRequest: EnhancedRequest = {
+    method: 'POST',
+    ...(request.url && { url: request.url }),
+    headers: { ...copyHeaders(request), 'content-type': 'application/json' },
+    body: JSON.stringify(data),
+    json: () => Promise.resolve(data),
+  };
+
+  for (const key of ENHANCED_KEYS) {
+    if (request[key] !== undefined) {
+      (handlerRequest as any)[key] = request[key];
+    }
+  }
+
+  return { request: handlerRequest };
+}
+
+export type FatZebraRouter = RequestHandler & {
+  GET: RequestHandler;
+  POST: RequestHandler;
+  PUT: RequestHandler;
+  PATCH: RequestHandler;
+  DELETE: RequestHandler;
+  OPTIONS: RequestHandler;
+};
+
+/**
+ * Create one handler that routes every Fat Zebra request
+ *
+ * Routes, relative to basePath: GET /health, /health/live and /health/ready; POST /purchases,
+ * /authorizations, /purchases/:id/capture, /purchases/:id/void and /refunds;
+ * GET /transactions/:id; POST and GET /cards; GET, PUT and DELETE /cards/:token;
+ * POST /webhooks and POST /hash. Unknown paths answer 404, known paths with another method 405.
+ * Capture, void, refund, transaction status and the card vault routes other than tokenization are
+ * off until enabled in options.routes, and enabling any of them throws without options.authorize.
+ */
+export function createFatZebraRouter(options: FatZebraRouterOptions = {}): FatZebraRouter {
+  if (!options.authorize) {
+    const exposed = ROUTES.filter(
+      ({ name }) => PRIVILEGED_ROUTES.has(name) && getRouteOptions(options, name)
+    ).map(({ name }) => name);
+
+    if (exposed.length > 0) {
+      throw new Error(`createFatZebraRouter needs authorize to enable ${exposed.join(', ')}`);
+    }
+  }
+
+  const handlers = options.handlers ?? createStandaloneHandlers(options);
+  const basePath = normalizePath(options.basePath ?? DEFAULT_BASE_PATH);
+
+  const dispatch = async (request: EnhancedRequest): Promise<EnhancedResponse> => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const pathname = normalizePath(url.pathname);
+
+    if (pathname !== basePath && !pathname.startsWith(`${basePath}/`)) {
+      return createErrorResponse(request, 404, 'Not found', { code: 'NOT_FOUND' });
+    }
+
+    const path = normalizePath(pathname.slice(basePath.length));
+    const method = (request.method || 'GET').toUpperCase();
+    const matches = ROUTES.flatMap(route => {
+      const params = matchPath(route.path, path);
+      const routeOptions = params && getRouteOptions(options, route.name);
+      return params && routeOptions ? [{ route, params, routeOptions }] : [];
+    });
+    const match = matches.find(({ route }) => route.method === method);
+
+    if (!match) {
+      if (matches.length === 0) {
+        return createErrorResponse(request, 404, 'Not found', { code: 'NOT_FOUND' });
+      }
+
+      return createErrorResponse(request, 405, 'Method not allowed', {
+        code: 'METHOD_NOT_ALLOWED',
+        headers: { Allow: matches.map(({ route }) => route.method).join(', ') },
+      });
+    }
+
+    const { route, params, routeOptions } = match;
+
+    if (options.authorize && !(await options.authorize(request, route.name))) {
+      return createErrorResponse(request, 403, 'Forbidden', { code: 'FORBIDDEN' });
+    }
+
+    const handler = handlers[route.handler] as RequestHandler;
+
+    return compose(...(routeOptions.middleware ?? []))(async routeRequest => {
+      if (!route.toBody) {
+        return handler(routeRequest);
+      }
+
+      const prepared = await createHandlerRequest(
+        routeRequest as EnhancedRequest,
+        route,
+        params,
+        url.searchParams
+      );
+      return 'response' in prepared ? prepared.response : handler(prepared.request);
+    })(request) as Promise<EnhancedResponse>;
+  };
+
+  const router = compose(...(options.middleware ?? []))(request =>
+    dispatch(request as EnhancedRequest)
+  );
+
+  return Object.assign(router, {
+    GET: router,
+    POST: router,
+    PUT: router,
+    PATCH: router,
+    DELETE: router,
+    OPTIONS: router,
+  });
+}
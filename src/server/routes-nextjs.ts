@@ -2,39 +2,28 @@
  * Next.js specific route handlers
  * These handlers use Next.js specific features like NextRequest and NextResponse
  * This file should only be imported when Next.js is available
+ * Request body amounts are in minor units (e.g. 1050 for $10.50), the same as the standalone
+ * handlers; major-unit amounts are rejected with a 400
  */
 
-// Conditional imports - only import when Next.js is available
-let NextResponse: any;
-
-try {
-  if (typeof require !== 'undefined') {
-    const nextServer = require('next/server');
-    NextResponse = nextServer.NextResponse;
-  } else {
-    throw new Error('require not available');
-  }
-} catch (error) {
-  // Next.js not available - create placeholder types
-  NextResponse = {
-    json: (data: any, init?: any) => ({
-      status: init?.status || 200,
-      json: () => Promise.resolve(data),
-      headers: new Map(),
-      body: JSON.stringify(data),
-    }),
-  };
-}
-
+// Static import: dynamic require() is not available on the Edge runtime
+import { NextResponse } from 'next/server';
 import { createFatZebraClient, handleFatZebraResponse, FatZebraError } from '../lib/client';
-import { generateVerificationHash, extractErrorMessage } from '../utils';
+import {
+  generateVerificationHashAsync,
+  verifyWebhookSignature,
+  extractErrorMessage,
+  defaultLogger,
+} from '../utils';
 import type {
+  Logger,
   PurchaseRequest,
   AuthorizationRequest,
   RefundRequest,
   TokenizationRequest,
   WebhookEvent,
 } from '../types';
+import { checkHealth, getHealthCheckType } from './health';
 
 // Runtime configuration for Next.js Edge Runtime
 export const runtime = 'edge';
@@ -44,41 +33,13 @@ export const dynamic = 'force-dynamic';
  * Helper function to create Next.js JSON response
  */
 function createNextResponse(data: any, status: number = 200) {
-  if (NextResponse && NextResponse.json) {
-    return NextResponse.json(data, { status });
-  }
-  // Fallback for non-Next.js environments
-  return {
-    status,
-    json: () => Promise.resolve(data),
-    headers: new Map(),
-    body: JSON.stringify(data),
-  };
-}
-
-/**
- * Utility function to verify webhook signature
- */
-function verifyWebhookSignature(payload: string, signature: string, secret: string): boolean {
-  try {
-    const crypto = require('crypto');
-    const hmac = crypto.createHmac('sha256', secret);
-    hmac.update(payload);
-    const expectedSignature = hmac.digest('hex');
-
-    // Compare signatures using a constant-time comparison
-    return crypto.timingSafeEqual(
-      Buffer.from(signature, 'hex'),
-      Buffer.from(expectedSignature, 'hex')
-    );
-  } catch (error) {
-    console.error('Webhook signature verification error:', error);
-    return false;
-  }
+  return NextResponse.json(data, { status });
 }
 
 /**
  * Health check endpoint for Next.js
+ *
+ * ?check=readiness also probes the gateway with FAT_ZEBRA_USERNAME / FAT_ZEBRA_TOKEN.
  */
 export async function handleHealthCheck(request: any): Promise<any> {
   try {
@@ -86,13 +47,21 @@ export async function handleHealthCheck(request: any): Promise<any> {
       return createNextResponse({ error: 'Method not allowed' }, 405);
     }
 
-    return createNextResponse({
-      status: 'ok',
-      timestamp: new Date().toISOString(),
-      version: process.env.npm_package_version || '0.4.0',
+    const username = process.env.FAT_ZEBRA_USERNAME;
+    const token = process.env.FAT_ZEBRA_TOKEN;
+    const result = await checkHealth({
+      check: getHealthCheckType(request),
       mode: 'nextjs',
-      edge: runtime === 'edge',
+      ...(username &&
+        token && {
+          config: { username, token, sandbox: process.env.NODE_ENV !== 'production' },
+        }),
     });
+
+    return NextResponse.json(
+      { ...result, edge: runtime === 'edge' },
+      { status: result.status === 'ok' ? 200 : 503, headers: { 'Cache-Control': 'no-store' } }
+    );
   } catch (error) {
     return createNextResponse(
       {
@@ -104,6 +73,11 @@ export async function handleHealthCheck(request: any): Promise<any> {
   }
 }
 
+// Request-scoped logger set by requestLogger() or getRouteHandlers(), else the default logger
+function getLogger(request: any): Logger {
+  return request?.logger ?? defaultLogger;
+}
+
 /**
  * Process a purchase transaction
  */
@@ -132,7 +106,7 @@ export async function handlePurchase(request: any): Promise<any> {
     });
 
     const purchaseData: PurchaseRequest = {
-      amount: Math.round(body.amount * 100),
+      amount: body.amount,
       currency: body.currency || 'AUD',
       reference: body.reference || `TXN-${Date.now()}`,
       card_holder: body.card_holder,
@@ -147,7 +121,7 @@ export async function handlePurchase(request: any): Promise<any> {
     const response = await client.purchase(purchaseData);
     return createNextResponse(handleFatZebraResponse(response));
   } catch (error) {
-    console.error('Purchase error:', error);
+    getLogger(request).error('Purchase error', { error });
     const errorMessage = extractErrorMessage(error);
     const statusCode = error instanceof FatZebraError ? 400 : 500;
 
@@ -189,7 +163,7 @@ export async function handleAuthorization(request: any): Promise<any> {
     });
 
     const authData: AuthorizationRequest = {
-      amount: Math.round(body.amount * 100),
+      amount: body.amount,
       currency: body.currency || 'AUD',
       reference: body.reference || `AUTH-${Date.now()}`,
       card_holder: body.card_holder,
@@ -204,7 +178,7 @@ export async function handleAuthorization(request: any): Promise<any> {
     const response = await client.authorize(authData);
     return createNextResponse(handleFatZebraResponse(response));
   } catch (error) {
-    console.error('Authorization error:', error);
+    getLogger(request).error('Authorization error', { error });
     const errorMessage = extractErrorMessage(error);
     const statusCode = error instanceof FatZebraError ? 400 : 500;
 
@@ -248,7 +222,7 @@ export async function handleCapture(request: any): Promise<any> {
     const response = await client.capture(body.transaction_id, body.amount);
     return createNextResponse(handleFatZebraResponse(response));
   } catch (error) {
-    console.error('Capture error:', error);
+    getLogger(request).error('Capture error', { error });
     const errorMessage = extractErrorMessage(error);
     const statusCode = error instanceof FatZebraError ? 400 : 500;
 
@@ -292,7 +266,7 @@ export async function handleRefund(request: any): Promise<any> {
     const response = await client.refund(body);
     return createNextResponse(handleFatZebraResponse(response));
   } catch (error) {
-    console.error('Refund error:', error);
+    getLogger(request).error('Refund error', { error });
     const errorMessage = extractErrorMessage(error);
     const statusCode = error instanceof FatZebraError ? 400 : 500;
 
@@ -343,7 +317,7 @@ export async function handleTokenization(request: any): Promise<any> {
     const response = await client.tokenize(tokenData);
     return createNextResponse(handleFatZebraResponse(response));
   } catch (error) {
-    console.error('Tokenization error:', error);
+    getLogger(request).error('Tokenization error', { error });
     const errorMessage = extractErrorMessage(error);
     const statusCode = error instanceof FatZebraError ? 400 : 500;
 
@@ -387,7 +361,7 @@ export async function handleVoid(request: any): Promise<any> {
     const response = await client.void(body.transaction_id);
     return createNextResponse(handleFatZebraResponse(response));
   } catch (error) {
-    console.error('Void error:', error);
+    getLogger(request).error('Void error', { error });
     const errorMessage = extractErrorMessage(error);
     const statusCode = error instanceof FatZebraError ? 400 : 500;
 
@@ -434,7 +408,7 @@ export async function handleTransactionStatus(request: any): Promise<any> {
     const response = await client.getTransaction(transactionId);
     return createNextResponse(handleFatZebraResponse(response));
   } catch (error) {
-    console.error('Transaction status error:', error);
+    getLogger(request).error('Transaction status error', { error });
     const errorMessage = extractErrorMessage(error);
     const statusCode = error instanceof FatZebraError ? 400 : 500;
 
@@ -473,7 +447,7 @@ export async function handleVerifyWebhook(request: any): Promise<any> {
       );
     }
 
-    const isValid = verifyWebhookSignature(body, signature, secret);
+    const isValid = await verifyWebhookSignature(body, signature, secret);
     if (!isValid) {
       return createNextResponse({ successful: false, errors: ['Invalid webhook signature'] }, 401);
     }
@@ -485,7 +459,7 @@ export async function handleVerifyWebhook(request: any): Promise<any> {
       event: webhookEvent,
     });
   } catch (error) {
-    console.error('Webhook verification error:', error);
+    getLogger(request).error('Webhook verification error', { error });
     const errorMessage = extractErrorMessage(error);
     return createNextResponse({ successful: false, errors: [errorMessage] }, 500);
   }
@@ -507,7 +481,7 @@ export async function handleGenerateHash(request: any): Promise<any> {
     }
 
     const secret = process.env.FAT_ZEBRA_SHARED_SECRET || 'default-secret';
-    const hash = generateVerificationHash(body, secret);
+    const hash = await generateVerificationHashAsync(body, secret);
 
     return createNextResponse({
       successful: true,
@@ -1,569 +1,870 @@
 /**
  * Standalone route handlers that work without Next.js
  * These handlers can be used with Express, Koa, or any HTTP server
+ * Amounts are passed straight to the client and must be in minor units (e.g. 1050 for $10.50)
  */
 
 import { createFatZebraClient, FatZebraError } from '../lib/client';
-import { generateVerificationHash, extractErrorMessage } from '../utils';
+import { generateVerificationHashAsync } from '../utils';
+import { validateExpiryDate } from '../utils/validation';
 import type {
+  FatZebraConfig,
+  FatZebraResponse,
+  Logger,
   PurchaseRequest,
   AuthorizationRequest,
   RefundRequest,
   TokenizationRequest,
+  ListCardsOptions,
 } from '../types';
 import {
   createResponse,
-  extractRequestData,
+  extractRawRequestData,
+  type EnhancedRequest,
+  type EnhancedResponse,
+  type HealthCheckType,
+  type MiddlewareFunction,
+  type RequestHandler,
   type StandaloneRequest,
   type StandaloneResponse,
+  type StandaloneServerConfig,
+  type WebhookEventStore,
 } from './types';
+import { MemoryWebhookEventStore, parseWebhookEvent, verifyWebhookRequest } from './webhooks';
+import { getIdempotencyOptions, withIdempotency } from './idempotency';
+import { cardCacheKey, ResponseCache, transactionCacheKey } from './cache';
+import { respondToHealthCheck } from './health';
+import { allowMethods, compose, jsonBody, normalizeErrors } from './middleware';
 
 // Runtime configuration for serverless functions
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-/**
- * Health check endpoint
- */
-export async function handleHealthCheck(request: StandaloneRequest): Promise<StandaloneResponse> {
-  try {
-    const { method } = await extractRequestData(request);
+// Where handlers take gateway credentials and the shared secret from
+interface CredentialSettings {
+  allowBodyConfig: boolean;
+  getConfig: () => FatZebraConfig | undefined;
+  getSharedSecret: () => string | undefined;
+  // Webhook secrets are never taken from the request body
+  getWebhookSecrets: () => string[];
+  webhookEventStore: WebhookEventStore;
+  logger?: Logger;
+  cache?: ResponseCache;
+  health?: StandaloneServerConfig['health'];
+}
 
-    if (method !== 'GET') {
-      return createResponse({ error: 'Method not allowed' }, 405);
-    }
+const WEBHOOK_EVENT_TTL = 24 * 60 * 60 * 1000; // 24 hours
 
-    return createResponse({
-      status: 'ok',
-      timestamp: new Date().toISOString(),
-      version: process.env.npm_package_version || '0.5.9',
-      mode: 'standalone',
-    });
-  } catch (error) {
-    return createResponse(
-      {
-        successful: false,
-        errors: [extractErrorMessage(error)],
-      },
-      500
-    );
+// The exported handlers read credentials from the request body
+const BODY_CREDENTIALS: CredentialSettings = {
+  allowBodyConfig: true,
+  getConfig: () => undefined,
+  getSharedSecret: () => undefined,
+  getWebhookSecrets: () => getEnvWebhookSecrets(),
+  webhookEventStore: new MemoryWebhookEventStore(),
+};
+
+function getEnvWebhookSecrets(): string[] {
+  const secret = process.env.FAT_ZEBRA_SHARED_SECRET;
+  return secret ? [secret] : [];
+}
+
+function getEnvGatewayConfig(): FatZebraConfig | undefined {
+  const username = process.env.FAT_ZEBRA_USERNAME;
+  const token = process.env.FAT_ZEBRA_TOKEN;
+
+  if (!username || !token) {
+    return undefined;
   }
+
+  return { username, token, sandbox: process.env.NODE_ENV !== 'production' };
 }
 
-/**
- * Process a purchase transaction
- */
-export async function handlePurchase(request: StandaloneRequest): Promise<StandaloneResponse> {
-  try {
-    const { method, body } = await extractRequestData(request);
+function rejectBodyCredentials(field: string): StandaloneResponse {
+  return createResponse(
+    {
+      successful: false,
+      errors: [`${field} must not be sent in the request body; configure it on the server`],
+    },
+    400
+  );
+}
 
-    if (method !== 'POST') {
-      return createResponse({ error: 'Method not allowed' }, 405);
-    }
+function missingCredentials(field: string, credentials: CredentialSettings): StandaloneResponse {
+  if (credentials.allowBodyConfig) {
+    return createResponse({ successful: false, errors: [`${field} is required`] }, 400);
+  }
 
-    if (!body) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['Request body is required'],
-        },
-        400
-      );
-    }
+  return createResponse(
+    { successful: false, errors: [`${field} is not configured on the server`] },
+    500
+  );
+}
 
-    const { purchaseData, config } = body;
+function resolveGatewayConfig(
+  body: any,
+  credentials: CredentialSettings
+): { config: FatZebraConfig } | { response: StandaloneResponse } {
+  if (body.config) {
+    return credentials.allowBodyConfig
+      ? { config: body.config }
+      : { response: rejectBodyCredentials('config') };
+  }
 
-    if (!purchaseData || !config) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['purchaseData and config are required'],
-        },
-        400
-      );
-    }
+  const config = credentials.getConfig();
+  return config ? { config } : { response: missingCredentials('config', credentials) };
+}
+
+function resolveSharedSecret(
+  body: any,
+  credentials: CredentialSettings
+): { sharedSecret: string } | { response: StandaloneResponse } {
+  if (body.sharedSecret) {
+    return credentials.allowBodyConfig
+      ? { sharedSecret: body.sharedSecret }
+      : { response: rejectBodyCredentials('sharedSecret') };
+  }
+
+  const sharedSecret = credentials.getSharedSecret();
+  return sharedSecret
+    ? { sharedSecret }
+    : { response: missingCredentials('sharedSecret', credentials) };
+}
+
+// Request-scoped logger from requestLogger(), else the one configured for the handlers
+function getLogger(
+  request: StandaloneRequest,
+  credentials: CredentialSettings
+): Logger | undefined {
+  return (request as EnhancedRequest).logger ?? credentials.logger;
+}
+
+function createClient(
+  request: StandaloneRequest,
+  credentials: CredentialSettings,
+  config: FatZebraConfig
+) {
+  const logger = getLogger(request, credentials);
+  return createFatZebraClient({ ...config, ...(logger && { logger }) });
+}
 
-    const client = createFatZebraClient(config);
-    const result = await client.purchase(purchaseData as PurchaseRequest);
+// Serve a gateway read from the cache when one is configured
+async function readThrough<T extends FatZebraResponse>(
+  credentials: CredentialSettings,
+  key: string,
+  load: () => Promise<T>
+): Promise<{ result: T; cached: boolean }> {
+  return credentials.cache
+    ? credentials.cache.fetch(key, load)
+    : { result: await load(), cached: false };
+}
 
+// Report cache hits through EnhancedResponse.cached and an X-Cache header
+function createReadResponse(
+  result: FatZebraResponse,
+  cached: boolean,
+  credentials: CredentialSettings
+): StandaloneResponse {
+  if (!credentials.cache?.enabled) {
     return createResponse(result);
-  } catch (error) {
-    if (error instanceof FatZebraError) {
+  }
+
+  const response: EnhancedResponse = createResponse(result, 200, {
+    'X-Cache': cached ? 'HIT' : 'MISS',
+  });
+  response.cached = cached;
+  return response;
+}
+
+// Runs after the method guard and JSON parsing; body is the parsed request body
+type HandlerProcess = (
+  body: any,
+  request: EnhancedRequest,
+  credentials: CredentialSettings
+) => Promise<StandaloneResponse>;
+
+interface HandlerOptions {
+  method?: string; // default POST
+  json?: boolean; // require a JSON body (default true)
+}
+
+// FatZebraErrors (declines, gateway validation, network failures) keep the FatZebraResponse shape
+// the client hooks read; anything else is left to normalizeErrors()
+function gatewayErrors(operation: string, credentials: CredentialSettings): MiddlewareFunction {
+  return async (request, next) => {
+    try {
+      return await next();
+    } catch (error) {
+      if (!(error instanceof FatZebraError)) {
+        throw error;
+      }
+
+      getLogger(request, credentials)?.warn(`${operation} failed`, { error });
       return createResponse(
         {
           successful: false,
-          errors: error.errors,
+          errors: error.errors.length > 0 ? error.errors : [error.message],
           response: error.response,
         },
         400
       );
     }
+  };
+}
+
+// Method guard, JSON body parsing and error mapping shared by every handler
+function createHandler(
+  operation: string,
+  run: HandlerProcess,
+  credentials: CredentialSettings,
+  options: HandlerOptions = {}
+): StandaloneHandler {
+  return compose(
+    allowMethods(options.method ?? 'POST'),
+    ...(options.json === false ? [] : [jsonBody({ required: true })]),
+    normalizeErrors((error, request) =>
+      getLogger(request, credentials)?.error(`${operation} error`, { error })
+    ),
+    gatewayErrors(operation, credentials)
+  )(request => {
+    const enhanced = request as EnhancedRequest;
+    return run(enhanced.parsedBody ?? {}, enhanced, credentials);
+  }) as StandaloneHandler;
+}
 
+/**
+ * Health check endpoint
+ *
+ * A liveness check unless `check` is given or the URL asks for ?check=readiness, which also
+ * checks the configuration and probes the gateway (503 when either fails).
+ */
+function processHealthCheck(check?: HealthCheckType): HandlerProcess {
+  return async (_body, request, credentials) => {
+    const logger = getLogger(request, credentials);
+    return respondToHealthCheck(request, {
+      ...(check && { check }),
+      config: credentials.getConfig() ?? getEnvGatewayConfig(),
+      ...credentials.health,
+      ...(logger && { logger }),
+    });
+  };
+}
+
+function createHealthCheckHandler(
+  credentials: CredentialSettings,
+  check?: HealthCheckType
+): StandaloneHandler {
+  return createHandler('Health check', processHealthCheck(check), credentials, {
+    method: 'GET',
+    json: false,
+  });
+}
+
+/**
+ * Health check endpoint (gateway credentials from the environment)
+ */
+export const handleHealthCheck = createHealthCheckHandler(BODY_CREDENTIALS);
+
+/**
+ * Process a purchase transaction
+ */
+async function processPurchase(
+  body: any,
+  request: EnhancedRequest,
+  credentials: CredentialSettings
+): Promise<StandaloneResponse> {
+  const { purchaseData } = body;
+  const gateway = resolveGatewayConfig(body, credentials);
+
+  if ('response' in gateway) {
+    return gateway.response;
+  }
+
+  if (!purchaseData) {
     return createResponse(
       {
         successful: false,
-        errors: [extractErrorMessage(error)],
+        errors: ['purchaseData is required'],
       },
-      500
+      400
     );
   }
+
+  const client = createClient(request, credentials, gateway.config);
+  const result = await client.purchase(
+    purchaseData as PurchaseRequest,
+    getIdempotencyOptions(request)
+  );
+
+  return createResponse(result);
 }
 
 /**
  * Process an authorization transaction
  */
-export async function handleAuthorization(request: StandaloneRequest): Promise<StandaloneResponse> {
-  try {
-    const { method, body } = await extractRequestData(request);
+async function processAuthorization(
+  body: any,
+  request: EnhancedRequest,
+  credentials: CredentialSettings
+): Promise<StandaloneResponse> {
+  const { authData } = body;
+  const gateway = resolveGatewayConfig(body, credentials);
 
-    if (method !== 'POST') {
-      return createResponse({ error: 'Method not allowed' }, 405);
-    }
+  if ('response' in gateway) {
+    return gateway.response;
+  }
 
-    if (!body) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['Request body is required'],
-        },
-        400
-      );
-    }
+  if (!authData) {
+    return createResponse(
+      {
+        successful: false,
+        errors: ['authData is required'],
+      },
+      400
+    );
+  }
 
-    const { authData, config } = body;
+  const client = createClient(request, credentials, gateway.config);
+  const result = await client.authorize(
+    authData as AuthorizationRequest,
+    getIdempotencyOptions(request)
+  );
 
-    if (!authData || !config) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['authData and config are required'],
-        },
-        400
-      );
-    }
+  return createResponse(result);
+}
 
-    const client = createFatZebraClient(config);
-    const result = await client.authorize(authData as AuthorizationRequest);
+/**
+ * Capture a previously authorized transaction
+ */
+async function processCapture(
+  body: any,
+  request: EnhancedRequest,
+  credentials: CredentialSettings
+): Promise<StandaloneResponse> {
+  const { transactionId, amount } = body;
+  const gateway = resolveGatewayConfig(body, credentials);
 
-    return createResponse(result);
-  } catch (error) {
-    if (error instanceof FatZebraError) {
-      return createResponse(
-        {
-          successful: false,
-          errors: error.errors,
-          response: error.response,
-        },
-        400
-      );
-    }
+  if ('response' in gateway) {
+    return gateway.response;
+  }
 
+  if (!transactionId) {
     return createResponse(
       {
         successful: false,
-        errors: [extractErrorMessage(error)],
+        errors: ['transactionId is required'],
       },
-      500
+      400
     );
   }
+
+  const client = createClient(request, credentials, gateway.config);
+  const result = await client
+    .capture(transactionId, amount, getIdempotencyOptions(request))
+    .finally(() =>
+      credentials.cache?.invalidate(transactionCacheKey(gateway.config, transactionId))
+    );
+
+  return createResponse(result);
 }
 
 /**
- * Capture a previously authorized transaction
+ * Process a refund transaction
  */
-export async function handleCapture(request: StandaloneRequest): Promise<StandaloneResponse> {
-  try {
-    const { method, body } = await extractRequestData(request);
+async function processRefund(
+  body: any,
+  request: EnhancedRequest,
+  credentials: CredentialSettings
+): Promise<StandaloneResponse> {
+  const { refundData } = body;
+  const gateway = resolveGatewayConfig(body, credentials);
 
-    if (method !== 'POST') {
-      return createResponse({ error: 'Method not allowed' }, 405);
-    }
+  if ('response' in gateway) {
+    return gateway.response;
+  }
 
-    if (!body) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['Request body is required'],
-        },
-        400
-      );
-    }
+  if (!refundData) {
+    return createResponse(
+      {
+        successful: false,
+        errors: ['refundData is required'],
+      },
+      400
+    );
+  }
 
-    const { transactionId, amount, config } = body;
+  const client = createClient(request, credentials, gateway.config);
+  const result = await client
+    .refund(refundData as RefundRequest, getIdempotencyOptions(request))
+    .finally(() =>
+      credentials.cache?.invalidate(transactionCacheKey(gateway.config, refundData.transaction_id))
+    );
 
-    if (!transactionId || !config) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['transactionId and config are required'],
-        },
-        400
-      );
-    }
+  return createResponse(result);
+}
 
-    const client = createFatZebraClient(config);
-    const result = await client.capture(transactionId, amount);
+/**
+ * Tokenize card details
+ */
+async function processTokenization(
+  body: any,
+  request: EnhancedRequest,
+  credentials: CredentialSettings
+): Promise<StandaloneResponse> {
+  const { tokenData } = body;
+  const gateway = resolveGatewayConfig(body, credentials);
 
-    return createResponse(result);
-  } catch (error) {
-    if (error instanceof FatZebraError) {
-      return createResponse(
-        {
-          successful: false,
-          errors: error.errors,
-          response: error.response,
-        },
-        400
-      );
-    }
+  if ('response' in gateway) {
+    return gateway.response;
+  }
 
+  if (!tokenData) {
     return createResponse(
       {
         successful: false,
-        errors: [extractErrorMessage(error)],
+        errors: ['tokenData is required'],
       },
-      500
+      400
     );
   }
+
+  const client = createClient(request, credentials, gateway.config);
+  const result = await client.tokenize(tokenData as TokenizationRequest);
+
+  return createResponse(result);
 }
 
 /**
- * Process a refund transaction
+ * List stored card tokens
  */
-export async function handleRefund(request: StandaloneRequest): Promise<StandaloneResponse> {
-  try {
-    const { method, body } = await extractRequestData(request);
-
-    if (method !== 'POST') {
-      return createResponse({ error: 'Method not allowed' }, 405);
-    }
+async function processListCards(
+  body: any,
+  request: EnhancedRequest,
+  credentials: CredentialSettings
+): Promise<StandaloneResponse> {
+  const { options } = body;
+  const gateway = resolveGatewayConfig(body, credentials);
 
-    if (!body) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['Request body is required'],
-        },
-        400
-      );
-    }
+  if ('response' in gateway) {
+    return gateway.response;
+  }
 
-    const { refundData, config } = body;
+  const client = createClient(request, credentials, gateway.config);
+  const result = await client.listCards((options || {}) as ListCardsOptions);
 
-    if (!refundData || !config) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['refundData and config are required'],
-        },
-        400
-      );
-    }
+  return createResponse(result);
+}
 
-    const client = createFatZebraClient(config);
-    const result = await client.refund(refundData as RefundRequest);
+/**
+ * Get the masked details of a stored card token
+ */
+async function processGetCard(
+  body: any,
+  request: EnhancedRequest,
+  credentials: CredentialSettings
+): Promise<StandaloneResponse> {
+  const { cardToken } = body;
+  const gateway = resolveGatewayConfig(body, credentials);
 
-    return createResponse(result);
-  } catch (error) {
-    if (error instanceof FatZebraError) {
-      return createResponse(
-        {
-          successful: false,
-          errors: error.errors,
-          response: error.response,
-        },
-        400
-      );
-    }
+  if ('response' in gateway) {
+    return gateway.response;
+  }
 
+  if (!cardToken) {
     return createResponse(
       {
         successful: false,
-        errors: [extractErrorMessage(error)],
+        errors: ['cardToken is required'],
       },
-      500
+      400
     );
   }
+
+  const client = createClient(request, credentials, gateway.config);
+  const { result, cached } = await readThrough(
+    credentials,
+    cardCacheKey(gateway.config, cardToken),
+    () => client.getCard(cardToken)
+  );
+
+  return createReadResponse(result, cached, credentials);
 }
 
 /**
- * Tokenize card details
+ * Update the expiry date of a stored card token
  */
-export async function handleTokenization(request: StandaloneRequest): Promise<StandaloneResponse> {
-  try {
-    const { method, body } = await extractRequestData(request);
-
-    if (method !== 'POST') {
-      return createResponse({ error: 'Method not allowed' }, 405);
-    }
-
-    if (!body) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['Request body is required'],
-        },
-        400
-      );
-    }
-
-    const { tokenData, config } = body;
+async function processUpdateCardExpiry(
+  body: any,
+  request: EnhancedRequest,
+  credentials: CredentialSettings
+): Promise<StandaloneResponse> {
+  const { cardToken, cardExpiry } = body;
+  const gateway = resolveGatewayConfig(body, credentials);
 
-    if (!tokenData || !config) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['tokenData and config are required'],
-        },
-        400
-      );
-    }
+  if ('response' in gateway) {
+    return gateway.response;
+  }
 
-    const client = createFatZebraClient(config);
-    const result = await client.tokenize(tokenData as TokenizationRequest);
+  if (!cardToken || !cardExpiry) {
+    return createResponse(
+      {
+        successful: false,
+        errors: ['cardToken and cardExpiry are required'],
+      },
+      400
+    );
+  }
 
-    return createResponse(result);
-  } catch (error) {
-    if (error instanceof FatZebraError) {
-      return createResponse(
-        {
-          successful: false,
-          errors: error.errors,
-          response: error.response,
-        },
-        400
-      );
-    }
+  const expiryValidation = validateExpiryDate(cardExpiry);
 
+  if (!expiryValidation.valid) {
     return createResponse(
       {
         successful: false,
-        errors: [extractErrorMessage(error)],
+        errors: [expiryValidation.error],
       },
-      500
+      400
     );
   }
+
+  const client = createClient(request, credentials, gateway.config);
+  const result = await client
+    .updateCardExpiry(cardToken, { card_expiry: cardExpiry })
+    .finally(() => credentials.cache?.invalidate(cardCacheKey(gateway.config, cardToken)));
+
+  return createResponse(result);
 }
 
 /**
- * Void a transaction
+ * Delete a stored card token
  */
-export async function handleVoid(request: StandaloneRequest): Promise<StandaloneResponse> {
-  try {
-    const { method, body } = await extractRequestData(request);
+async function processDeleteCard(
+  body: any,
+  request: EnhancedRequest,
+  credentials: CredentialSettings
+): Promise<StandaloneResponse> {
+  const { cardToken } = body;
+  const gateway = resolveGatewayConfig(body, credentials);
 
-    if (method !== 'POST') {
-      return createResponse({ error: 'Method not allowed' }, 405);
-    }
+  if ('response' in gateway) {
+    return gateway.response;
+  }
 
-    if (!body) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['Request body is required'],
-        },
-        400
-      );
-    }
+  if (!cardToken) {
+    return createResponse(
+      {
+        successful: false,
+        errors: ['cardToken is required'],
+      },
+      400
+    );
+  }
 
-    const { transactionId, config } = body;
+  const client = createClient(request, credentials, gateway.config);
+  const result = await client
+    .deleteCard(cardToken)
+    .finally(() => credentials.cache?.invalidate(cardCacheKey(gateway.config, cardToken)));
 
-    if (!transactionId || !config) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['transactionId and config are required'],
-        },
-        400
-      );
-    }
+  return createResponse(result);
+}
 
-    const client = createFatZebraClient(config);
-    const result = await client.void(transactionId);
+/**
+ * Void a transaction
+ */
+async function processVoid(
+  body: any,
+  request: EnhancedRequest,
+  credentials: CredentialSettings
+): Promise<StandaloneResponse> {
+  const { transactionId } = body;
+  const gateway = resolveGatewayConfig(body, credentials);
 
-    return createResponse(result);
-  } catch (error) {
-    if (error instanceof FatZebraError) {
-      return createResponse(
-        {
-          successful: false,
-          errors: error.errors,
-          response: error.response,
-        },
-        400
-      );
-    }
+  if ('response' in gateway) {
+    return gateway.response;
+  }
 
+  if (!transactionId) {
     return createResponse(
       {
         successful: false,
-        errors: [extractErrorMessage(error)],
+        errors: ['transactionId is required'],
       },
-      500
+      400
     );
   }
+
+  const client = createClient(request, credentials, gateway.config);
+  const result = await client
+    .void(transactionId, getIdempotencyOptions(request))
+    .finally(() =>
+      credentials.cache?.invalidate(transactionCacheKey(gateway.config, transactionId))
+    );
+
+  return createResponse(result);
 }
 
 /**
  * Get transaction status
  */
-export async function handleTransactionStatus(
-  request: StandaloneRequest
+async function processTransactionStatus(
+  body: any,
+  request: EnhancedRequest,
+  credentials: CredentialSettings
 ): Promise<StandaloneResponse> {
-  try {
-    const { method, body } = await extractRequestData(request);
-
-    if (method !== 'POST') {
-      return createResponse({ error: 'Method not allowed' }, 405);
-    }
-
-    if (!body) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['Request body is required'],
-        },
-        400
-      );
-    }
-
-    const { transactionId, config } = body;
-
-    if (!transactionId || !config) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['transactionId and config are required'],
-        },
-        400
-      );
-    }
-
-    const client = createFatZebraClient(config);
-    const result = await client.getTransaction(transactionId);
+  const { transactionId } = body;
+  const gateway = resolveGatewayConfig(body, credentials);
 
-    return createResponse(result);
-  } catch (error) {
-    if (error instanceof FatZebraError) {
-      return createResponse(
-        {
-          successful: false,
-          errors: error.errors,
-          response: error.response,
-        },
-        400
-      );
-    }
+  if ('response' in gateway) {
+    return gateway.response;
+  }
 
+  if (!transactionId) {
     return createResponse(
       {
         successful: false,
-        errors: [extractErrorMessage(error)],
+        errors: ['transactionId is required'],
       },
-      500
+      400
     );
   }
+
+  const client = createClient(request, credentials, gateway.config);
+  const { result, cached } = await readThrough(
+    credentials,
+    transactionCacheKey(gateway.config, transactionId),
+    () => client.getTransaction(transactionId)
+  );
+
+  return createReadResponse(result, cached, credentials);
 }
 
 /**
  * Verify webhook signature
+ *
+ * The request is the webhook delivery itself: the signature (and timestamp, when sent) is checked
+ * over the raw body with the server's webhook secrets, and an event ID seen before is rejected.
  */
-export async function handleVerifyWebhook(request: StandaloneRequest): Promise<StandaloneResponse> {
-  try {
-    const { method, body, headers } = await extractRequestData(request);
-
-    if (method !== 'POST') {
-      return createResponse({ error: 'Method not allowed' }, 405);
-    }
+async function processVerifyWebhook(
+  _body: any,
+  request: EnhancedRequest,
+  credentials: CredentialSettings
+): Promise<StandaloneResponse> {
+  const { rawBody, headers } = await extractRawRequestData(request);
 
-    if (!body) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['Request body is required'],
-        },
-        400
-      );
-    }
+  if (!rawBody) {
+    return createResponse(
+      {
+        successful: false,
+        errors: ['Request body is required'],
+      },
+      400
+    );
+  }
 
-    const { payload, sharedSecret } = body;
-    const signature = headers['x-fatzebra-signature'] || headers['x-fatzebra-hmac'];
+  const secrets = credentials.getWebhookSecrets();
 
-    if (!payload || !sharedSecret || !signature) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['payload, sharedSecret, and signature are required'],
-        },
-        400
-      );
-    }
+  if (secrets.length === 0) {
+    return createResponse(
+      { successful: false, errors: ['sharedSecret is not configured on the server'] },
+      500
+    );
+  }
 
-    const expectedHash = generateVerificationHash(payload, sharedSecret);
-    const isValid = expectedHash === signature;
+  const verification = await verifyWebhookRequest(rawBody, headers, { secret: secrets });
 
-    return createResponse({
-      successful: true,
-      verified: isValid,
-      payload: isValid ? payload : null,
-    });
-  } catch (error) {
+  if (!verification.valid) {
     return createResponse(
       {
         successful: false,
-        errors: [extractErrorMessage(error)],
+        verified: false,
+        errors: [verification.error ?? 'Invalid webhook signature'],
       },
-      500
+      verification.status ?? 401
     );
   }
+
+  const event = parseWebhookEvent(rawBody);
+
+  // A redelivery is acknowledged so the gateway stops retrying; callers skip duplicates
+  if (!(await credentials.webhookEventStore.add(event.id, WEBHOOK_EVENT_TTL))) {
+    return createResponse({
+      successful: true,
+      verified: true,
+      duplicate: true,
+      payload: event,
+    });
+  }
+
+  return createResponse({
+    successful: true,
+    verified: true,
+    payload: event,
+  });
 }
 
 /**
  * Generate verification hash
  */
-export async function handleGenerateHash(request: StandaloneRequest): Promise<StandaloneResponse> {
-  try {
-    const { method, body } = await extractRequestData(request);
-
-    if (method !== 'POST') {
-      return createResponse({ error: 'Method not allowed' }, 405);
-    }
-
-    if (!body) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['Request body is required'],
-        },
-        400
-      );
-    }
-
-    const { data, sharedSecret } = body;
-
-    if (!data || !sharedSecret) {
-      return createResponse(
-        {
-          successful: false,
-          errors: ['data and sharedSecret are required'],
-        },
-        400
-      );
-    }
+async function processGenerateHash(
+  body: any,
+  _request: EnhancedRequest,
+  credentials: CredentialSettings
+): Promise<StandaloneResponse> {
+  const { data } = body;
+  const secret = resolveSharedSecret(body, credentials);
 
-    const hash = generateVerificationHash(data, sharedSecret);
+  if ('response' in secret) {
+    return secret.response;
+  }
 
-    return createResponse({
-      successful: true,
-      hash,
-    });
-  } catch (error) {
+  if (!data) {
     return createResponse(
       {
         successful: false,
-        errors: [extractErrorMessage(error)],
+        errors: ['data is required'],
       },
-      500
+      400
     );
   }
+
+  const hash = await generateVerificationHashAsync(data, secret.sharedSecret);
+
+  return createResponse({
+    successful: true,
+    hash,
+  });
+}
+
+// Handlers that take `config` and `sharedSecret` from the request body. Prefer
+// createStandaloneHandlers so gateway credentials never leave the server.
+
+/** @deprecated Use createStandaloneHandlers so credentials stay on the server */
+export const handlePurchase = createHandler('Purchase', processPurchase, BODY_CREDENTIALS);
+/** @deprecated Use createStandaloneHandlers so credentials stay on the server */
+export const handleAuthorization = createHandler(
+  'Authorization',
+  processAuthorization,
+  BODY_CREDENTIALS
+);
+/** @deprecated Use createStandaloneHandlers so credentials stay on the server */
+export const handleCapture = createHandler('Capture', processCapture, BODY_CREDENTIALS);
+/** @deprecated Use createStandaloneHandlers so credentials stay on the server */
+export const handleRefund = createHandler('Refund', processRefund, BODY_CREDENTIALS);
+/** @deprecated Use createStandaloneHandlers so credentials stay on the server */
+export const handleTokenization = createHandler(
+  'Tokenization',
+  processTokenization,
+  BODY_CREDENTIALS
+);
+/** @deprecated Use createStandaloneHandlers so credentials stay on the server */
+export const handleListCards = createHandler('List cards', processListCards, BODY_CREDENTIALS);
+/** @deprecated Use createStandaloneHandlers so credentials stay on the server */
+export const handleGetCard = createHandler('Get card', processGetCard, BODY_CREDENTIALS);
+/** @deprecated Use createStandaloneHandlers so credentials stay on the server */
+export const handleUpdateCardExpiry = createHandler(
+  'Update card expiry',
+  processUpdateCardExpiry,
+  BODY_CREDENTIALS
+);
+/** @deprecated Use createStandaloneHandlers so credentials stay on the server */
+export const handleDeleteCard = createHandler('Delete card', processDeleteCard, BODY_CREDENTIALS);
+/** @deprecated Use createStandaloneHandlers so credentials stay on the server */
+export const handleVoid = createHandler('Void', processVoid, BODY_CREDENTIALS);
+/** @deprecated Use createStandaloneHandlers so credentials stay on the server */
+export const handleTransactionStatus = createHandler(
+  'Transaction status',
+  processTransactionStatus,
+  BODY_CREDENTIALS
+);
+/** @deprecated Use createStandaloneHandlers so credentials stay on the server */
+export const handleVerifyWebhook = createHandler(
+  'Webhook verification',
+  processVerifyWebhook,
+  BODY_CREDENTIALS,
+  { json: false }
+);
+/** @deprecated Use createStandaloneHandlers so credentials stay on the server */
+export const handleGenerateHash = createHandler(
+  'Hash generation',
+  processGenerateHash,
+  BODY_CREDENTIALS
+);
+
+export type StandaloneHandler = (request: StandaloneRequest) => Promise<StandaloneResponse>;
+
+export interface StandaloneHandlers {
+  handleHealthCheck: StandaloneHandler;
+  handleLiveness: StandaloneHandler;
+  handleReadiness: StandaloneHandler;
+  handlePurchase: StandaloneHandler;
+  handleAuthorization: StandaloneHandler;
+  handleCapture: StandaloneHandler;
+  handleRefund: StandaloneHandler;
+  handleTokenization: StandaloneHandler;
+  handleListCards: StandaloneHandler;
+  handleGetCard: StandaloneHandler;
+  handleUpdateCardExpiry: StandaloneHandler;
+  handleDeleteCard: StandaloneHandler;
+  handleVoid: StandaloneHandler;
+  handleTransactionStatus: StandaloneHandler;
+  handleVerifyWebhook: StandaloneHandler;
+  handleGenerateHash: StandaloneHandler;
+}
+
+/**
+ * Create standalone handlers that use server-side credentials
+ *
+ * Credentials come from serverConfig, falling back to the FAT_ZEBRA_USERNAME, FAT_ZEBRA_TOKEN and
+ * FAT_ZEBRA_SHARED_SECRET environment variables. Request bodies carry payment data only; a body
+ * containing `config` or `sharedSecret` is rejected with 400 unless allowBodyConfig is set.
+ */
+export function createStandaloneHandlers(
+  serverConfig: StandaloneServerConfig = {}
+): StandaloneHandlers {
+  const credentials: CredentialSettings = {
+    allowBodyConfig: serverConfig.allowBodyConfig ?? false,
+    getConfig: () => serverConfig.config ?? getEnvGatewayConfig(),
+    getSharedSecret: () => serverConfig.sharedSecret ?? process.env.FAT_ZEBRA_SHARED_SECRET,
+    getWebhookSecrets: () =>
+      serverConfig.webhookSecrets ??
+      (serverConfig.sharedSecret ? [serverConfig.sharedSecret] : getEnvWebhookSecrets()),
+    webhookEventStore: serverConfig.webhookEventStore ?? new MemoryWebhookEventStore(),
+    ...(serverConfig.logger && { logger: serverConfig.logger }),
+    ...(serverConfig.cache && { cache: new ResponseCache(serverConfig.cache) }),
+    ...(serverConfig.health && { health: serverConfig.health }),
+  };
+  const { idempotency } = serverConfig;
+  const idempotent = (handler: RequestHandler): RequestHandler =>
+    idempotency ? withIdempotency(handler, idempotency) : handler;
+
+  return {
+    handleHealthCheck: createHealthCheckHandler(credentials),
+    handleLiveness: createHealthCheckHandler(credentials, 'liveness'),
+    handleReadiness: createHealthCheckHandler(credentials, 'readiness'),
+    handlePurchase: idempotent(createHandler('Purchase', processPurchase, credentials)),
+    handleAuthorization: idempotent(
+      createHandler('Authorization', processAuthorization, credentials)
+    ),
+    handleCapture: idempotent(createHandler('Capture', processCapture, credentials)),
+    handleRefund: idempotent(createHandler('Refund', processRefund, credentials)),
+    handleTokenization: createHandler('Tokenization', processTokenization, credentials),
+    handleListCards: createHandler('List cards', processListCards, credentials),
+    handleGetCard: createHandler('Get card', processGetCard, credentials),
+    handleUpdateCardExpiry: createHandler(
+      'Update card expiry',
+      processUpdateCardExpiry,
+      credentials
+    ),
+    handleDeleteCard: createHandler('Delete card', processDeleteCard, credentials),
+    handleVoid: idempotent(createHandler('Void', processVoid, credentials)),
+    handleTransactionStatus: createHandler(
+      'Transaction status',
+      processTransactionStatus,
+      credentials
+    ),
+    handleVerifyWebhook: createHandler('Webhook verification', processVerifyWebhook, credentials, {
+      json: false,
+    }),
+    handleGenerateHash: createHandler('Hash generation', processGenerateHash, credentials),
+  };
 }
@@ -1,12 +1,20 @@
 /**
  * Fat Zebra Server Routes Module
  * Next.js API route handlers for Fat Zebra payment operations
+ * Request body amounts are in minor units (e.g. 1050 for $10.50), the same as the standalone
+ * handlers; major-unit amounts are rejected with a 400
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createFatZebraClient, FatZebraError, handleFatZebraResponse } from '../../lib/client';
-import { generateVerificationHash, extractErrorMessage } from '../../utils'; // Removed unused imports
+import {
+  generateVerificationHashAsync,
+  extractErrorMessage,
+  defaultLogger,
+  VERSION,
+} from '../../utils';
 import type {
+  Logger,
   PurchaseRequest,
   AuthorizationRequest,
   RefundRequest,
@@ -47,6 +55,11 @@ function getClientIP(request: NextRequest): string {
   return '127.0.0.1';
 }
 
+// Request-scoped logger set by requestLogger() or getRouteHandlers(), else the default logger
+function getLogger(request: NextRequest): Logger {
+  return (request as NextRequest & { logger?: Logger }).logger ?? defaultLogger;
+}
+
 /**
  * Purchase transaction handler
  */
@@ -72,7 +85,7 @@ export async function handlePurchase(request: NextRequest): Promise<NextResponse
     });
 
     const purchaseData: PurchaseRequest = {
-      amount: Math.round(body.amount * 100),
+      amount: body.amount,
       currency: body.currency || 'AUD',
       reference: body.reference || `TXN-${Date.now()}`,
       card_holder: body.card_holder,
@@ -87,7 +100,7 @@ export async function handlePurchase(request: NextRequest): Promise<NextResponse
     const response = await client.purchase(purchaseData);
     return NextResponse.json(handleFatZebraResponse(response));
   } catch (error) {
-    console.error('Purchase error:', error);
+    getLogger(request).error('Purchase error', { error });
     const errorMessage = extractErrorMessage(error);
     const statusCode = error instanceof FatZebraError ? 400 : 500;
 
@@ -126,7 +139,7 @@ export async function handleAuthorization(request: NextRequest): Promise<NextRes
     });
 
     const authData: AuthorizationRequest = {
-      amount: Math.round(body.amount * 100),
+      amount: body.amount,
       currency: body.currency || 'AUD',
       reference: body.reference || `AUTH-${Date.now()}`,
       card_holder: body.card_holder,
@@ -141,7 +154,7 @@ export async function handleAuthorization(request: NextRequest): Promise<NextRes
     const response = await client.authorize(authData);
     return NextResponse.json(handleFatZebraResponse(response));
   } catch (error) {
-    console.error('Authorization error:', error);
+    getLogger(request).error('Authorization error', { error });
     const errorMessage = extractErrorMessage(error);
     const statusCode = error instanceof FatZebraError ? 400 : 500;
 
@@ -181,7 +194,7 @@ export async function handleCapture(request: NextRequest): Promise<NextResponse>
     const response = await client.capture(body.transaction_id, body.amount);
     return NextResponse.json(handleFatZebraResponse(response));
   } catch (error) {
-    console.error('Capture error:', error);
+    getLogger(request).error('Capture error', { error });
     const errorMessage = extractErrorMessage(error);
     const statusCode = error instanceof FatZebraError ? 400 : 500;
 
@@ -221,7 +234,7 @@ export async function handleRefund(request: NextRequest): Promise<NextResponse>
     const response = await client.refund(body);
     return NextResponse.json(handleFatZebraResponse(response));
   } catch (error) {
-    console.error('Refund error:', error);
+    getLogger(request).error('Refund error', { error });
     const errorMessage = extractErrorMessage(error);
     const statusCode = error instanceof FatZebraError ? 400 : 500;
 
@@ -269,7 +282,7 @@ export async function handleTokenization(request: NextRequest): Promise<NextResp
     const response = await client.tokenize(tokenData);
     return NextResponse.json(handleFatZebraResponse(response));
   } catch (error) {
-    console.error('Tokenization error:', error);
+    getLogger(request).error('Tokenization error', { error });
     const errorMessage = extractErrorMessage(error);
     const statusCode = error instanceof FatZebraError ? 400 : 500;
 
@@ -309,7 +322,7 @@ export async function handleVoid(request: NextRequest): Promise<NextResponse> {
     const response = await client.void(body.transaction_id);
     return NextResponse.json(handleFatZebraResponse(response));
   } catch (error) {
-    console.error('Void error:', error);
+    getLogger(request).error('Void error', { error });
     const errorMessage = extractErrorMessage(error);
     const statusCode = error instanceof FatZebraError ? 400 : 500;
 
@@ -352,7 +365,7 @@ export async function handleTransactionStatus(request: NextRequest): Promise<Nex
     const response = await client.getTransaction(transactionId);
     return NextResponse.json(handleFatZebraResponse(response));
   } catch (error) {
-    console.error('Transaction status error:', error);
+    getLogger(request).error('Transaction status error', { error });
     const errorMessage = extractErrorMessage(error);
     const statusCode = error instanceof FatZebraError ? 400 : 500;
 
@@ -417,7 +430,7 @@ export async function handleGenerateHash(request: NextRequest): Promise<NextResp
     }
 
     const secret = process.env.FAT_ZEBRA_SHARED_SECRET || 'default-secret';
-    const hash = generateVerificationHash(body, secret);
+    const hash = await generateVerificationHashAsync(body, secret);
 
     return NextResponse.json({
       successful: true,
@@ -437,7 +450,7 @@ export async function handleHealthCheck(): Promise<NextResponse> {
     successful: true,
     status: 'healthy',
     timestamp: new Date().toISOString(),
-    version: '0.5.9',
+    version: VERSION,
   });
 }
 
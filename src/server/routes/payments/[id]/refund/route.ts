@@ -4,7 +4,7 @@ import {
   handleFatZebraResponse,
   FatZebraError,
 } from '../../../../../lib/client';
-import { extractErrorMessage } from '../../../../../utils';
+import { extractErrorMessage, defaultLogger } from '../../../../../utils';
 import type { RefundRequest } from '../../../../../types';
 
 export async function POST(
@@ -30,7 +30,7 @@ export async function POST(
 
     const refundData: RefundRequest = {
       transaction_id: transactionId,
-      amount: body.amount,
+      ...(body.amount !== undefined && { amount: body.amount }), // minor units
       reason: body.reason || 'Customer request',
       reference: body.reference || `REFUND-${Date.now()}`,
     };
@@ -38,7 +38,7 @@ export async function POST(
     const response = await client.refund(refundData);
     return NextResponse.json(handleFatZebraResponse(response));
   } catch (error) {
-    console.error('Refund error:', error);
+    defaultLogger.error('Refund error', { error });
 
     // Proper error type handling for TypeScript strict mode
     const errorMessage = extractErrorMessage(error);
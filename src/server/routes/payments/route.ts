@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createFatZebraClient, handleFatZebraResponse, FatZebraError } from '../../../lib/client';
-import { validateCard, extractErrorMessage } from '../../../utils';
+import { validateCard, extractErrorMessage, defaultLogger } from '../../../utils';
 import type { PurchaseRequest } from '../../../types';
 
 // Helper function to get client IP from request - FIXED TYPESCRIPT ERRORS
@@ -82,7 +82,7 @@ export async function POST(request: NextRequest) {
 
     // Prepare purchase data
     const purchaseData: PurchaseRequest = {
-      amount: Math.round(body.amount * 100), // Convert to cents
+      amount: body.amount, // minor units, like every other route
       currency: body.currency || 'AUD',
       reference: body.reference || `TXN-${Date.now()}`,
       card_holder: body.card_holder,
@@ -99,7 +99,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(handleFatZebraResponse(response));
   } catch (error) {
-    console.error('Payment processing error:', error);
+    defaultLogger.error('Payment processing error', { error });
 
     const errorMessage = extractErrorMessage(error);
     const statusCode = error instanceof FatZebraError ? 400 : 500;
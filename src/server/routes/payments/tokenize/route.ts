@@ -4,7 +4,7 @@ import {
   handleFatZebraResponse,
   FatZebraError,
 } from '../../../../lib/client';
-import { extractErrorMessage } from '../../../../utils';
+import { extractErrorMessage, defaultLogger } from '../../../../utils';
 import type { TokenizationRequest } from '../../../../types';
 
 export async function POST(request: NextRequest): Promise<NextResponse> {
@@ -27,7 +27,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     const response = await client.tokenize(body);
     return NextResponse.json(handleFatZebraResponse(response));
   } catch (error) {
-    console.error('Tokenization error:', error);
+    defaultLogger.error('Tokenization error', { error });
 
     // Proper error type handling for TypeScript strict mode
     const errorMessage = extractErrorMessage(error);
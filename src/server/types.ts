@@ -2,6 +2,19 @@
  * Standalone server types that work without Next.js
  */
 
+import type {
+  FatZebraConfig,
+  FetchLike,
+  LogWriter,
+  Logger,
+  LoggerConfig,
+  WebhookEvent,
+  WebhookEventOfType,
+  WebhookEventType,
+} from '../types';
+import type { StandaloneHandlers } from './routes-standalone';
+import type { WebhookInbox } from './webhook-inbox';
+
 // Basic HTTP types that work in any environment
 export interface StandaloneRequest {
   method?: string;
@@ -9,6 +22,10 @@ export interface StandaloneRequest {
   body?: string | null;
   url?: string;
   json(): Promise<any>;
+  // Raw body, used for webhook signatures when present
+  text?(): Promise<string>;
+  // Address of the connected peer, set by the framework adapters
+  remoteAddress?: string;
 }
 
 export interface StandaloneResponse {
@@ -23,40 +40,35 @@ export interface StandaloneResponse {
 export type NextRequest = any;
 export type NextResponse = any;
 
-// Helper to check if Next.js is available
+// True inside a Next.js server (NEXT_RUNTIME is set for both the nodejs and edge runtimes) or
+// another edge runtime, where route handlers must return a Response. Needs no require(), so it
+// also works on the Edge runtime
 export function isNextJSAvailable(): boolean {
-  try {
-    // Use dynamic require to avoid TypeScript resolution issues
-    if (typeof require !== 'undefined') {
-      require('next/server');
-      return true;
-    }
-    return false;
-  } catch {
-    return false;
-  }
+  return (
+    (typeof process !== 'undefined' && Boolean(process.env?.NEXT_RUNTIME)) ||
+    typeof (globalThis as { EdgeRuntime?: unknown }).EdgeRuntime === 'string'
+  );
 }
 
 // Factory function to create appropriate response based on environment
-export function createResponse(data: any, status: number = 200): any {
-  if (isNextJSAvailable()) {
-    try {
-      // Use dynamic require to avoid TypeScript resolution issues
-      if (typeof require !== 'undefined') {
-        const { NextResponse } = require('next/server');
-        return NextResponse.json(data, { status });
-      }
-    } catch (error) {
-      // Fallback if NextResponse import fails
-      console.debug('NextResponse import failed, using fallback');
-    }
+export function createResponse(
+  data: any,
+  status: number = 200,
+  headers: Record<string, string> = {}
+): any {
+  // A Web API Response, which Next.js accepts as well as a NextResponse
+  if (isNextJSAvailable() && typeof Response !== 'undefined') {
+    return new Response(JSON.stringify(data), {
+      status,
+      headers: { 'content-type': 'application/json', ...headers },
+    });
   }
 
   // Standalone response
   return {
     status,
     statusText: status === 200 ? 'OK' : 'Error',
-    headers: { 'content-type': 'application/json' },
+    headers: { 'content-type': 'application/json', ...headers },
     json: () => Promise.resolve(data),
     body: JSON.stringify(data),
   };
@@ -79,7 +91,8 @@ export async function extractRequestData(request: any): Promise<{
     let body = null;
     try {
       if (request.method !== 'GET') {
-        body = await request.json();
+        // Middleware may already have read a body that json() can only return once
+        body = request.parsedBody !== undefined ? request.parsedBody : await request.json();
       }
     } catch {
       body = null;
@@ -165,17 +178,78 @@ export function getClientIP(request: any): string {
   return 'unknown';
 }
 
+// Utility to read the unparsed body (needed for signature checks) regardless of environment.
+// A body already parsed by a framework is re-serialized, which may not match the signed bytes.
+export async function extractRawRequestData(request: any): Promise<{
+  method: string;
+  rawBody: string;
+  headers: Record<string, string>;
+}> {
+  const headers: Record<string, string> = {};
+
+  if (request.headers && typeof request.headers.entries === 'function') {
+    for (const [key, value] of request.headers.entries()) {
+      headers[key.toLowerCase()] = value;
+    }
+  } else if (request.headers) {
+    for (const [key, value] of Object.entries(request.headers)) {
+      if (value !== undefined) {
+        headers[key.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+      }
+    }
+  }
+
+  let rawBody = '';
+
+  if (typeof request.text === 'function') {
+    rawBody = await request.text();
+  } else if (typeof request.body === 'string') {
+    rawBody = request.body;
+  } else if (request.body instanceof Uint8Array) {
+    rawBody = new TextDecoder().decode(request.body);
+  } else if (request.body) {
+    rawBody = JSON.stringify(request.body);
+  }
+
+  return {
+    method: request.method || 'GET',
+    rawBody,
+    headers,
+  };
+}
+
 // Extended server configuration types
+export type CorsOrigin =
+  | boolean
+  | string
+  | RegExp
+  | (string | RegExp)[]
+  | ((origin: string, request: StandaloneRequest | NextRequest) => boolean | Promise<boolean>);
+
+export interface CorsOptions {
+  // '*' allows any origin; true reflects the request origin; strings, regexes, lists and
+  // functions form an allow-list. Defaults to '*'
+  origin?: CorsOrigin;
+  // Preflight Access-Control-Allow-Methods (default GET, HEAD, PUT, PATCH, POST, DELETE)
+  methods?: string[];
+  // Preflight Access-Control-Allow-Headers (default: the headers the browser asked for)
+  allowedHeaders?: string[];
+  // Response headers readable by the browser (Access-Control-Expose-Headers)
+  exposedHeaders?: string[];
+  // Allow cookies and Authorization; needs an allow-list origin, not '*' or true
+  credentials?: boolean;
+  // Seconds a preflight result may be cached (Access-Control-Max-Age)
+  maxAge?: number;
+}
+
 export interface ServerConfig {
   enableCors?: boolean;
-  corsOptions?: {
-    origin?: string | string[] | boolean;
-    methods?: string[];
-    allowedHeaders?: string[];
-    credentials?: boolean;
-  };
+  corsOptions?: CorsOptions;
   rateLimit?: RateLimitConfig;
   logging?: LoggerConfig;
+  // Handler errors, defaults to a logger created from `logging`; a request.logger set by
+  // requestLogger() takes precedence
+  logger?: Logger;
   cache?: CacheConfig;
 }
 
@@ -184,6 +258,12 @@ export interface EnhancedRequest extends StandaloneRequest {
   userAgent?: string;
   timestamp?: Date;
   requestId?: string;
+  // Set by jsonBody()
+  parsedBody?: any;
+  // Principal returned by requireAuth()'s verify callback
+  auth?: unknown;
+  // Request-scoped logger set by requestLogger()
+  logger?: Logger;
 }
 
 export interface EnhancedResponse extends StandaloneResponse {
@@ -201,6 +281,8 @@ export interface ServerError extends Error {
 export interface ErrorResponse {
   successful: false;
   error: string;
+  /** @deprecated Same message as `error`, kept for clients that read the old `errors` array */
+  errors: string[];
   code?: string;
   details?: any;
   requestId?: string;
@@ -221,12 +303,71 @@ export interface RateLimitInfo {
   retryAfter?: number;
 }
 
+// Hit timestamps (ms) per key; hit() must be atomic for stores shared between instances
+export interface RateLimitStore {
+  // Drop hits older than the window, then record one at `now` unless `limit` hits remain.
+  // Resolves whether this hit was recorded and the hits inside the window, oldest first
+  hit(
+    key: string,
+    now: number,
+    windowMs: number,
+    limit: number
+  ): Promise<{ recorded: boolean; hits: number[] }>;
+  // Forget one recorded hit (skipSuccessful / skipFailed)
+  remove(key: string, timestamp: number): Promise<void>;
+}
+
+export type RateLimitKey =
+  | 'ip'
+  | 'card'
+  | ((
+      request: StandaloneRequest | NextRequest
+    ) => string | undefined | Promise<string | undefined>);
+
+export interface RateLimitOptions extends RateLimitConfig {
+  // What requests are counted by: client IP (default), card fingerprint or a custom key.
+  // Requests whose key resolves to undefined are not limited
+  key?: RateLimitKey;
+  // Read the client IP from X-Forwarded-For, as appended by this many proxies (true = 1). By
+  // default only the connection address (request.remoteAddress) is used
+  trustProxy?: boolean | number;
+  store?: RateLimitStore;
+}
+
+// Middleware wraps the rest of the pipeline: call next() to continue and return (or adjust) its
+// response, or return a response without calling next() to short-circuit
 export type MiddlewareFunction = (
+  request: EnhancedRequest,
+  next: () => Promise<EnhancedResponse>
+) => Promise<EnhancedResponse>;
+
+/** @deprecated The signature MiddlewareFunction had before compose(); nothing calls it */
+export type LegacyMiddlewareFunction = (
   request: EnhancedRequest,
   response: EnhancedResponse,
   next: () => void
 ) => void | Promise<void>;
 
+export interface RequestIdOptions {
+  // Header read from the request and set on the response (default x-request-id)
+  header?: string;
+  generate?: () => string | Promise<string>;
+  // Reuse an incoming request ID (default true); disable when clients are untrusted
+  trustIncoming?: boolean;
+}
+
+export interface JsonBodyOptions {
+  // Reject requests without a body (default false)
+  required?: boolean;
+}
+
+export interface AuthOptions {
+  // Accepted API keys, compared in constant time against the Bearer token or X-API-Key header
+  apiKeys?: string[];
+  // Custom check; a truthy result is stored on request.auth
+  verify?: (request: EnhancedRequest, token: string | undefined) => unknown | Promise<unknown>;
+}
+
 export interface MiddlewareConfig {
   cors?: boolean;
   rateLimit?: boolean;
@@ -234,6 +375,100 @@ export interface MiddlewareConfig {
   authentication?: boolean;
 }
 
+// Idempotency types
+export interface IdempotencyRecord {
+  state: 'in_progress' | 'completed';
+  fingerprint: string;
+  createdAt: number;
+  status?: number;
+  body?: any;
+}
+
+export interface IdempotencyStore {
+  get(key: string): Promise<IdempotencyRecord | undefined>;
+  // Store the record only if the key is unused; resolves false when it already exists
+  create(key: string, record: IdempotencyRecord, ttlMs: number): Promise<boolean>;
+  set(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface IdempotencyOptions {
+  store?: IdempotencyStore;
+  ttl?: number;
+  headerName?: string;
+}
+
+// Server-side credentials for createStandaloneHandlers
+export interface StandaloneServerConfig {
+  // Defaults to FAT_ZEBRA_USERNAME / FAT_ZEBRA_TOKEN (sandbox outside production)
+  config?: FatZebraConfig;
+  // Defaults to FAT_ZEBRA_SHARED_SECRET
+  sharedSecret?: string;
+  // Accept `config` and `sharedSecret` in request bodies (legacy clients only)
+  allowBodyConfig?: boolean;
+  // Secrets accepted by handleVerifyWebhook, defaults to [sharedSecret]
+  webhookSecrets?: string[];
+  // Seen webhook event IDs, defaults to an in-memory store
+  webhookEventStore?: WebhookEventStore;
+  // Handler and gateway errors; a request.logger set by requestLogger() takes precedence
+  logger?: Logger;
+  // Cache transaction status and card lookups; invalidated by capture, refund, void and card updates
+  cache?: CacheConfig;
+  // Replay repeated Idempotency-Key requests to purchase, authorization, capture, refund and void
+  // (withIdempotency); requests without the header are unaffected
+  idempotency?: IdempotencyOptions;
+  // Readiness checks: extra required environment variables and the gateway probe timeout (ms)
+  health?: Pick<HealthCheckOptions, 'requiredEnv' | 'timeout'>;
+}
+
+// Options for the framework adapters (createNodeHandler, createExpressMiddleware, ...)
+export interface AdapterOptions {
+  // Largest body read from the request stream in bytes, default 1 MB; larger bodies get 413
+  bodyLimit?: number;
+  // Handler errors answered by createNodeHandler (the other adapters pass them to the framework)
+  logger?: Logger;
+}
+
+// Routes served by createFatZebraRouter
+export type FatZebraRouteName =
+  | 'healthCheck'
+  | 'liveness'
+  | 'readiness'
+  | 'purchase'
+  | 'authorization'
+  | 'capture'
+  | 'refund'
+  | 'void'
+  | 'transactionStatus'
+  | 'tokenization'
+  | 'listCards'
+  | 'getCard'
+  | 'updateCardExpiry'
+  | 'deleteCard'
+  | 'verifyWebhook'
+  | 'generateHash';
+
+export interface FatZebraRouteOptions {
+  enabled?: boolean; // default true, except for privileged routes (see FatZebraRouterOptions)
+  // Runs after the router's middleware and authorize, e.g. requireAuth() for one route
+  middleware?: MiddlewareFunction[];
+}
+
+export interface FatZebraRouterOptions extends StandaloneServerConfig {
+  // Path the router is mounted at, default '/api/fatzebra'
+  basePath?: string;
+  // Defaults to createStandaloneHandlers(options)
+  handlers?: StandaloneHandlers;
+  // Runs for every request before routing, so cors() can answer preflights
+  middleware?: MiddlewareFunction[];
+  // false (or { enabled: false }) answers 404 as if the route did not exist; privileged routes
+  // (capture, void, refund, transactionStatus, listCards, getCard, updateCardExpiry, deleteCard)
+  // need true or an options object
+  routes?: Partial<Record<FatZebraRouteName, boolean | FatZebraRouteOptions>>;
+  // Resolve false to answer 403; required when a privileged route is enabled
+  authorize?: (request: EnhancedRequest, route: FatZebraRouteName) => boolean | Promise<boolean>;
+}
+
 // OAuth related types
 export interface OAuthTokenRequest {
   grant_type: 'client_credentials';
@@ -249,6 +484,31 @@ export interface OAuthTokenResponse {
   scope?: string;
 }
 
+export interface OAuthTokenServiceOptions {
+  clientId: string;
+  clientSecret: string;
+  sandbox?: boolean; // default true
+  tokenUrl?: string; // defaults to /oauth/token on the sandbox or live gateway
+  scope?: string; // scope of server-side tokens
+  browserScope?: string; // scope of tokens issued to the browser, default 'payments'
+  refreshMargin?: number; // seconds before expiry a cached token is refreshed, default 60
+  timeout?: number; // ms, default 30000
+  fetch?: FetchLike;
+}
+
+export interface AccessTokenHandlerOptions {
+  // Resolve false to answer 403, e.g. when the caller has no session
+  authorize?: (request: StandaloneRequest) => boolean | Promise<boolean>;
+}
+
+// A cached access token; expiresAt is in ms since epoch
+export interface OAuthAccessToken {
+  accessToken: string;
+  tokenType: 'Bearer';
+  expiresAt: number;
+  scope?: string;
+}
+
 // Webhook types
 export interface WebhookPayload {
   event: string;
@@ -261,25 +521,122 @@ export interface WebhookVerificationResult {
   valid: boolean;
   event?: any;
   error?: string;
+  status?: number; // HTTP status to answer with when invalid
+  timestamp?: number;
+}
+
+// Typed webhook dispatch
+export type WebhookEventHandlers = {
+  [TType in WebhookEventType]?: (event: WebhookEventOfType<TType>) => void | Promise<void>;
+};
+
+// Records delivered webhook event IDs so replays can be rejected
+export interface WebhookEventStore {
+  // Record the event ID only if it is unseen; resolves false for a replay
+  add(eventId: string, ttlMs: number): Promise<boolean>;
+  delete(eventId: string): Promise<void>;
 }
 
+export interface WebhookVerificationOptions {
+  // HMAC-SHA256 secret; pass several while rotating and any of them is accepted
+  secret: string | string[];
+  // Defaults to x-fatzebra-signature, x-fatzebra-hmac or x-webhook-signature
+  signatureHeader?: string;
+  // Unix timestamp (seconds) header, default x-fatzebra-timestamp; when present it is signed as
+  // `${timestamp}.${rawBody}`
+  timestampHeader?: string;
+  tolerance?: number; // seconds the timestamp may differ from now, default 300
+  requireTimestamp?: boolean; // reject deliveries without a timestamp
+}
+
+export interface WebhookHandlerOptions extends WebhookVerificationOptions {
+  on?: WebhookEventHandlers;
+  // Called for event types without a handler; they are still acknowledged
+  onUnhandled?: (event: WebhookEvent) => void | Promise<void>;
+  // Seen event IDs, defaults to a per-handler MemoryWebhookEventStore
+  eventStore?: WebhookEventStore;
+  eventTtl?: number; // ms to remember event IDs, default 24 hours
+  // Persist events and acknowledge with 202; the inbox's handlers process them afterwards
+  inbox?: WebhookInbox;
+}
+
+// Webhook inbox types
+export type WebhookInboxStatus = 'pending' | 'processing' | 'processed' | 'failed' | 'dead';
+
+export interface WebhookInboxRecord {
+  event: WebhookEvent;
+  status: WebhookInboxStatus;
+  attempts: number;
+  receivedAt: number;
+  nextAttemptAt?: number; // when a failed event is retried
+  processedAt?: number;
+  lastError?: string;
+}
+
+export interface WebhookInboxFilter {
+  status?: WebhookInboxStatus | WebhookInboxStatus[];
+  receivedBefore?: number; // ms since epoch
+}
+
+export interface WebhookInboxStore {
+  // Store the record only if the event ID is new; resolves false when it already exists
+  add(record: WebhookInboxRecord): Promise<boolean>;
+  get(eventId: string): Promise<WebhookInboxRecord | undefined>;
+  update(record: WebhookInboxRecord): Promise<void>;
+  list(): Promise<WebhookInboxRecord[]>;
+  delete(eventId: string): Promise<void>;
+}
+
+export interface WebhookInboxOptions {
+  on: WebhookEventHandlers;
+  onUnhandled?: (event: WebhookEvent) => void | Promise<void>;
+  // Called once an event has used all its attempts
+  onDeadLetter?: (record: WebhookInboxRecord) => void | Promise<void>;
+  store?: WebhookInboxStore; // defaults to MemoryWebhookInboxStore
+  maxAttempts?: number; // default 5
+  retryDelay?: number; // ms before the first retry, doubled for each later one; default 1000
+  maxRetryDelay?: number; // ms, default 5 minutes
+  // Process received events in the background (default). Disable where timers do not outlive
+  // the request, e.g. serverless, and call processPending() from a scheduled job instead
+  autoProcess?: boolean;
+}
+
+// Liveness: the process is up. Readiness: configuration is present and the gateway answers
+export type HealthCheckType = 'liveness' | 'readiness';
+
 // Health check response
 export interface HealthCheckResponse {
   status: 'ok' | 'error';
   timestamp: string;
   version?: string;
   mode: 'nextjs' | 'standalone';
-  uptime?: number;
+  check?: HealthCheckType;
+  uptime?: number; // seconds since the server module was loaded
   dependencies?: {
     [key: string]: 'ok' | 'error';
   };
 }
 
+export interface HealthCheckOptions {
+  check?: HealthCheckType; // default 'liveness'
+  mode?: 'nextjs' | 'standalone'; // default 'standalone'
+  // Gateway credentials probed by readiness; missing credentials report `config: 'error'`
+  config?: FatZebraConfig | undefined;
+  // Environment variables readiness requires besides the credentials
+  requiredEnv?: string[];
+  timeout?: number; // gateway probe timeout in ms, default 5000
+  logger?: Logger | undefined;
+}
+
 // Caching types
 export interface CacheConfig {
   enabled?: boolean;
+  // Milliseconds a response is served from the cache, default 10 seconds
   ttl?: number;
+  // Entries kept by the in-memory store before the least recently used is evicted, default 500
   maxSize?: number;
+  // Defaults to an in-memory LRU store
+  store?: ResponseCacheStore;
 }
 
 export interface CacheItem<T = any> {
@@ -288,23 +645,15 @@ export interface CacheItem<T = any> {
   ttl: number;
 }
 
-// Logging types
-export interface LogEntry {
-  level: 'debug' | 'info' | 'warn' | 'error';
-  message: string;
-  timestamp: Date;
-  requestId?: string;
-  userId?: string;
-  ip?: string;
-  userAgent?: string;
-  metadata?: any;
+// Cached gateway responses; expired items are ignored, so a store may keep them until evicted
+export interface ResponseCacheStore {
+  get<T = any>(key: string): Promise<CacheItem<T> | undefined>;
+  set<T = any>(key: string, item: CacheItem<T>): Promise<void>;
+  delete(key: string): Promise<void>;
 }
 
-export interface LoggerConfig {
-  level?: 'debug' | 'info' | 'warn' | 'error';
-  format?: 'json' | 'text';
-  destination?: 'console' | 'file' | 'remote';
-  filename?: string;
-  maxSize?: number;
-  maxFiles?: number;
-}
+// Logging types (shared with the client and hooks)
+export type { LogEntry, LoggerConfig } from '../types';
+
+// Appends lines to LoggerConfig.filename; flush() resolves once queued lines are written
+export type FileLogWriter = LogWriter & { flush(): Promise<void> };
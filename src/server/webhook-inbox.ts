@@ -0,0 +1,361 @@
+/**
+ * Durable webhook inbox
+ *
+ * Verified events are persisted before the delivery is acknowledged and processed afterwards,
+ * so an event whose handler throws is retried with backoff instead of being lost. After
+ * maxAttempts failures an event is dead-lettered and kept until it is replayed or purged.
+ * Processing is at-least-once: handlers must tolerate seeing an event more than once.
+ */
+
+import type { WebhookEvent } from '../types';
+import { extractErrorMessage } from '../utils';
+import type {
+  WebhookInboxFilter,
+  WebhookInboxOptions,
+  WebhookInboxRecord,
+  WebhookInboxStore,
+} from './types';
+import { dispatchWebhookEvent } from './webhooks';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_MAX_RETRY_DELAY = 5 * 60 * 1000; // 5 minutes
+
+// Records are copied in and out so callers cannot mutate stored state
+function copyRecord(record: WebhookInboxRecord): WebhookInboxRecord {
+  return JSON.parse(JSON.stringify(record));
+}
+
+function clearRetry(record: WebhookInboxRecord, keepError = false): WebhookInboxRecord {
+  const result = { ...record };
+  delete result.nextAttemptAt;
+  if (!keepError) {
+    delete result.lastError;
+  }
+  return result;
+}
+
+function matchesFilter(record: WebhookInboxRecord, filter: WebhookInboxFilter): boolean {
+  const statuses = filter.status === undefined ? undefined : [filter.status].flat();
+
+  if (statuses && !statuses.includes(record.status)) {
+    return false;
+  }
+
+  return filter.receivedBefore === undefined || record.receivedAt < filter.receivedBefore;
+}
+
+/**
+ * In-memory inbox store (per process; events do not survive a restart)
+ */
+export class MemoryWebhookInboxStore implements WebhookInboxStore {
+  private records = new Map<string, WebhookInboxRecord>();
+
+  async add(record: WebhookInboxRecord): Promise<boolean> {
+    if (this.records.has(record.event.id)) {
+      return false;
+    }
+
+    this.records.set(record.event.id, copyRecord(record));
+    return true;
+  }
+
+  async get(eventId: string): Promise<WebhookInboxRecord | undefined> {
+    const record = this.records.get(eventId);
+    return record && copyRecord(record);
+  }
+
+  async update(record: WebhookInboxRecord): Promise<void> {
+    this.records.set(record.event.id, copyRecord(record));
+  }
+
+  async list(): Promise<WebhookInboxRecord[]> {
+    return Array.from(this.records.values(), copyRecord);
+  }
+
+  async delete(eventId: string): Promise<void> {
+    this.records.delete(eventId);
+  }
+}
+
+// fs errors carry an errno code such as ENOENT
+function hasErrorCode(error: unknown, code: string): boolean {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === code;
+}
+
+/**
+ * File-based inbox store (Node.js only): one JSON file per event in a directory
+ */
+export class FileWebhookInboxStore implements WebhookInboxStore {
+  constructor(private readonly directory: string) {}
+
+  async add(record: WebhookInboxRecord): Promise<boolean> {
+    const { mkdir, writeFile } = await import('fs/promises');
+    await mkdir(this.directory, { recursive: true });
+
+    try {
+      // 'wx' fails if the file exists, so concurrent deliveries of one event store it once
+      await writeFile(await this.filePath(record.event.id), JSON.stringify(record), {
+        encoding: 'utf8',
+        flag: 'wx',
+      });
+      return true;
+    } catch (error: unknown) {
+      if (hasErrorCode(error, 'EEXIST')) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async get(eventId: string): Promise<WebhookInboxRecord | undefined> {
+    const { readFile } = await import('fs/promises');
+
+    try {
+      return JSON.parse(await readFile(await this.filePath(eventId), 'utf8'));
+    } catch (error: unknown) {
+      if (hasErrorCode(error, 'ENOENT')) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async update(record: WebhookInboxRecord): Promise<void> {
+    const { mkdir, rename, writeFile } = await import('fs/promises');
+    const filePath = await this.filePath(record.event.id);
+    const tempPath = `${filePath}.${Date.now()}.tmp`;
+
+    // Write then rename so a crash never leaves a half-written record
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(tempPath, JSON.stringify(record), 'utf8');
+    await rename(tempPath, filePath);
+  }
+
+  async list(): Promise<WebhookInboxRecord[]> {
+    const { readdir } = await import('fs/promises');
+    let files: string[];
+
+    try {
+      files = await readdir(this.directory);
+    } catch (error: unknown) {
+      if (hasErrorCode(error, 'ENOENT')) {
+        return [];
+      }
+      throw error;
+    }
+
+    const records = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.get(decodeURIComponent(file.slice(0, -'.json'.length))))
+    );
+
+    return records.filter((record): record is WebhookInboxRecord => record !== undefined);
+  }
+
+  async delete(eventId: string): Promise<void> {
+    const { rm } = await import('fs/promises');
+    await rm(await this.filePath(eventId), { force: true });
+  }
+
+  private async filePath(eventId: string): Promise<string> {
+    const { join } = await import('path');
+    return join(this.directory, `${encodeURIComponent(eventId)}.json`);
+  }
+}
+
+export class WebhookInbox {
+  private store: WebhookInboxStore;
+  private maxAttempts: number;
+  private retryDelay: number;
+  private maxRetryDelay: number;
+  private autoProcess: boolean;
+  private running = new Map<string, Promise<WebhookInboxRecord | undefined>>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(private readonly options: WebhookInboxOptions) {
+    this.store = options.store ?? new MemoryWebhookInboxStore();
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+    this.maxRetryDelay = options.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY;
+    this.autoProcess = options.autoProcess ?? true;
+  }
+
+  /**
+   * Persist a verified event; resolves false when the event ID is already in the inbox
+   */
+  async receive(event: WebhookEvent): Promise<boolean> {
+    const added = await this.store.add({
+      event,
+      status: 'pending',
+      attempts: 0,
+      receivedAt: Date.now(),
+    });
+
+    if (added && this.autoProcess) {
+      this.schedule(event.id, 0);
+    }
+
+    return added;
+  }
+
+  /**
+   * Run the handler for one event now, recording the outcome
+   */
+  async process(eventId: string): Promise<WebhookInboxRecord | undefined> {
+    const running = this.running.get(eventId);
+
+    if (running) {
+      return running;
+    }
+
+    const attempt = this.attempt(eventId).finally(() => this.running.delete(eventId));
+    this.running.set(eventId, attempt);
+    return attempt;
+  }
+
+  /**
+   * Process every pending event and every failed event that is due for a retry. Events left
+   * in `processing` by a crashed process are picked up again.
+   */
+  async processPending(): Promise<number> {
+    const now = Date.now();
+    const due = (await this.store.list()).filter(
+      record =>
+        record.status === 'pending' ||
+        (record.status === 'processing' && !this.running.has(record.event.id)) ||
+        (record.status === 'failed' && (record.nextAttemptAt ?? 0) <= now)
+    );
+
+    for (const record of due) {
+      await this.process(record.event.id);
+    }
+
+    return due.length;
+  }
+
+  /**
+   * Inbox records, oldest first
+   */
+  async list(filter: WebhookInboxFilter = {}): Promise<WebhookInboxRecord[]> {
+    return (await this.store.list())
+      .filter(record => matchesFilter(record, filter))
+      .sort((a, b) => a.receivedAt - b.receivedAt);
+  }
+
+  /**
+   * Reset an event (typically dead-lettered) to a fresh set of attempts and process it now
+   */
+  async replay(eventId: string): Promise<WebhookInboxRecord | undefined> {
+    const record = await this.store.get(eventId);
+
+    if (!record) {
+      return undefined;
+    }
+
+    this.cancel(eventId);
+    await this.store.update({ ...clearRetry(record), status: 'pending', attempts: 0 });
+
+    return this.process(eventId);
+  }
+
+  /**
+   * Delete matching records; by default only processed events are removed
+   */
+  async purge(filter: WebhookInboxFilter = { status: 'processed' }): Promise<number> {
+    const records = await this.list(filter);
+
+    for (const record of records) {
+      this.cancel(record.event.id);
+      await this.store.delete(record.event.id);
+    }
+
+    return records.length;
+  }
+
+  /**
+   * Stop scheduled retries (stored events are kept)
+   */
+  close(): void {
+    for (const eventId of Array.from(this.timers.keys())) {
+      this.cancel(eventId);
+    }
+  }
+
+  private async attempt(eventId: string): Promise<WebhookInboxRecord | undefined> {
+    const record = await this.store.get(eventId);
+
+    if (!record || record.status === 'processed' || record.status === 'dead') {
+      return record;
+    }
+
+    record.status = 'processing';
+    record.attempts += 1;
+    await this.store.update(record);
+
+    try {
+      await dispatchWebhookEvent(record.event, this.options.on, this.options.onUnhandled);
+
+      const processed: WebhookInboxRecord = {
+        ...clearRetry(record),
+        status: 'processed',
+        processedAt: Date.now(),
+      };
+      await this.store.update(processed);
+      return processed;
+    } catch (error) {
+      record.lastError = extractErrorMessage(error);
+
+      if (record.attempts >= this.maxAttempts) {
+        const deadRecord: WebhookInboxRecord = { ...clearRetry(record, true), status: 'dead' };
+        await this.store.update(deadRecord);
+        await this.options.onDeadLetter?.(deadRecord);
+        return deadRecord;
+      }
+
+      const delay = Math.min(this.retryDelay * 2 ** (record.attempts - 1), this.maxRetryDelay);
+      record.status = 'failed';
+      record.nextAttemptAt = Date.now() + delay;
+      await this.store.update(record);
+
+      if (this.autoProcess) {
+        this.schedule(eventId, delay);
+      }
+
+      return record;
+    }
+  }
+
+  private schedule(eventId: string, delay: number): void {
+    this.cancel(eventId);
+
+    const timer = setTimeout(() => {
+      this.timers.delete(eventId);
+      // Failures are recorded on the event; nothing to surface here
+      this.process(eventId).catch(() => undefined);
+    }, delay);
+
+    // Do not keep a Node.js process alive just for retries
+    if (typeof timer === 'object' && 'unref' in timer) {
+      timer.unref();
+    }
+    this.timers.set(eventId, timer);
+  }
+
+  private cancel(eventId: string): void {
+    const timer = this.timers.get(eventId);
+
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(eventId);
+    }
+  }
+}
+
+/**
+ * Create a webhook inbox
+ */
+export function createWebhookInbox(options: WebhookInboxOptions): WebhookInbox {
+  return new WebhookInbox(options);
+}
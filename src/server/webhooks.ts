@@ -0,0 +1,236 @@
+/**
+ * Typed webhook dispatch
+ *
+ * createWebhookHandler verifies the signature over the raw request body, parses the event into
+ * the WebhookEvent union and calls the handler registered for its type. It works as a Next.js
+ * route handler and with standalone requests.
+ *
+ * Replay protection: a signed timestamp must fall inside the tolerance window, and each event ID
+ * is recorded in a WebhookEventStore so a second delivery of the same event is rejected.
+ */
+
+import { ValidationError } from '../types';
+import type { WebhookEvent } from '../types';
+import { verifyWebhookSignature } from '../utils/crypto';
+import { extractErrorMessage } from '../utils';
+import {
+  createResponse,
+  extractRawRequestData,
+  type StandaloneRequest,
+  type StandaloneResponse,
+  type WebhookEventHandlers,
+  type WebhookEventStore,
+  type WebhookHandlerOptions,
+  type WebhookVerificationOptions,
+  type WebhookVerificationResult,
+} from './types';
+
+const SIGNATURE_HEADERS = ['x-fatzebra-signature', 'x-fatzebra-hmac', 'x-webhook-signature'];
+const DEFAULT_TIMESTAMP_HEADER = 'x-fatzebra-timestamp';
+const DEFAULT_TOLERANCE = 300; // 5 minutes
+const DEFAULT_EVENT_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * In-memory webhook event store (per process; use a shared store when running multiple instances)
+ */
+export class MemoryWebhookEventStore implements WebhookEventStore {
+  private events = new Map<string, number>();
+
+  async add(eventId: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+
+    for (const [id, expiresAt] of this.events) {
+      if (expiresAt <= now) {
+        this.events.delete(id);
+      }
+    }
+
+    if (this.events.has(eventId)) {
+      return false;
+    }
+
+    this.events.set(eventId, now + ttlMs);
+    return true;
+  }
+
+  async delete(eventId: string): Promise<void> {
+    this.events.delete(eventId);
+  }
+}
+
+/**
+ * Verify a webhook delivery's signature and timestamp against the raw body
+ *
+ * Headers must be lowercased (see extractRawRequestData). Every configured secret is checked
+ * with a constant-time comparison.
+ */
+export async function verifyWebhookRequest(
+  rawBody: string,
+  headers: Record<string, string>,
+  options: WebhookVerificationOptions
+): Promise<WebhookVerificationResult> {
+  const signatureHeaders = options.signatureHeader
+    ? [options.signatureHeader.toLowerCase()]
+    : SIGNATURE_HEADERS;
+  const signature = signatureHeaders.map(name => headers[name]).find(Boolean);
+
+  if (!signature) {
+    return { valid: false, status: 400, error: 'Missing webhook signature' };
+  }
+
+  const timestampHeader = (options.timestampHeader ?? DEFAULT_TIMESTAMP_HEADER).toLowerCase();
+  const timestampValue = headers[timestampHeader];
+  let timestamp: number | undefined;
+
+  if (timestampValue) {
+    timestamp = Number(timestampValue);
+
+    if (!Number.isInteger(timestamp)) {
+      return { valid: false, status: 400, error: 'Invalid webhook timestamp' };
+    }
+
+    const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+    if (Math.abs(Date.now() / 1000 - timestamp) > tolerance) {
+      return {
+        valid: false,
+        status: 401,
+        error: 'Webhook timestamp is outside the tolerance window',
+      };
+    }
+  } else if (options.requireTimestamp) {
+    return { valid: false, status: 400, error: 'Missing webhook timestamp' };
+  }
+
+  const signedPayload = timestampValue ? `${timestampValue}.${rawBody}` : rawBody;
+  const secrets = (Array.isArray(options.secret) ? options.secret : [options.secret]).filter(
+    Boolean
+  );
+  let valid = false;
+
+  // Check every secret so timing does not reveal which one matched
+  for (const secret of secrets) {
+    valid = (await verifyWebhookSignature(signedPayload, signature, secret)) || valid;
+  }
+
+  if (!valid) {
+    return { valid: false, status: 401, error: 'Invalid webhook signature' };
+  }
+
+  return { valid: true, ...(timestamp !== undefined && { timestamp }) };
+}
+
+/**
+ * Parse a raw webhook body into a WebhookEvent
+ *
+ * Events of a type this version does not know are returned as-is so they can be acknowledged.
+ */
+export function parseWebhookEvent(rawBody: string): WebhookEvent {
+  let event: any;
+
+  try {
+    event = JSON.parse(rawBody);
+  } catch {
+    throw new ValidationError('Webhook payload is not valid JSON');
+  }
+
+  if (
+    !event ||
+    typeof event !== 'object' ||
+    typeof event.id !== 'string' ||
+    typeof event.type !== 'string' ||
+    !event.data ||
+    typeof event.data !== 'object'
+  ) {
+    throw new ValidationError('Webhook payload must include id, type and data');
+  }
+
+  return event as WebhookEvent;
+}
+
+/**
+ * Call the handler registered for an event's type, or onUnhandled; resolves whether a typed
+ * handler ran
+ */
+export async function dispatchWebhookEvent(
+  event: WebhookEvent,
+  on: WebhookEventHandlers = {},
+  onUnhandled?: (event: WebhookEvent) => void | Promise<void>
+): Promise<boolean> {
+  const handler = on[event.type] as ((event: WebhookEvent) => void | Promise<void>) | undefined;
+
+  if (handler) {
+    await handler(event);
+  } else if (onUnhandled) {
+    await onUnhandled(event);
+  }
+
+  return !!handler;
+}
+
+/**
+ * Create a route handler that verifies, parses and dispatches webhook events
+ *
+ * Responds 405 for non-POST requests, 400 for a missing signature or malformed payload, 401 for
+ * an invalid signature or stale timestamp and 500 when a handler throws. A failed event is
+ * forgotten so the gateway's retry is processed. An event ID that was already received is
+ * acknowledged with 200 and `duplicate: true` without running the handlers again, so the gateway
+ * stops retrying a delivery whose acknowledgement was lost.
+ *
+ * With an inbox, events are persisted and acknowledged with 202; the inbox runs the handlers.
+ */
+export function createWebhookHandler(
+  options: WebhookHandlerOptions
+): (request: StandaloneRequest | Request) => Promise<StandaloneResponse> {
+  const eventStore = options.eventStore ?? new MemoryWebhookEventStore();
+  const eventTtl = options.eventTtl ?? DEFAULT_EVENT_TTL;
+
+  return async request => {
+    try {
+      const { method, rawBody, headers } = await extractRawRequestData(request);
+
+      if (method !== 'POST') {
+        return createResponse({ error: 'Method not allowed' }, 405);
+      }
+
+      const verification = await verifyWebhookRequest(rawBody, headers, options);
+
+      if (!verification.valid) {
+        return createResponse(
+          { successful: false, errors: [verification.error ?? 'Invalid webhook signature'] },
+          verification.status ?? 401
+        );
+      }
+
+      let event: WebhookEvent;
+      try {
+        event = parseWebhookEvent(rawBody);
+      } catch (error) {
+        return createResponse({ successful: false, errors: [extractErrorMessage(error)] }, 400);
+      }
+
+      if (options.inbox) {
+        if (!(await options.inbox.receive(event))) {
+          return createResponse({ received: true, id: event.id, duplicate: true });
+        }
+
+        return createResponse({ received: true, id: event.id, queued: true }, 202);
+      }
+
+      if (!(await eventStore.add(event.id, eventTtl))) {
+        return createResponse({ received: true, id: event.id, duplicate: true });
+      }
+
+      let handled: boolean;
+      try {
+        handled = await dispatchWebhookEvent(event, options.on, options.onUnhandled);
+      } catch (error) {
+        await eventStore.delete(event.id);
+        return createResponse({ successful: false, errors: ['Webhook handler failed'] }, 500);
+      }
+
+      return createResponse({ received: true, id: event.id, handled });
+    } catch (error) {
+      return createResponse({ successful: false, errors: [extractErrorMessage(error)] }, 500);
+    }
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Record/replay cassettes for the client transport
+ *
+ * In record mode a cassette wraps a real transport (e.g. the sandbox) and captures each
+ * interaction with card numbers, CVVs, expiry dates and credentials redacted. In replay mode it
+ * answers requests from the recorded interactions without touching the network. Requests match
+ * on method, path and normalized body; identical requests are replayed in recorded order.
+ */
+
+import type { FetchLike } from '../types';
+import { redactSensitiveData } from '../utils/redact';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    path: string;
+    body?: any;
+  };
+  response: {
+    status: number;
+    body: any;
+  };
+}
+
+export interface CassetteData {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+export interface CassetteOptions {
+  mode?: CassetteMode; // default 'replay'
+  fetch?: FetchLike; // transport to record from, defaults to the global fetch
+  ignoreFields?: string[]; // body fields left out of matching, e.g. generated references
+}
+
+function parseBody(body: unknown): any {
+  if (typeof body !== 'string' || body === '') {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+// JSON with object keys sorted so equal bodies compare equal
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
+
+export class Cassette {
+  private interactions: CassetteInteraction[];
+  private replayed = new Set<number>();
+  private mode: CassetteMode;
+  private transport: FetchLike | undefined;
+  private ignoreFields: string[];
+
+  constructor(data: CassetteData | undefined, options: CassetteOptions = {}) {
+    this.interactions = data?.interactions ?? [];
+    this.mode = options.mode ?? 'replay';
+    this.transport = options.fetch;
+    this.ignoreFields = options.ignoreFields ?? [];
+  }
+
+  /**
+   * Fetch-compatible transport for FatZebraConfig.fetch
+   */
+  readonly fetch: FetchLike = async (url, init) => {
+    const { pathname, search } = new URL(url);
+    const request = {
+      method: (init.method ?? 'GET').toUpperCase(),
+      path: `${pathname}${search}`,
+      body: redactSensitiveData(parseBody(init.body)),
+    };
+
+    return this.mode === 'record' ? this.record(url, init, request) : this.replay(request);
+  };
+
+  /**
+   * Recorded interactions
+   */
+  get size(): number {
+    return this.interactions.length;
+  }
+
+  toJSON(): CassetteData {
+    return { version: 1, interactions: this.interactions };
+  }
+
+  /**
+   * Write the cassette to a JSON fixture (Node.js only)
+   */
+  async save(filePath: string): Promise<void> {
+    const { mkdir, writeFile } = await import('fs/promises');
+    const { dirname } = await import('path');
+
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, `${JSON.stringify(this.toJSON(), null, 2)}\n`, 'utf8');
+  }
+
+  private async record(
+    url: string,
+    init: RequestInit,
+    request: CassetteInteraction['request']
+  ): Promise<Response> {
+    const transport = this.transport ?? fetch;
+    const response = await transport(url, init);
+    const text = await response.clone().text();
+
+    this.interactions.push({
+      request,
+      response: { status: response.status, body: redactSensitiveData(parseBody(text)) },
+    });
+
+    return response;
+  }
+
+  private replay(request: CassetteInteraction['request']): Response {
+    const key = this.matchKey(request);
+    const index = this.interactions.findIndex(
+      (interaction, i) => !this.replayed.has(i) && this.matchKey(interaction.request) === key
+    );
+
+    if (index === -1) {
+      throw new Error(`No cassette interaction matches ${request.method} ${request.path}`);
+    }
+
+    this.replayed.add(index);
+    const { response } = this.interactions[index];
+
+    return new Response(response.body === undefined ? null : JSON.stringify(response.body), {
+      status: response.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  private matchKey(request: CassetteInteraction['request']): string {
+    let body = request.body;
+
+    if (body && typeof body === 'object' && !Array.isArray(body)) {
+      body = { ...body };
+      for (const field of this.ignoreFields) {
+        delete body[field];
+      }
+    }
+
+    return `${request.method} ${request.path} ${stableStringify(body)}`;
+  }
+}
+
+/**
+ * Load a cassette fixture (Node.js only). In record mode the fixture is not read; recording
+ * starts empty and replaces the file on save.
+ */
+export async function loadCassette(
+  filePath: string,
+  options: CassetteOptions = {}
+): Promise<Cassette> {
+  if (options.mode === 'record') {
+    return new Cassette(undefined, options);
+  }
+
+  const { readFile } = await import('fs/promises');
+  return new Cassette(JSON.parse(await readFile(filePath, 'utf8')), options);
+}
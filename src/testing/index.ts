@@ -0,0 +1,17 @@
+/**
+ * Testing module exports
+ *
+ * Development and test helpers; not intended for production bundles.
+ */
+
+export { MockGateway, createMockGateway } from './mock-gateway';
+export type { MockGatewayOptions, MockGatewayServer } from './mock-gateway';
+export {
+  TEST_SCENARIOS,
+  resolveTestScenario,
+  simulateTransaction,
+  createScenarioTransport,
+} from './scenarios';
+export type { TestScenario, TestScenarioDefinition, SimulatedTransaction } from './scenarios';
+export { Cassette, loadCassette } from './cassette';
+export type { CassetteMode, CassetteData, CassetteInteraction, CassetteOptions } from './cassette';
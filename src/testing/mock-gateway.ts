@@ -0,0 +1,476 @@
+/**
+ * Local mock Fat Zebra gateway
+ *
+ * An in-memory stand-in for the gateway's /v1.0 API for tests and local development. Point a
+ * client at it in process with `fetch: gateway.fetch`, or call `listen()` and use the returned
+ * URL as `gatewayUrl`. Purchases and authorizations follow TEST_SCENARIOS: the *_DECLINE cards
+ * are declined with response code 05, and magic amounts simulate other issuer responses.
+ */
+
+import { TimeoutError } from '../types';
+import type {
+  FetchLike,
+  FatZebraResponse,
+  StoredCardResponse,
+  TransactionResponse,
+} from '../types';
+import { extractErrorMessage, getCardType, luhnCheck } from '../utils';
+import { encodeBase64 } from '../utils/crypto';
+import { isMinorUnitAmount } from '../utils/money';
+import { simulateTransaction } from './scenarios';
+
+export interface MockGatewayOptions {
+  // When both are set, requests must authenticate with these credentials
+  username?: string;
+  token?: string;
+}
+
+export interface MockGatewayServer {
+  url: string; // use as the client's gatewayUrl
+  close(): Promise<void>;
+}
+
+interface MockResult {
+  status: number;
+  body: FatZebraResponse;
+  timedOut?: boolean;
+}
+
+interface TransactionRecord {
+  transaction: TransactionResponse;
+  refunded: number;
+  voided: boolean;
+}
+
+interface CardRecord {
+  card: StoredCardResponse;
+  cardNumber: string;
+}
+
+const EXPIRY_PATTERN = /^(0[1-9]|1[0-2])\/(\d{2}|\d{4})$/;
+
+function ok(response: any): MockResult {
+  return { status: 200, body: { successful: true, response, errors: [], test: true } };
+}
+
+function fail(status: number, message: string): MockResult {
+  return { status, body: { successful: false, errors: [message], test: true } };
+}
+
+function maskCardNumber(cardNumber: string): string {
+  return `${'*'.repeat(cardNumber.length - 4)}${cardNumber.slice(-4)}`;
+}
+
+export class MockGateway {
+  private transactions = new Map<string, TransactionRecord>();
+  private cards = new Map<string, CardRecord>();
+  private idempotentResults = new Map<string, MockResult>();
+  private sequence = 0;
+
+  constructor(private options: MockGatewayOptions = {}) {}
+
+  /**
+   * Fetch-compatible transport for FatZebraConfig.fetch; the timeout scenario rejects with
+   * TimeoutError as a client-side timeout would
+   */
+  readonly fetch: FetchLike = async (url, init) => {
+    const result = await this.dispatch(new Request(url, init));
+
+    if (result.timedOut) {
+      throw new TimeoutError();
+    }
+
+    return this.toResponse(result);
+  };
+
+  /**
+   * Handle a gateway API request; the timeout scenario answers 504
+   */
+  async handle(request: Request): Promise<Response> {
+    return this.toResponse(await this.dispatch(request));
+  }
+
+  private toResponse(result: MockResult): Response {
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  /**
+   * Serve the mock gateway over HTTP (Node.js only), e.g. for local Next.js development
+   */
+  async listen(port: number = 0, hostname: string = '127.0.0.1'): Promise<MockGatewayServer> {
+    const { createServer } = await import('http');
+
+    const server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', async () => {
+        let response: Response;
+
+        try {
+          const headers = new Headers();
+          for (const [name, value] of Object.entries(req.headers)) {
+            if (value !== undefined) {
+              headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+            }
+          }
+
+          const body = Buffer.concat(chunks).toString('utf8');
+          response = await this.handle(
+            new Request(`http://${hostname}${req.url ?? '/'}`, {
+              method: req.method ?? 'GET',
+              headers,
+              ...(body && { body }),
+            })
+          );
+        } catch (error) {
+          // Answer instead of leaving the socket open until the caller times out
+          response = this.toResponse(fail(500, extractErrorMessage(error)));
+        }
+
+        res.writeHead(response.status, Object.fromEntries(response.headers));
+        res.end(await response.text());
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, hostname, () => resolve());
+    });
+
+    const address = server.address();
+    const boundPort = typeof address === 'object' && address ? address.port : port;
+
+    return {
+      url: `http://${hostname}:${boundPort}`,
+      close: () =>
+        new Promise<void>((resolve, reject) => {
+          server.close(error => (error ? reject(error) : resolve()));
+          // Idle keep-alive sockets would otherwise hold close() open (Node.js 18)
+          server.closeIdleConnections();
+        }),
+    };
+  }
+
+  /**
+   * Look up a stored transaction (purchases, authorizations and refunds)
+   */
+  getTransaction(id: string): TransactionResponse | undefined {
+    return this.transactions.get(id)?.transaction;
+  }
+
+  /**
+   * Clear all transactions, cards and idempotency records
+   */
+  reset(): void {
+    this.transactions.clear();
+    this.cards.clear();
+    this.idempotentResults.clear();
+    this.sequence = 0;
+  }
+
+  private async dispatch(request: Request): Promise<MockResult> {
+    if (!this.isAuthorized(request)) {
+      return fail(401, 'Invalid credentials');
+    }
+
+    const { pathname, searchParams } = new URL(request.url);
+    const path = pathname.replace(/^\/v1\.0/, '');
+    const method = request.method.toUpperCase();
+
+    if (path === pathname) {
+      return fail(404, 'Not found');
+    }
+
+    let body: any = {};
+    const text = await request.text();
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return fail(400, 'Request body must be valid JSON');
+      }
+    }
+
+    const idempotencyKey = request.headers.get('idempotency-key');
+    const replay = idempotencyKey && this.idempotentResults.get(idempotencyKey);
+    if (replay) {
+      return replay;
+    }
+
+    const result = this.route(method, path, body, searchParams);
+
+    if (idempotencyKey && method === 'POST' && result.status < 500) {
+      this.idempotentResults.set(idempotencyKey, result);
+    }
+
+    return result;
+  }
+
+  private route(
+    method: string,
+    path: string,
+    body: any,
+    searchParams: URLSearchParams
+  ): MockResult {
+    const purchase = path.match(/^\/purchases\/([^/]+)(?:\/(capture|void))?$/);
+    const card = path.match(/^\/credit_cards\/([^/]+)$/);
+
+    if (path === '/purchases' && method === 'POST') return this.purchase(body);
+    if (path === '/refunds' && method === 'POST') return this.refund(body);
+    if (path === '/credit_cards' && method === 'POST') return this.tokenize(body);
+    if (path === '/credit_cards' && method === 'GET') return this.listCards(searchParams);
+
+    if (purchase) {
+      const id = decodeURIComponent(purchase[1]);
+      if (!purchase[2] && method === 'GET') return this.fetchTransaction(id);
+      if (purchase[2] === 'capture' && method === 'POST') return this.capture(id, body);
+      if (purchase[2] === 'void' && method === 'POST') return this.void(id);
+    }
+
+    if (card) {
+      const token = decodeURIComponent(card[1]);
+      if (method === 'GET') return this.getCard(token);
+      if (method === 'PUT') return this.updateCard(token, body);
+      if (method === 'DELETE') return this.deleteCard(token);
+    }
+
+    return fail(404, 'Not found');
+  }
+
+  private isAuthorized(request: Request): boolean {
+    const { username, token } = this.options;
+
+    if (!username || !token) {
+      return true;
+    }
+
+    return request.headers.get('authorization') === `Basic ${encodeBase64(`${username}:${token}`)}`;
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}-${String(this.sequence).padStart(6, '0')}`;
+  }
+
+  private purchase(body: any): MockResult {
+    if (!isMinorUnitAmount(body.amount) || body.amount === 0) {
+      return fail(422, 'Amount must be a positive integer in minor units');
+    }
+
+    let cardNumber: string;
+    let cardHolder: string;
+
+    if (body.card_token) {
+      const record = this.cards.get(body.card_token);
+      if (!record) {
+        return fail(422, 'Card token not found');
+      }
+
+      record.card.transaction_count = (record.card.transaction_count ?? 0) + 1;
+      record.card.last_used_at = new Date().toISOString();
+      cardNumber = record.cardNumber;
+      cardHolder = record.card.card_holder;
+    } else {
+      const error = this.validateCard(body);
+      if (error) {
+        return error;
+      }
+
+      cardNumber = String(body.card_number).replace(/\D/g, '');
+      cardHolder = body.card_holder;
+    }
+
+    const id = this.nextId('MOCK-P');
+    let transaction: TransactionResponse;
+
+    try {
+      transaction = simulateTransaction(
+        { ...body, card_number: cardNumber, card_holder: cardHolder },
+        id
+      );
+    } catch (error) {
+      if (error instanceof TimeoutError) {
+        return { ...fail(504, 'Gateway timeout'), timedOut: true };
+      }
+
+      throw error;
+    }
+
+    this.transactions.set(id, { transaction, refunded: 0, voided: false });
+    return ok(transaction);
+  }
+
+  private fetchTransaction(id: string): MockResult {
+    const record = this.transactions.get(id);
+    return record ? ok(record.transaction) : fail(404, 'Transaction not found');
+  }
+
+  private capture(id: string, body: any): MockResult {
+    const record = this.transactions.get(id);
+
+    if (!record) {
+      return fail(404, 'Transaction not found');
+    }
+
+    const { transaction } = record;
+
+    if (!transaction.successful || record.voided) {
+      return fail(422, 'Transaction cannot be captured');
+    }
+
+    if (transaction.captured) {
+      return fail(422, 'Transaction has already been captured');
+    }
+
+    const amount = body.amount ?? transaction.amount;
+
+    if (!isMinorUnitAmount(amount) || amount === 0 || amount > transaction.amount) {
+      return fail(422, 'Capture amount must not exceed the authorized amount');
+    }
+
+    transaction.amount = amount;
+    transaction.captured = true;
+    return ok(transaction);
+  }
+
+  private void(id: string): MockResult {
+    const record = this.transactions.get(id);
+
+    if (!record) {
+      return fail(404, 'Transaction not found');
+    }
+
+    if (!record.transaction.successful || record.voided || record.refunded > 0) {
+      return fail(422, 'Transaction cannot be voided');
+    }
+
+    record.voided = true;
+    record.transaction.message = 'Voided';
+    return ok(record.transaction);
+  }
+
+  private refund(body: any): MockResult {
+    const record = this.transactions.get(body.transaction_id);
+
+    if (!record) {
+      return fail(404, 'Transaction not found');
+    }
+
+    const { transaction } = record;
+
+    if (!transaction.successful || !transaction.captured || record.voided) {
+      return fail(422, 'Transaction cannot be refunded');
+    }
+
+    const remaining = transaction.amount - record.refunded;
+    const amount = body.amount ?? remaining;
+
+    if (!isMinorUnitAmount(amount) || amount === 0 || amount > remaining) {
+      return fail(422, 'Refund amount must not exceed the remaining balance');
+    }
+
+    const id = this.nextId('MOCK-R');
+    const now = new Date();
+    const refund: TransactionResponse = {
+      ...transaction,
+      id,
+      transaction_id: id,
+      amount,
+      reference: body.reference || `${transaction.reference}-REFUND`,
+      message: 'Approved',
+      settlement_date: now.toISOString().slice(0, 10),
+      created_at: now.toISOString(),
+      response_code: '00',
+    };
+
+    record.refunded += amount;
+    this.transactions.set(id, { transaction: refund, refunded: 0, voided: false });
+    return ok(refund);
+  }
+
+  private tokenize(body: any): MockResult {
+    const error = this.validateCard(body);
+    if (error) {
+      return error;
+    }
+
+    const cardNumber = String(body.card_number).replace(/\D/g, '');
+    const card: StoredCardResponse = {
+      token: this.nextId('mock-card'),
+      card_holder: body.card_holder,
+      card_number: maskCardNumber(cardNumber),
+      card_type: getCardType(cardNumber),
+      expiry_date: body.card_expiry,
+      created_at: new Date().toISOString(),
+      transaction_count: 0,
+    };
+
+    this.cards.set(card.token, { card, cardNumber });
+    return ok(card);
+  }
+
+  private listCards(searchParams: URLSearchParams): MockResult {
+    const page = Math.max(Number(searchParams.get('page')) || 1, 1);
+    const perPage = Math.max(Number(searchParams.get('per_page')) || 10, 1);
+    const cards = Array.from(this.cards.values(), record => record.card);
+
+    return ok(cards.slice((page - 1) * perPage, page * perPage));
+  }
+
+  private getCard(token: string): MockResult {
+    const record = this.cards.get(token);
+    return record ? ok(record.card) : fail(404, 'Card not found');
+  }
+
+  private updateCard(token: string, body: any): MockResult {
+    const record = this.cards.get(token);
+
+    if (!record) {
+      return fail(404, 'Card not found');
+    }
+
+    if (!EXPIRY_PATTERN.test(body.card_expiry ?? '')) {
+      return fail(422, 'Card expiry is invalid');
+    }
+
+    record.card.expiry_date = body.card_expiry;
+    return ok(record.card);
+  }
+
+  private deleteCard(token: string): MockResult {
+    if (!this.cards.delete(token)) {
+      return fail(404, 'Card not found');
+    }
+
+    return ok({ token, deleted: true });
+  }
+
+  private validateCard(body: any): MockResult | undefined {
+    const cardNumber = String(body.card_number ?? '').replace(/\D/g, '');
+
+    if (!cardNumber || !luhnCheck(cardNumber)) {
+      return fail(422, 'Card number is invalid');
+    }
+
+    if (!body.card_holder) {
+      return fail(422, 'Card holder is required');
+    }
+
+    if (!EXPIRY_PATTERN.test(body.card_expiry ?? '')) {
+      return fail(422, 'Card expiry is invalid');
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Create a mock gateway instance
+ */
+export function createMockGateway(options: MockGatewayOptions = {}): MockGateway {
+  return new MockGateway(options);
+}
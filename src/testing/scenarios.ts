@@ -0,0 +1,199 @@
+/**
+ * Test card scenarios
+ *
+ * A catalogue of gateway outcomes keyed by test card number or magic amount, and a simulator
+ * that produces the matching TransactionResponse (or TimeoutError). Magic amounts match on the
+ * last two digits of the minor-unit amount, so 10051 ($100.51) simulates insufficient funds with
+ * any card. Card scenarios take precedence over amounts.
+ */
+
+import { TEST_CARDS, TimeoutError } from '../types';
+import type {
+  AuthorizationRequest,
+  FetchLike,
+  PurchaseRequest,
+  TransactionResponse,
+} from '../types';
+import { getCardType } from '../utils';
+
+export type TestScenario =
+  | 'approved'
+  | 'declined'
+  | 'insufficient_funds'
+  | 'expired_card'
+  | 'suspected_fraud'
+  | 'timeout'
+  | '3ds_challenge'
+  | 'partial_approval';
+
+export interface TestScenarioDefinition {
+  scenario: TestScenario;
+  description: string;
+  cardNumbers: string[];
+  amountSuffix?: number; // last two digits of the minor-unit amount
+  responseCode?: string;
+  message: string;
+}
+
+// Simulated transaction; 3DS challenges carry the URL the cardholder must visit
+export interface SimulatedTransaction extends TransactionResponse {
+  threeds_challenge_url?: string;
+}
+
+export const TEST_SCENARIOS: Record<TestScenario, TestScenarioDefinition> = {
+  approved: {
+    scenario: 'approved',
+    description: 'Approved for the full amount',
+    cardNumbers: [TEST_CARDS.VISA_SUCCESS, TEST_CARDS.MASTERCARD_SUCCESS, TEST_CARDS.AMEX_SUCCESS],
+    responseCode: '00',
+    message: 'Approved',
+  },
+  declined: {
+    scenario: 'declined',
+    description: 'Declined by the issuer',
+    cardNumbers: [TEST_CARDS.VISA_DECLINE, TEST_CARDS.MASTERCARD_DECLINE, TEST_CARDS.AMEX_DECLINE],
+    amountSuffix: 5,
+    responseCode: '05',
+    message: 'Declined',
+  },
+  insufficient_funds: {
+    scenario: 'insufficient_funds',
+    description: 'Declined for insufficient funds',
+    cardNumbers: [],
+    amountSuffix: 51,
+    responseCode: '51',
+    message: 'Insufficient funds',
+  },
+  expired_card: {
+    scenario: 'expired_card',
+    description: 'Declined because the card has expired',
+    cardNumbers: [],
+    amountSuffix: 54,
+    responseCode: '54',
+    message: 'Expired card',
+  },
+  suspected_fraud: {
+    scenario: 'suspected_fraud',
+    description: 'Declined as suspected fraud',
+    cardNumbers: [],
+    amountSuffix: 59,
+    responseCode: '59',
+    message: 'Suspected fraud',
+  },
+  timeout: {
+    scenario: 'timeout',
+    description: 'The gateway does not answer in time',
+    cardNumbers: [],
+    amountSuffix: 91,
+    message: 'Request timeout',
+  },
+  '3ds_challenge': {
+    scenario: '3ds_challenge',
+    description: 'The issuer requires a 3DS challenge',
+    cardNumbers: [TEST_CARDS.VISA_3DS_SUCCESS],
+    message: 'Cardholder authentication required',
+  },
+  partial_approval: {
+    scenario: 'partial_approval',
+    description: 'Approved for half of the requested amount',
+    cardNumbers: [],
+    amountSuffix: 10,
+    responseCode: '10',
+    message: 'Approved for partial amount',
+  },
+};
+
+const SCENARIO_DEFINITIONS = Object.values(TEST_SCENARIOS);
+
+/**
+ * Resolve the scenario a card number and minor-unit amount trigger
+ */
+export function resolveTestScenario(cardNumber: string, amount: number): TestScenario {
+  const digits = cardNumber.replace(/\D/g, '');
+  const byCard = SCENARIO_DEFINITIONS.find(
+    definition => definition.scenario !== 'approved' && definition.cardNumbers.includes(digits)
+  );
+
+  if (byCard) {
+    return byCard.scenario;
+  }
+
+  const byAmount = SCENARIO_DEFINITIONS.find(
+    definition => definition.amountSuffix !== undefined && amount % 100 === definition.amountSuffix
+  );
+
+  return byAmount?.scenario ?? 'approved';
+}
+
+/**
+ * Simulate the gateway's answer to a purchase or authorization
+ *
+ * @throws TimeoutError for the timeout scenario
+ */
+export function simulateTransaction(
+  request: PurchaseRequest | AuthorizationRequest,
+  id: string = `SIM-${Date.now()}`
+): SimulatedTransaction {
+  const cardNumber = (request.card_number ?? '').replace(/\D/g, '');
+  const scenario = resolveTestScenario(cardNumber, request.amount);
+  const definition = TEST_SCENARIOS[scenario];
+
+  if (scenario === 'timeout') {
+    throw new TimeoutError();
+  }
+
+  const approved = scenario === 'approved' || scenario === 'partial_approval';
+  const now = new Date();
+
+  return {
+    id,
+    transaction_id: id,
+    amount: scenario === 'partial_approval' ? Math.floor(request.amount / 2) : request.amount,
+    currency: request.currency || 'AUD',
+    reference: request.reference || id,
+    message: definition.message,
+    successful: approved,
+    settlement_date: now.toISOString().slice(0, 10),
+    card_holder: request.card_holder,
+    card_number: cardNumber ? `${'*'.repeat(cardNumber.length - 4)}${cardNumber.slice(-4)}` : '',
+    card_type: getCardType(cardNumber),
+    authorization: approved ? id.slice(-6) : '',
+    captured: approved && (request as AuthorizationRequest).capture !== false,
+    created_at: now.toISOString(),
+    ...(definition.responseCode && { response_code: definition.responseCode }),
+    ...(scenario === '3ds_challenge' && {
+      threeds_challenge_url: `https://3ds.sandbox.fatzebra.com.au/challenge/${id}`,
+    }),
+    ...(request.metadata && { metadata: request.metadata }),
+  };
+}
+
+/**
+ * Stub transport for FatZebraClient tests that answers purchases and authorizations with
+ * simulated scenarios. Other endpoints return 404; use MockGateway for stateful flows.
+ */
+export function createScenarioTransport(): FetchLike {
+  let sequence = 0;
+
+  return async (url, init) => {
+    const { pathname } = new URL(url);
+
+    if (init.method !== 'POST' || !pathname.endsWith('/purchases')) {
+      return new Response(JSON.stringify({ successful: false, errors: ['Not found'] }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    sequence += 1;
+    const transaction = simulateTransaction(
+      JSON.parse(String(init.body)),
+      `SIM-${String(sequence).padStart(6, '0')}`
+    );
+
+    return new Response(
+      JSON.stringify({ successful: true, response: transaction, errors: [], test: true }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  };
+}
@@ -9,9 +9,106 @@ export interface FatZebraConfig {
   sandbox?: boolean;
   gatewayUrl?: string;
   timeout?: number;
+  retry?: RetryPolicy;
+  fetch?: FetchLike; // defaults to the global fetch
+  userAgent?: string;
+  interceptors?: {
+    request?: RequestInterceptor[];
+    response?: ResponseInterceptor[];
+  };
+  logger?: Logger; // gateway requests, retries and failures (redacted); silent by default
+}
+
+// Transport used to reach the gateway (e.g. a proxy-aware fetch, a recorder or an edge fetch)
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+// Outgoing gateway request as seen by request interceptors
+export interface GatewayRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+// Gateway response as seen by response interceptors
+export interface GatewayResponse {
+  request: GatewayRequest;
+  status: number;
+  headers: Headers;
+  data: any;
+  duration: number; // ms
+}
+
+/**
+ * Runs before each attempt is sent; may modify the request in place or return a replacement
+ */
+export type RequestInterceptor = (
+  request: GatewayRequest
+) => GatewayRequest | void | Promise<GatewayRequest | void>;
+
+/**
+ * Runs after each response is received, before it is mapped to a result or error
+ */
+export type ResponseInterceptor = (response: GatewayResponse) => void | Promise<void>;
+
+/**
+ * Retry policy for gateway requests
+ *
+ * Only network errors, timeouts, 429 and 5xx responses are retried, and POST requests are only
+ * retried when they carry an idempotency key. Declines and validation failures are never retried.
+ */
+export interface RetryPolicy {
+  maxRetries?: number; // default 2
+  baseDelay?: number; // ms, default 250
+  maxDelay?: number; // ms, default 5000
+  jitter?: boolean; // default true
+  shouldRetry?: (error: FatZebraError, attempt: number) => boolean; // narrows the defaults
+}
+
+// Logging Types
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  level: LogLevel;
+  message: string;
+  timestamp: Date;
+  requestId?: string;
+  userId?: string;
+  ip?: string;
+  userAgent?: string;
+  metadata?: any;
+}
+
+// Fields added to every entry written by a logger (see Logger.child)
+export type LogContext = Pick<LogEntry, 'requestId' | 'userId' | 'ip' | 'userAgent'>;
+
+// Receives each formatted line; used for custom and remote destinations
+export type LogWriter = (line: string, entry: LogEntry) => void | Promise<void>;
+
+export interface LoggerConfig {
+  level?: LogLevel; // default 'info'
+  format?: 'json' | 'text'; // default 'text'
+  destination?: 'console' | 'file' | 'remote';
+  filename?: string;
+  maxSize?: number; // bytes before the file is rotated
+  maxFiles?: number; // rotated files kept
+  write?: LogWriter; // required for 'file' (see createFileLogWriter) and 'remote'
+  context?: LogContext;
+}
+
+/**
+ * Structured logger; card numbers, CVVs, expiry dates and credentials are redacted from
+ * messages and metadata before anything is written
+ */
+export interface Logger {
+  debug(message: string, metadata?: any): void;
+  info(message: string, metadata?: any): void;
+  warn(message: string, metadata?: any): void;
+  error(message: string, metadata?: any): void;
+  // Logger whose entries also carry the given context (e.g. a request ID)
+  child(context: LogContext): Logger;
 }
 
-// Card and Payment Types
 export interface CardDetails {
   card_holder: string;
   card_number: string;
@@ -38,9 +135,16 @@ export interface CardValidationResult {
   type?: string;
 }
 
+// Amount in minor units (cents for AUD, whole yen for JPY) with its ISO 4217 currency
+export interface Money {
+  amountMinor: number;
+  currency: string;
+}
+
 // Request Types
+// Gateway request and response amounts are in minor units (e.g. 1050 = $10.50 AUD)
 export interface PurchaseRequest {
-  amount: number;
+  amount: number; // minor units
   currency?: string;
   reference?: string;
   customer_ip?: string;
@@ -53,13 +157,26 @@ export interface PurchaseRequest {
 }
 
 export interface AuthorizationRequest extends Omit<PurchaseRequest, 'amount'> {
-  amount: number;
+  amount: number; // minor units
+  capture?: boolean;
+}
+
+// Purchase against a previously tokenized card (see FatZebraClient.tokenize)
+export interface TokenPurchaseRequest extends Omit<
+  PurchaseRequest,
+  'card_holder' | 'card_number' | 'card_expiry' | 'cvv'
+> {
+  card_token: string;
+  cvv?: string;
+}
+
+export interface TokenAuthorizationRequest extends TokenPurchaseRequest {
   capture?: boolean;
 }
 
 export interface RefundRequest {
   transaction_id: string;
-  amount?: number;
+  amount?: number; // minor units
   reference?: string;
   reason?: string;
 }
@@ -81,7 +198,7 @@ export interface FatZebraResponse<T = any> {
 
 export interface TransactionResponse {
   id: string;
-  amount: number;
+  amount: number; // minor units
   currency: string;
   reference: string;
   message: string;
@@ -94,6 +211,7 @@ export interface TransactionResponse {
   authorization: string;
   captured: boolean;
   created_at: string;
+  response_code?: string;
   metadata?: Record<string, any>;
 }
 
@@ -106,6 +224,32 @@ export interface TokenizationResponse {
   created_at: string;
 }
 
+// Per-call options for mutating client methods (purchase, authorize, capture, refund, void)
+export interface TransactionRequestOptions {
+  // Explicit key; when omitted one is derived from the request reference or transaction ID
+  idempotencyKey?: string;
+}
+
+// Card vault types (cards stored via tokenization)
+export interface StoredCardResponse extends TokenizationResponse {
+  transaction_count?: number;
+  last_used_at?: string;
+}
+
+export interface ListCardsOptions {
+  page?: number;
+  per_page?: number;
+}
+
+export interface UpdateCardExpiryRequest {
+  card_expiry: string;
+}
+
+export interface CardDeletionResponse {
+  token: string;
+  deleted: boolean;
+}
+
 export interface SettlementResponse {
   id: string;
   settlement_date: string;
@@ -121,6 +265,16 @@ export interface UsePaymentOptions {
   enableRetry?: boolean;
   maxRetries?: number;
   retryDelay?: number;
+  retryCondition?: (error: FatZebraError) => boolean;
+  // Post payments to your own server route instead of calling the gateway from the browser
+  proxy?: PaymentProxyOptions;
+  logger?: Logger;
+}
+
+export interface PaymentProxyOptions {
+  baseUrl?: string; // defaults to the current origin
+  endpoint?: string; // defaults to '/api/payments'
+  headers?: Record<string, string>;
 }
 
 export interface UsePaymentResult {
@@ -132,12 +286,13 @@ export interface UsePaymentResult {
 
 // Component Types
 export interface PaymentFormProps {
-  amount: number;
+  amount: number; // major units as shown to the customer (e.g. 10.50); converted on submit
   currency?: string;
   loading?: boolean;
   enableTokenization?: boolean;
   onTokenizationSuccess?: (token: string) => void;
   className?: string;
+  logger?: Logger; // defaults to the console logger
 }
 
 export interface PaymentFormData {
@@ -171,16 +326,39 @@ export interface VerificationHashData {
   timestamp: number;
 }
 
-export interface WebhookEvent {
+// Webhook events, discriminated by `type`
+export interface WebhookEventBase<TType extends string, TObject> {
   id: string;
-  type: string;
+  type: TType;
   created_at: string;
   data: {
-    object: TransactionResponse | TokenizationResponse | SettlementResponse;
+    object: TObject;
   };
   api_version: string;
 }
 
+export type PurchaseSuccessEvent = WebhookEventBase<'purchase.success', TransactionResponse>;
+export type PurchaseFailedEvent = WebhookEventBase<'purchase.failed', TransactionResponse>;
+export type RefundSuccessEvent = WebhookEventBase<'refund.success', TransactionResponse>;
+export type RefundFailedEvent = WebhookEventBase<'refund.failed', TransactionResponse>;
+export type TokenCreatedEvent = WebhookEventBase<'token.created', TokenizationResponse>;
+export type SettlementCompletedEvent = WebhookEventBase<'settlement.completed', SettlementResponse>;
+
+export type WebhookEvent =
+  | PurchaseSuccessEvent
+  | PurchaseFailedEvent
+  | RefundSuccessEvent
+  | RefundFailedEvent
+  | TokenCreatedEvent
+  | SettlementCompletedEvent;
+
+export type WebhookEventType = WebhookEvent['type'];
+
+export type WebhookEventOfType<TType extends WebhookEventType> = Extract<
+  WebhookEvent,
+  { type: TType }
+>;
+
 // Constants
 export const CURRENCIES = {
   AUD: 'AUD',
@@ -190,8 +368,10 @@ export const CURRENCIES = {
   EUR: 'EUR',
 } as const;
 
+// Sandbox test cards; see TEST_SCENARIOS in the testing module for the full scenario catalogue
 export const TEST_CARDS = {
   VISA_SUCCESS: '4005550000000001',
+  VISA_3DS_SUCCESS: '4005554444444460',
   MASTERCARD_SUCCESS: '5123456789012346',
   AMEX_SUCCESS: '345678901234564',
   VISA_DECLINE: '4005550000000019',
@@ -200,23 +380,126 @@ export const TEST_CARDS = {
 } as const;
 
 // Error Types
+export const ERROR_CODES = {
+  INVALID_CARD: 'INVALID_CARD',
+  EXPIRED_CARD: 'EXPIRED_CARD',
+  INSUFFICIENT_FUNDS: 'INSUFFICIENT_FUNDS',
+  SUSPECTED_FRAUD: 'SUSPECTED_FRAUD',
+  DECLINED: 'DECLINED',
+  VALIDATION_ERROR: 'VALIDATION_ERROR',
+  AUTHENTICATION_ERROR: 'AUTHENTICATION_ERROR',
+  NOT_FOUND: 'NOT_FOUND',
+  RATE_LIMITED: 'RATE_LIMITED',
+  SERVER_ERROR: 'SERVER_ERROR',
+  NETWORK_ERROR: 'NETWORK_ERROR',
+  TIMEOUT: 'TIMEOUT',
+  UNKNOWN_ERROR: 'UNKNOWN_ERROR',
+} as const;
+
+export type FatZebraErrorCode = keyof typeof ERROR_CODES;
+
+export interface FatZebraErrorOptions {
+  code?: FatZebraErrorCode;
+  statusCode?: number;
+  retryAfter?: number;
+}
+
 export class FatZebraError extends Error {
   errors: string[];
   response?: any;
-
-  constructor(message: string, errors: string[] = [], response?: any) {
+  code: FatZebraErrorCode;
+  statusCode?: number;
+  retryAfter?: number; // ms the gateway asked callers to wait (Retry-After)
+
+  constructor(
+    message: string,
+    errors: string[] = [],
+    response?: any,
+    options: FatZebraErrorOptions = {}
+  ) {
     super(message);
     this.name = 'FatZebraError';
     this.errors = errors;
     this.response = response;
+    this.code = options.code ?? 'UNKNOWN_ERROR';
+    if (options.statusCode !== undefined) {
+      this.statusCode = options.statusCode;
+    }
+    if (options.retryAfter !== undefined) {
+      this.retryAfter = options.retryAfter;
+    }
 
     // Maintains proper stack trace for where our error was thrown (only available on V8)
     if (Error.captureStackTrace) {
-      Error.captureStackTrace(this, FatZebraError);
+      Error.captureStackTrace(this, new.target);
     }
   }
 }
 
+// Request rejected before or by the gateway because the input was invalid
+export class ValidationError extends FatZebraError {
+  constructor(message: string, errors: string[] = [], response?: any, statusCode?: number) {
+    super(message, errors, response, {
+      code: 'VALIDATION_ERROR',
+      ...(statusCode !== undefined && { statusCode }),
+    });
+    this.name = 'ValidationError';
+  }
+}
+
+// Gateway could not be reached (DNS, connection reset, offline, ...)
+export class NetworkError extends FatZebraError {
+  constructor(message: string, errors: string[] = [], code: FatZebraErrorCode = 'NETWORK_ERROR') {
+    super(message, errors, undefined, { code });
+    this.name = 'NetworkError';
+  }
+}
+
+// Gateway did not answer within FatZebraConfig.timeout
+export class TimeoutError extends NetworkError {
+  constructor(message: string = 'Request timeout', errors: string[] = ['Request timed out']) {
+    super(message, errors, 'TIMEOUT');
+    this.name = 'TimeoutError';
+  }
+}
+
+// Gateway rejected the username/token (HTTP 401/403)
+export class AuthenticationError extends FatZebraError {
+  constructor(message: string, errors: string[] = [], response?: any, statusCode?: number) {
+    super(message, errors, response, {
+      code: 'AUTHENTICATION_ERROR',
+      ...(statusCode !== undefined && { statusCode }),
+    });
+    this.name = 'AuthenticationError';
+  }
+}
+
+// Transaction was processed but not approved by the issuer
+export class DeclinedError extends FatZebraError {
+  constructor(
+    message: string,
+    errors: string[] = [],
+    response?: any,
+    code: FatZebraErrorCode = 'DECLINED'
+  ) {
+    super(message, errors, response, { code });
+    this.name = 'DeclinedError';
+  }
+}
+
+// Gateway-side failure (HTTP 429 or 5xx)
+export class GatewayError extends FatZebraError {
+  constructor(
+    message: string,
+    errors: string[] = [],
+    response?: any,
+    options: FatZebraErrorOptions = {}
+  ) {
+    super(message, errors, response, { code: 'SERVER_ERROR', ...options });
+    this.name = 'GatewayError';
+  }
+}
+
 // Type Guards
 export function isFatZebraError(error: unknown): error is FatZebraError {
   return error instanceof FatZebraError;
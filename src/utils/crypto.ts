@@ -0,0 +1,126 @@
+/**
+ * Runtime-agnostic crypto utilities
+ *
+ * Built on Web Crypto, TextEncoder and btoa so they work on Node.js 16+, the Next.js Edge
+ * runtime and Cloudflare Workers. Nothing here touches Buffer. Node.js before 19 has no global
+ * Web Crypto, so there it is loaded from node:crypto on first use.
+ */
+
+import type { VerificationHashData } from '../types';
+
+// A variable specifier, so bundlers for edge targets neither resolve nor include node:crypto
+const NODE_CRYPTO_MODULE: string = 'node:crypto';
+
+let nodeWebCrypto: Promise<Crypto | undefined> | undefined;
+
+async function getWebCrypto(): Promise<Crypto> {
+  if (globalThis.crypto?.subtle) {
+    return globalThis.crypto;
+  }
+
+  nodeWebCrypto ??= import(/* webpackIgnore: true */ NODE_CRYPTO_MODULE).then(
+    module => module.webcrypto as Crypto | undefined,
+    () => undefined
+  );
+
+  const webCrypto = await nodeWebCrypto;
+  if (!webCrypto?.subtle) {
+    throw new Error('Web Crypto API is not available in this runtime');
+  }
+
+  return webCrypto;
+}
+
+async function getSubtle(): Promise<SubtleCrypto> {
+  return (await getWebCrypto()).subtle;
+}
+
+/**
+ * Random v4 UUID from Web Crypto
+ */
+export async function randomUUID(): Promise<string> {
+  return (await getWebCrypto()).randomUUID();
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Base64-encode a UTF-8 string
+ */
+export function encodeBase64(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary);
+}
+
+/**
+ * SHA-256 digest of a UTF-8 string, as lowercase hex
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await (await getSubtle()).digest('SHA-256', new TextEncoder().encode(value));
+  return toHex(digest);
+}
+
+/**
+ * HMAC-SHA256 of a UTF-8 payload, as lowercase hex
+ */
+export async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const subtle = await getSubtle();
+  const key = await subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  return toHex(await subtle.sign('HMAC', key, encoder.encode(payload)));
+}
+
+/**
+ * Compare two strings in constant time (for signatures and hashes)
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return diff === 0;
+}
+
+/**
+ * Generate verification hash (Web Crypto variant of generateVerificationHash)
+ */
+export async function generateVerificationHashAsync(
+  data: VerificationHashData,
+  secret: string
+): Promise<string> {
+  return sha256Hex(`${data.amount}${data.currency}${data.reference}${data.timestamp}${secret}`);
+}
+
+/**
+ * Verify an HMAC-SHA256 webhook signature (hex encoded)
+ */
+export async function verifyWebhookSignature(
+  payload: string,
+  signature: string,
+  secret: string
+): Promise<boolean> {
+  const expectedSignature = await hmacSha256Hex(secret, payload);
+  return timingSafeEqual(signature.toLowerCase(), expectedSignature);
+}
@@ -5,7 +5,36 @@
 import type { CardDetails, CardValidationResult, VerificationHashData } from '../types';
 
 // Import helper functions but not FatZebraError class since it's not used in this file
-import { isFatZebraError, isErrorWithMessage, isErrorWithErrors } from '../types';
+import { isFatZebraError, isErrorWithMessage, isErrorWithErrors, TEST_CARDS } from '../types';
+
+// Edge-compatible crypto (Web Crypto based)
+export {
+  encodeBase64,
+  sha256Hex,
+  hmacSha256Hex,
+  timingSafeEqual,
+  generateVerificationHashAsync,
+  verifyWebhookSignature,
+} from './crypto';
+
+// Card data and credential redaction
+export { REDACTED, maskPan, redactText, redactSensitiveData } from './redact';
+
+// Structured logging with redaction
+export { StructuredLogger, createLogger, defaultLogger } from './logger';
+
+// Package version
+export { VERSION } from './version';
+
+// Minor-unit money handling
+export {
+  getCurrencyExponent,
+  toMinorUnits,
+  fromMinorUnits,
+  isMinorUnitAmount,
+  moneyFromMajor,
+  formatMoney,
+} from './money';
 
 // Type guards - these are already defined in types, but we can use them here
 
@@ -133,7 +162,7 @@ export function validateAmount(amount: number): boolean {
 }
 
 /**
- * Generate verification hash
+ * Generate verification hash (Node.js only; use generateVerificationHashAsync on the Edge runtime)
  */
 export function generateVerificationHash(data: VerificationHashData, secret: string): string {
   const crypto = require('crypto');
@@ -225,16 +254,7 @@ export function generateReference(prefix = 'TXN'): string {
  */
 export function isTestCard(cardNumber: string): boolean {
   const digits = cardNumber.replace(/\D/g, '');
-  const testCards = [
-    '4005550000000001', // Visa Success
-    '5123456789012346', // Mastercard Success
-    '345678901234564', // Amex Success
-    '4005550000000019', // Visa Decline
-    '5123456789012353', // Mastercard Decline
-    '345678901234572', // Amex Decline
-  ];
-
-  return testCards.includes(digits);
+  return (Object.values(TEST_CARDS) as string[]).includes(digits);
 }
 
 /**
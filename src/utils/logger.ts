@@ -0,0 +1,144 @@
+/**
+ * Structured logging
+ *
+ * Entries carry a level, a message, optional metadata and request context (request ID, IP,
+ * user agent) and are written as JSON or text. Every entry passes through redactSensitiveData
+ * first, so card numbers, CVVs, expiry dates and credentials never reach a log destination,
+ * even when they are echoed back inside gateway errors.
+ */
+
+import type { LogContext, LogEntry, LogLevel, LogWriter, Logger, LoggerConfig } from '../types';
+import { redactSensitiveData, redactText } from './redact';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const MAX_DEPTH = 8;
+
+// Errors keep their message, code and gateway details, which JSON.stringify would drop
+function serializeValue(value: unknown, depth = 0): unknown {
+  if (depth > MAX_DEPTH) {
+    return '[Truncated]';
+  }
+
+  if (value instanceof Error) {
+    const error = value as Error & Record<string, unknown>;
+    return {
+      ...(serializeValue({ ...error }, depth + 1) as Record<string, unknown>),
+      name: error.name,
+      message: error.message,
+      ...(error.stack && { stack: error.stack }),
+    };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => serializeValue(item, depth + 1));
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, serializeValue(item, depth + 1)])
+    );
+  }
+
+  return value;
+}
+
+function formatText(entry: LogEntry): string {
+  const context = [entry.requestId, entry.userId].filter(Boolean).join(' ');
+
+  return [
+    entry.timestamp.toISOString(),
+    entry.level.toUpperCase(),
+    ...(context ? [`[${context}]`] : []),
+    entry.message,
+    ...(entry.metadata !== undefined ? [JSON.stringify(entry.metadata)] : []),
+  ].join(' ');
+}
+
+function consoleWriter(line: string, entry: LogEntry): void {
+  console[entry.level](line);
+}
+
+function resolveWriter(config: LoggerConfig): LogWriter {
+  if (config.write) {
+    return config.write;
+  }
+
+  if (config.destination === 'file') {
+    throw new Error(
+      "LoggerConfig.write is required for the 'file' destination; use createFileLogWriter"
+    );
+  }
+
+  if (config.destination === 'remote') {
+    throw new Error("LoggerConfig.write is required for the 'remote' destination");
+  }
+
+  return consoleWriter;
+}
+
+export class StructuredLogger implements Logger {
+  private readonly writer: LogWriter;
+
+  constructor(
+    private readonly config: LoggerConfig = {},
+    writer?: LogWriter
+  ) {
+    this.writer = writer ?? resolveWriter(config);
+  }
+
+  debug(message: string, metadata?: any): void {
+    this.log('debug', message, metadata);
+  }
+
+  info(message: string, metadata?: any): void {
+    this.log('info', message, metadata);
+  }
+
+  warn(message: string, metadata?: any): void {
+    this.log('warn', message, metadata);
+  }
+
+  error(message: string, metadata?: any): void {
+    this.log('error', message, metadata);
+  }
+
+  child(context: LogContext): StructuredLogger {
+    return new StructuredLogger(
+      { ...this.config, context: { ...this.config.context, ...context } },
+      this.writer
+    );
+  }
+
+  private log(level: LogLevel, message: string, metadata?: any): void {
+    if (LEVELS[level] < LEVELS[this.config.level ?? 'info']) {
+      return;
+    }
+
+    const entry: LogEntry = {
+      level,
+      message: redactText(message),
+      timestamp: new Date(),
+      ...redactSensitiveData(this.config.context),
+      ...(metadata !== undefined && { metadata: redactSensitiveData(serializeValue(metadata)) }),
+    };
+    const line = this.config.format === 'json' ? JSON.stringify(entry) : formatText(entry);
+
+    // A failing destination must never break the request being logged
+    try {
+      Promise.resolve(this.writer(line, entry)).catch(() => undefined);
+    } catch {
+      // Ignored for the same reason
+    }
+  }
+}
+
+/**
+ * Create a structured logger (console and text format by default)
+ */
+export function createLogger(config: LoggerConfig = {}): StructuredLogger {
+  return new StructuredLogger(config);
+}
+
+// Console logger at info level, used where no logger is injected
+export const defaultLogger: Logger = createLogger();
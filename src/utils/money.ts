@@ -0,0 +1,90 @@
+/**
+ * Money utilities
+ *
+ * The gateway takes amounts in minor units (cents for AUD, whole yen for JPY). Convert major-unit
+ * amounts entered by people with toMinorUnits at the edge of the system, and keep minor units
+ * everywhere else.
+ */
+
+import type { Money } from '../types';
+
+// ISO 4217 minor-unit exponents that differ from the default of 2
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+};
+
+/**
+ * Number of decimal places in a currency's major unit
+ */
+export function getCurrencyExponent(currency: string): number {
+  return CURRENCY_EXPONENTS[currency.toUpperCase()] ?? 2;
+}
+
+/**
+ * Convert a major-unit amount (e.g. 10.50 dollars) to minor units (1050 cents)
+ */
+export function toMinorUnits(amountMajor: number, currency: string): number {
+  return Math.round(amountMajor * Math.pow(10, getCurrencyExponent(currency)));
+}
+
+/**
+ * Convert a minor-unit amount (e.g. 1050 cents) to major units (10.50 dollars)
+ */
+export function fromMinorUnits(amountMinor: number, currency: string): number {
+  return amountMinor / Math.pow(10, getCurrencyExponent(currency));
+}
+
+/**
+ * Whether a value is a valid minor-unit amount (a non-negative integer)
+ */
+export function isMinorUnitAmount(amount: unknown): amount is number {
+  return typeof amount === 'number' && Number.isInteger(amount) && amount >= 0;
+}
+
+/**
+ * Create a Money value from a major-unit amount
+ */
+export function moneyFromMajor(amountMajor: number, currency: string): Money {
+  return { amountMinor: toMinorUnits(amountMajor, currency), currency: currency.toUpperCase() };
+}
+
+/**
+ * Format a Money value for display, e.g. "$10.50" or "¥1,050"
+ */
+export function formatMoney(money: Money, locale: string = 'en-AU'): string {
+  const exponent = getCurrencyExponent(money.currency);
+  const amount = fromMinorUnits(money.amountMinor, money.currency);
+
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: money.currency,
+      minimumFractionDigits: exponent,
+      maximumFractionDigits: exponent,
+    }).format(amount);
+  } catch {
+    return `${money.currency} ${amount.toFixed(exponent)}`;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Sensitive data redaction
+ *
+ * Masks card numbers (keeping the last four digits) and replaces CVVs, expiry dates and
+ * credentials before data is written anywhere persistent, such as logs or test fixtures.
+ */
+
+import { luhnCheck } from './validation';
+
+export const REDACTED = '[REDACTED]';
+
+// Keys whose values are always replaced, compared case-insensitively without _ or -
+const REDACTED_KEYS = new Set([
+  'cvv',
+  'cvv2',
+  'cvc',
+  'cardcvv',
+  'cardexpiry',
+  'expirydate',
+  'expiry',
+  'expirymonth',
+  'expiryyear',
+  'authorization',
+  'proxyauthorization',
+  'cookie',
+  'setcookie',
+  'apikey',
+  'xapikey',
+  'password',
+  'secret',
+  // FatZebraConfig.token, the gateway API credential
+  'token',
+  'sharedsecret',
+  'accesstoken',
+  'refreshtoken',
+  'clientsecret',
+]);
+
+const CARD_NUMBER_KEYS = new Set(['cardnumber', 'pan']);
+
+// 13-19 digits, optionally grouped with spaces or dashes
+const PAN_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+// A card number label directly before a match, e.g. `card_number=` or `"pan": "`
+const CARD_LABEL_PATTERN = /\b(?:card_?number|pan)["']?\s*[:=]\s*["']?$/i;
+
+// Millisecond timestamps have 13 digits and one in ten passes the Luhn check, so a bare 13-digit
+// number is only masked after a card number label
+const UNLABELLED_MIN_LENGTH = 14;
+
+// Authorization header values, e.g. "Bearer eyJ..." or "Basic dXNlcjp0b2tlbg=="
+const CREDENTIAL_PATTERN = /\b(Bearer|Basic)\s+[\w.~+/-]+=*/gi;
+
+// Labelled CVVs and expiry dates in text, e.g. `cvv=123` or `"card_expiry":"12/30"`
+const LABELLED_PATTERN =
+  /\b(cvv2?|cvc|card_?expiry|expiry(?:_?date)?)(["']?\s*[:=]\s*["']?)([^\s"',&}]+)/gi;
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[_-]/g, '');
+}
+
+/**
+ * Mask a card number, keeping the last four digits
+ */
+export function maskPan(cardNumber: string): string {
+  const digits = cardNumber.replace(/\D/g, '');
+  return digits.length > 4 ? `${'*'.repeat(digits.length - 4)}${digits.slice(-4)}` : REDACTED;
+}
+
+/**
+ * Mask card numbers, labelled CVVs and expiry dates, and authorization credentials that appear
+ * inside free text (e.g. gateway error messages or serialized bodies)
+ */
+export function redactText(text: string): string {
+  return text
+    .replace(PAN_PATTERN, (match: string, offset: number) => {
+      const digits = match.replace(/\D/g, '');
+      const labelled = CARD_LABEL_PATTERN.test(text.slice(0, offset));
+
+      return luhnCheck(digits) && (labelled || digits.length >= UNLABELLED_MIN_LENGTH)
+        ? maskPan(digits)
+        : match;
+    })
+    .replace(CREDENTIAL_PATTERN, (_match, scheme) => `${scheme} ${REDACTED}`)
+    .replace(LABELLED_PATTERN, (_match, label, separator) => `${label}${separator}${REDACTED}`);
+}
+
+/**
+ * Return a deep copy of a value with card data and credentials redacted
+ */
+export function redactSensitiveData<T>(value: T): T {
+  if (typeof value === 'string') {
+    return redactText(value) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactSensitiveData(item)) as T;
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const result: Record<string, unknown> = {};
+
+    for (const [key, item] of Object.entries(value)) {
+      const normalized = normalizeKey(key);
+
+      if (REDACTED_KEYS.has(normalized) && item !== undefined && item !== null) {
+        result[key] = REDACTED;
+      } else if (CARD_NUMBER_KEYS.has(normalized) && typeof item === 'string') {
+        result[key] = item.includes('*') ? item : maskPan(item);
+      } else {
+        result[key] = redactSensitiveData(item);
+      }
+    }
+
+    return result as T;
+  }
+
+  return value;
+}
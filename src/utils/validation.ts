@@ -1,4 +1,4 @@
-import type { CardValidationResult } from '../types';
+import { TEST_CARDS, type CardValidationResult } from '../types';
 
 /**
  * Card number validation and formatting utilities
@@ -295,18 +295,8 @@ export function validateAmount(amount: number | string): { valid: boolean; error
 
 // Check if payment is test transaction
 export function isTestCardNumber(cardNumber: string): boolean {
-  const testCards = [
-    '4005550000000001', // Visa success
-    '4005550000000019', // Visa decline
-    '4005554444444460', // Visa 3DS success
-    '5123456789012346', // Mastercard success
-    '5123456789012353', // Mastercard decline
-    '345678901234564', // Amex success
-    '345678901234572', // Amex decline
-  ];
-
   const digits = cardNumber.replace(/\D/g, '');
-  return testCards.includes(digits);
+  return (Object.values(TEST_CARDS) as string[]).includes(digits);
 }
 
 // Generate a test customer for development
@@ -0,0 +1,3 @@
+// Package version reported by health checks and the gateway User-Agent. Generated from
+// package.json by scripts/write-version.js (run by the build and `npm version`); do not edit
+export const VERSION = '0.5.9';
@@ -0,0 +1,157 @@
+/**
+ * Edge runtime compatibility tests
+ *
+ * Run with jest.edge.config.js: Buffer is undefined and Node.js built-ins cannot be imported.
+ */
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (data: any, init?: ResponseInit) => Response.json(data, init)
+  }
+}));
+
+import { createFatZebraClient } from '../../src/lib/client';
+import {
+  encodeBase64,
+  sha256Hex,
+  hmacSha256Hex,
+  timingSafeEqual,
+  generateVerificationHashAsync,
+  verifyWebhookSignature
+} from '../../src/utils';
+import { handleGenerateHash, handleVerifyWebhook } from '../../src/server/routes-nextjs';
+import { createFatZebraRouter } from '../../src/server/router';
+import { createResponse, isNextJSAvailable } from '../../src/server/types';
+
+const HASH_DATA = { amount: 1000, currency: 'AUD', reference: 'ORDER-1', timestamp: 1700000000 };
+const EXPECTED_HASH = 'd1dd3d68029fe93885670cf276b940e06318afef825f1259640daf1e933a7933';
+
+const WEBHOOK_PAYLOAD = '{"event":"purchase"}';
+const WEBHOOK_SIGNATURE = '0a1740845b100f4093b7ff2b1f488a3e7a0ba35255f104b0cc0bcafefe6a1279';
+
+describe('Edge runtime environment', () => {
+  it('should not expose Buffer or Node.js built-ins', () => {
+    expect(typeof Buffer).toBe('undefined');
+    expect(() => require('crypto')).toThrow('not available in the Edge runtime');
+  });
+});
+
+describe('Crypto utilities on the Edge runtime', () => {
+  it('should base64-encode UTF-8 strings without Buffer', () => {
+    expect(encodeBase64('user:tøken')).toBe('dXNlcjp0w7hrZW4=');
+  });
+
+  it('should generate the same verification hash as the Node.js implementation', async () => {
+    await expect(generateVerificationHashAsync(HASH_DATA, 'secret')).resolves.toBe(EXPECTED_HASH);
+    await expect(sha256Hex('1000AUDORDER-11700000000secret')).resolves.toBe(EXPECTED_HASH);
+  });
+
+  it('should compute HMAC-SHA256 signatures', async () => {
+    await expect(hmacSha256Hex('whsec', WEBHOOK_PAYLOAD)).resolves.toBe(WEBHOOK_SIGNATURE);
+  });
+
+  it('should verify webhook signatures', async () => {
+    await expect(verifyWebhookSignature(WEBHOOK_PAYLOAD, WEBHOOK_SIGNATURE, 'whsec')).resolves.toBe(
+      true
+    );
+    await expect(verifyWebhookSignature(WEBHOOK_PAYLOAD, WEBHOOK_SIGNATURE, 'other')).resolves.toBe(
+      false
+    );
+  });
+
+  it('should compare strings in constant time', () => {
+    expect(timingSafeEqual('abc', 'abc')).toBe(true);
+    expect(timingSafeEqual('abc', 'abd')).toBe(false);
+    expect(timingSafeEqual('abc', 'abcd')).toBe(false);
+  });
+});
+
+describe('FatZebraClient on the Edge runtime', () => {
+  it('should send basic auth built with btoa', async () => {
+    const transport = jest.fn().mockResolvedValue(
+      Response.json({ successful: true, response: { id: 'txn-123' } })
+    );
+    const client = createFatZebraClient({
+      username: 'user',
+      token: 'tøken',
+      sandbox: true,
+      fetch: transport
+    });
+
+    const result = await client.getTransaction('txn-123');
+
+    expect(result.successful).toBe(true);
+    expect(transport.mock.calls[0][1].headers.Authorization).toBe('Basic dXNlcjp0w7hrZW4=');
+  });
+});
+
+describe('Next.js edge route handlers', () => {
+  const originalSecret = process.env.FAT_ZEBRA_SHARED_SECRET;
+
+  beforeEach(() => {
+    process.env.FAT_ZEBRA_SHARED_SECRET = 'whsec';
+  });
+
+  afterAll(() => {
+    process.env.FAT_ZEBRA_SHARED_SECRET = originalSecret;
+  });
+
+  it('should generate verification hashes', async () => {
+    process.env.FAT_ZEBRA_SHARED_SECRET = 'secret';
+    const request = new Request('https://shop.example/api/hash', {
+      method: 'POST',
+      body: JSON.stringify(HASH_DATA)
+    });
+
+    const response = await handleGenerateHash(request);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ successful: true, hash: EXPECTED_HASH });
+  });
+
+  it('should accept webhooks with a valid signature', async () => {
+    const request = new Request('https://shop.example/api/webhook', {
+      method: 'POST',
+      headers: { 'x-webhook-signature': WEBHOOK_SIGNATURE },
+      body: WEBHOOK_PAYLOAD
+    });
+
+    const response = await handleVerifyWebhook(request);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).verified).toBe(true);
+  });
+
+  it('should reject webhooks with an invalid signature', async () => {
+    const request = new Request('https://shop.example/api/webhook', {
+      method: 'POST',
+      headers: { 'x-webhook-signature': '00'.repeat(32) },
+      body: WEBHOOK_PAYLOAD
+    });
+
+    const response = await handleVerifyWebhook(request);
+
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('Standalone responses on the Edge runtime', () => {
+  it('should build Web API responses without next/server', async () => {
+    const response = createResponse({ successful: true }, 201, { 'x-request-id': 'req-1' });
+
+    expect(isNextJSAvailable()).toBe(true);
+    expect(response).toBeInstanceOf(Response);
+    expect(response.status).toBe(201);
+    expect(response.headers.get('x-request-id')).toBe('req-1');
+    expect(await response.json()).toEqual({ successful: true });
+  });
+
+  it('should answer router requests with a Response', async () => {
+    const router = createFatZebraRouter({ config: { username: 'user', token: 'token' } });
+
+    const response = await router(new Request('https://shop.example/api/fatzebra/health'));
+
+    expect(response).toBeInstanceOf(Response);
+    expect((await response.json()).status).toBe('ok');
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Edge-like Jest environment
+ *
+ * Approximates the Vercel Edge / Cloudflare Workers globals: Web Crypto, fetch, btoa and
+ * TextEncoder are available, Buffer is not. Node.js crypto is blocked in tests/edge/setup.ts.
+ */
+
+const { TestEnvironment } = require('jest-environment-node');
+const { webcrypto } = require('crypto');
+
+const WEB_GLOBALS = [
+  'fetch',
+  'Headers',
+  'Request',
+  'Response',
+  'AbortController',
+  'AbortSignal',
+  'TextEncoder',
+  'TextDecoder',
+  'atob',
+  'btoa',
+  'structuredClone',
+];
+
+class EdgeEnvironment extends TestEnvironment {
+  constructor(config, context) {
+    super(config, context);
+
+    for (const name of WEB_GLOBALS) {
+      if (typeof this.global[name] === 'undefined') {
+        this.global[name] = globalThis[name];
+      }
+    }
+
+    Object.defineProperty(this.global, 'crypto', { value: webcrypto, configurable: true });
+    this.global.EdgeRuntime = 'edge-runtime';
+
+    delete this.global.Buffer;
+  }
+}
+
+module.exports = EdgeEnvironment;
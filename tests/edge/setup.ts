@@ -0,0 +1,13 @@
+/**
+ * Edge runtime test setup
+ *
+ * Node.js built-ins the library could reach for fail to load, as they do on the Edge runtime.
+ */
+
+jest.mock('crypto', () => {
+  throw new Error('Node.js built-in modules are not available in the Edge runtime');
+});
+
+jest.mock('buffer', () => {
+  throw new Error('Node.js built-in modules are not available in the Edge runtime');
+});
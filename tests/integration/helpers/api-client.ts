@@ -1,11 +1,24 @@
 /**
  * Integration Test Helper - API Client
  * 
- * Helper functions for making real Fat Zebra API calls in tests.
+ * Helper functions for making Fat Zebra API calls in tests, against the sandbox or a local
+ * mock gateway.
  */
 
-export const createTestClient = () => {
-  // Helper to create Fat Zebra client with test credentials
+import { createFatZebraClient } from '../../../src/lib/client';
+import type { MockGateway } from '../../../src/testing';
+
+export const createTestClient = (gateway?: MockGateway) => {
+  // Without a mock gateway the client talks to the sandbox with the test credentials
+  if (gateway) {
+    return createFatZebraClient({ username: 'test', token: 'test', fetch: gateway.fetch });
+  }
+
+  return createFatZebraClient({
+    username: process.env.FATZEBRA_TEST_USERNAME || '',
+    token: process.env.FATZEBRA_TEST_TOKEN || '',
+    sandbox: true
+  });
 };
 
 export const getTestCards = () => {
@@ -0,0 +1,161 @@
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { requestId } from '../../../src/server/middleware';
+import { createFatZebraRouter } from '../../../src/server/router';
+import type { AdapterOptions, RequestHandler } from '../../../src/server/types';
+import { createMockGateway } from '../../../src/testing';
+import { TEST_CARDS } from '../../../src/types';
+import { hmacSha256Hex } from '../../../src/utils/crypto';
+
+export const WEBHOOK_SECRET = 'webhook-secret';
+
+export interface TestServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+export type StartServer = (handler: RequestHandler, options?: AdapterOptions) => Promise<TestServer>;
+
+export const listen = (server: Server): Promise<TestServer> =>
+  new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () =>
+          new Promise<void>((done, fail) => {
+            server.close(error => (error ? fail(error) : done()));
+            server.closeIdleConnections();
+          })
+      });
+    });
+  });
+
+export const createTestRouter = () =>
+  createFatZebraRouter({
+    config: { username: 'merchant', token: 'token', fetch: createMockGateway().fetch },
+    sharedSecret: WEBHOOK_SECRET,
+    middleware: [requestId({ generate: () => 'req-1' })],
+    routes: { transactionStatus: true },
+    authorize: () => true
+  });
+
+export const purchaseData = {
+  card_holder: 'John Doe',
+  card_number: TEST_CARDS.VISA_SUCCESS,
+  card_expiry: '12/30',
+  cvv: '123',
+  amount: 1000,
+  currency: 'AUD',
+  reference: 'ORDER-1'
+};
+
+// Pretty-printed so a re-serialized body would no longer match the signature
+export const signedWebhook = async () => {
+  const body = JSON.stringify(
+    {
+      id: 'evt-1',
+      type: 'purchase.success',
+      created_at: '2024-01-01T00:00:00Z',
+      data: { object: { id: 'txn-1' } },
+      api_version: '1.0'
+    },
+    null,
+    2
+  );
+
+  return {
+    body,
+    headers: {
+      'content-type': 'application/json',
+      'x-fatzebra-signature': await hmacSha256Hex(WEBHOOK_SECRET, body)
+    }
+  };
+};
+
+const postJson = (url: string, body: any) =>
+  fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+/**
+ * Behaviour every adapter shares, run against a real local server
+ */
+export function describeAdapter(start: StartServer): void {
+  let server: TestServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('should route a purchase and a status lookup through the router', async () => {
+    server = await start(createTestRouter());
+
+    const purchase = await postJson(`${server.url}/api/fatzebra/purchases`, { purchaseData });
+    const { response: transaction } = await purchase.json();
+    const status = await fetch(`${server.url}/api/fatzebra/transactions/${transaction.id}`);
+
+    expect(purchase.status).toBe(200);
+    expect(purchase.headers.get('content-type')).toMatch(/application\/json/);
+    expect(purchase.headers.get('x-request-id')).toBe('req-1');
+    expect(transaction).toMatchObject({ amount: 1000, successful: true });
+    expect(status.status).toBe(200);
+    expect((await status.json()).response.id).toBe(transaction.id);
+  });
+
+  it('should pass the raw body through for webhook signatures', async () => {
+    server = await start(createTestRouter());
+    const { body, headers } = await signedWebhook();
+
+    const response = await fetch(`${server.url}/api/fatzebra/webhooks`, {
+      method: 'POST',
+      headers,
+      body
+    });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).verified).toBe(true);
+  });
+
+  it('should answer unknown routes with a JSON 404', async () => {
+    server = await start(createTestRouter());
+
+    const response = await fetch(`${server.url}/api/fatzebra/payouts`);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ successful: false, code: 'NOT_FOUND' });
+  });
+
+  it('should keep handler headers and send no body for 204 responses', async () => {
+    server = await start(async () => ({
+      status: 204,
+      statusText: 'No Content',
+      headers: { 'X-Custom': 'kept' },
+      body: '',
+      json: () => ({})
+    }));
+
+    const response = await fetch(`${server.url}/api/fatzebra/anything`, { method: 'DELETE' });
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('x-custom')).toBe('kept');
+    expect(await response.text()).toBe('');
+  });
+
+  it('should reject bodies over the limit with 413', async () => {
+    const handler = jest.fn();
+    server = await start(handler, { bodyLimit: 64 });
+
+    const response = await postJson(`${server.url}/api/fatzebra/purchases`, {
+      purchaseData: { ...purchaseData, reference: 'x'.repeat(100) }
+    });
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).code).toBe('PAYLOAD_TOO_LARGE');
+    expect(handler).not.toHaveBeenCalled();
+  });
+}
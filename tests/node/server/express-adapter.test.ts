@@ -0,0 +1,67 @@
+import express from 'express';
+import { createServer } from 'http';
+import { createExpressMiddleware } from '../../../src/server/adapters';
+import { createTestRouter, describeAdapter, listen, purchaseData, type TestServer } from './adapter-helpers';
+
+describe('createExpressMiddleware', () => {
+  describeAdapter((handler, options) => {
+    const app = express();
+    app.use(createExpressMiddleware(handler, options));
+    return listen(createServer(app));
+  });
+
+  describe('with other Express middleware', () => {
+    let server: TestServer;
+
+    afterEach(() => server.close());
+
+    it('should use a body already parsed by express.json()', async () => {
+      const app = express();
+      app.use(express.json());
+      app.use('/api/fatzebra', createExpressMiddleware(createTestRouter()));
+      server = await listen(createServer(app));
+
+      const response = await fetch(`${server.url}/api/fatzebra/purchases`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ purchaseData })
+      });
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).response.amount).toBe(1000);
+    });
+
+    it('should keep headers set by earlier middleware', async () => {
+      const app = express();
+      app.use((_req, res, next) => {
+        res.setHeader('X-Frame-Options', 'DENY');
+        next();
+      });
+      app.use(createExpressMiddleware(createTestRouter()));
+      server = await listen(createServer(app));
+
+      const response = await fetch(`${server.url}/api/fatzebra/health`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('x-frame-options')).toBe('DENY');
+      expect(response.headers.get('x-request-id')).toBe('req-1');
+    });
+
+    it('should pass handler errors to the Express error handler', async () => {
+      const errors: unknown[] = [];
+      const app = express();
+      app.use(createExpressMiddleware(jest.fn().mockRejectedValue(new Error('boom'))));
+      app.use((error: unknown, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+        errors.push(error);
+        res.status(503).json({ handled: true });
+      });
+      server = await listen(createServer(app));
+
+      const response = await fetch(`${server.url}/api/fatzebra/purchases`, { method: 'POST', body: '{}' });
+
+      expect(response.status).toBe(503);
+      expect(await response.json()).toEqual({ handled: true });
+      expect(errors).toEqual([expect.objectContaining({ message: 'boom' })]);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import Fastify, { type FastifyInstance } from 'fastify';
+import type { AddressInfo } from 'net';
+import { createFastifyHandler } from '../../../src/server/adapters';
+import type { AdapterOptions, RequestHandler } from '../../../src/server/types';
+import { createTestRouter, describeAdapter, purchaseData, type TestServer } from './adapter-helpers';
+
+const start = async (app: FastifyInstance): Promise<TestServer> => {
+  await app.listen({ port: 0, host: '127.0.0.1' });
+  const { port } = app.server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, close: () => app.close() };
+};
+
+// Keeps JSON bodies as text so webhook signatures can be checked
+const createRawBodyApp = (handler: RequestHandler, options?: AdapterOptions) => {
+  const app = Fastify({ forceCloseConnections: true });
+  app.removeContentTypeParser('application/json');
+  app.addContentTypeParser('application/json', { parseAs: 'string' }, (_request, body, done) =>
+    done(null, body)
+  );
+  app.all('/*', createFastifyHandler(handler, options));
+  return app;
+};
+
+describe('createFastifyHandler', () => {
+  describeAdapter((handler, options) => start(createRawBodyApp(handler, options)));
+
+  describe('with Fastify defaults', () => {
+    let server: TestServer;
+
+    afterEach(() => server.close());
+
+    it('should use the body parsed by Fastify', async () => {
+      const app = Fastify({ forceCloseConnections: true });
+      app.all('/api/fatzebra/*', createFastifyHandler(createTestRouter()));
+      server = await start(app);
+
+      const response = await fetch(`${server.url}/api/fatzebra/purchases`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ purchaseData })
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('x-request-id')).toBe('req-1');
+      expect((await response.json()).response.amount).toBe(1000);
+    });
+
+    it('should leave handler errors to the Fastify error handler', async () => {
+      const app = Fastify({ forceCloseConnections: true });
+      const errors: Error[] = [];
+      app.setErrorHandler((error, _request, reply) => {
+        errors.push(error as Error);
+        reply.code(503).send({ handled: true });
+      });
+      app.all('/*', createFastifyHandler(jest.fn().mockRejectedValue(new Error('boom'))));
+      server = await start(app);
+
+      const response = await fetch(`${server.url}/api/fatzebra/health`);
+
+      expect(response.status).toBe(503);
+      expect(await response.json()).toEqual({ handled: true });
+      expect(errors.map(error => error.message)).toEqual(['boom']);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { Hono } from 'hono';
+import { getRequestListener } from '@hono/node-server';
+import { createServer } from 'http';
+import { createHonoHandler } from '../../../src/server/adapters';
+import { createTestRouter, describeAdapter, listen, type TestServer } from './adapter-helpers';
+
+describe('createHonoHandler', () => {
+  describeAdapter((handler, options) => {
+    const app = new Hono();
+    app.all('*', createHonoHandler(handler, options));
+    return listen(createServer(getRequestListener(app.fetch)));
+  });
+
+  describe('with other Hono handlers', () => {
+    let server: TestServer;
+
+    afterEach(() => server.close());
+
+    it('should run under a mounted path alongside other routes', async () => {
+      const app = new Hono();
+      app.get('/status', c => c.text('up'));
+      app.all('/api/fatzebra/*', createHonoHandler(createTestRouter()));
+      server = await listen(createServer(getRequestListener(app.fetch)));
+
+      const status = await fetch(`${server.url}/status`);
+      const health = await fetch(`${server.url}/api/fatzebra/health`);
+
+      expect(await status.text()).toBe('up');
+      expect(health.status).toBe(200);
+      expect(health.headers.get('x-request-id')).toBe('req-1');
+    });
+
+    it('should leave handler errors to app.onError', async () => {
+      const app = new Hono();
+      const errors: Error[] = [];
+      app.onError((error, c) => {
+        errors.push(error);
+        return c.json({ handled: true }, 503);
+      });
+      app.all('*', createHonoHandler(jest.fn().mockRejectedValue(new Error('boom'))));
+      server = await listen(createServer(getRequestListener(app.fetch)));
+
+      const response = await fetch(`${server.url}/api/fatzebra/health`);
+
+      expect(response.status).toBe(503);
+      expect(await response.json()).toEqual({ handled: true });
+      expect(errors.map(error => error.message)).toEqual(['boom']);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import Koa from 'koa';
+import { createServer } from 'http';
+import { createKoaMiddleware } from '../../../src/server/adapters';
+import { createTestRouter, describeAdapter, listen, purchaseData, type TestServer } from './adapter-helpers';
+
+describe('createKoaMiddleware', () => {
+  describeAdapter((handler, options) => {
+    const app = new Koa();
+    app.use(createKoaMiddleware(handler, options));
+    return listen(createServer(app.callback()));
+  });
+
+  describe('with other Koa middleware', () => {
+    let server: TestServer;
+
+    afterEach(() => server.close());
+
+    it('should use a body already parsed into ctx.request.body', async () => {
+      const app = new Koa();
+      app.use(async (ctx, next) => {
+        let text = '';
+        for await (const chunk of ctx.req) text += chunk;
+        (ctx.request as any).body = JSON.parse(text);
+        await next();
+      });
+      app.use(createKoaMiddleware(createTestRouter()));
+      server = await listen(createServer(app.callback()));
+
+      const response = await fetch(`${server.url}/api/fatzebra/purchases`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ purchaseData })
+      });
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).response.amount).toBe(1000);
+    });
+
+    it('should throw handler errors to upstream Koa middleware', async () => {
+      const app = new Koa();
+      const errors: Error[] = [];
+      app.use(async (ctx, next) => {
+        try {
+          await next();
+        } catch (error) {
+          errors.push(error as Error);
+          ctx.status = 503;
+          ctx.body = { handled: true };
+        }
+      });
+      app.use(createKoaMiddleware(jest.fn().mockRejectedValue(new Error('boom'))));
+      server = await listen(createServer(app.callback()));
+
+      const response = await fetch(`${server.url}/api/fatzebra/health`);
+
+      expect(response.status).toBe(503);
+      expect(await response.json()).toEqual({ handled: true });
+      expect(errors.map(error => error.message)).toEqual(['boom']);
+    });
+  });
+});
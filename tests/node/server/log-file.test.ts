@@ -0,0 +1,53 @@
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createFileLogWriter } from '../../../src/server/log-file';
+import { createLogger } from '../../../src/utils/logger';
+
+describe('createFileLogWriter', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'fat-zebra-logs-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should append redacted entries to the file', async () => {
+    const filename = join(directory, 'logs', 'payments.log');
+    const write = createFileLogWriter({ filename });
+    const logger = createLogger({ format: 'json', write });
+
+    logger.info('Purchase', { card_number: '4005550000000001', cvv: '123' });
+    logger.info('Refund', { transactionId: 'txn-1' });
+    await write.flush();
+
+    const entries = (await readFile(filename, 'utf8'))
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line));
+    expect(entries.map(entry => entry.message)).toEqual(['Purchase', 'Refund']);
+    expect(entries[0].metadata).toEqual({ card_number: '************0001', cvv: '[REDACTED]' });
+  });
+
+  it('should rotate the file at maxSize and keep maxFiles rotated files', async () => {
+    const filename = join(directory, 'app.log');
+    const write = createFileLogWriter({ filename, maxSize: 20, maxFiles: 2 });
+
+    for (const line of ['first line 1', 'second line', 'third line 3', 'fourth line']) {
+      write(line, {} as any);
+    }
+    await write.flush();
+
+    expect((await readdir(directory)).sort()).toEqual(['app.log', 'app.log.1', 'app.log.2']);
+    expect(await readFile(filename, 'utf8')).toBe('fourth line\n');
+    expect(await readFile(`${filename}.1`, 'utf8')).toBe('third line 3\n');
+    expect(await readFile(`${filename}.2`, 'utf8')).toBe('second line\n');
+  });
+
+  it('should require a filename', () => {
+    expect(() => createFileLogWriter({})).toThrow('LoggerConfig.filename is required');
+  });
+});
@@ -0,0 +1,58 @@
+import { createServer, request as httpRequest } from 'http';
+import { createNodeHandler } from '../../../src/server/adapters';
+import { describeAdapter, listen, type TestServer } from './adapter-helpers';
+
+describe('createNodeHandler', () => {
+  describeAdapter((handler, options) => listen(createServer(createNodeHandler(handler, options))));
+
+  describe('errors', () => {
+    let server: TestServer;
+
+    afterEach(() => server.close());
+
+    it('should answer handler errors with a 500 and log them', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), child: jest.fn() };
+      const handler = jest.fn().mockRejectedValue(new Error('database password is hunter2'));
+      server = await listen(createServer(createNodeHandler(handler, { logger })));
+
+      const response = await fetch(`${server.url}/api/fatzebra/purchases`, { method: 'POST', body: '{}' });
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({ successful: false, error: 'Internal server error' });
+      expect(logger.error).toHaveBeenCalledWith('Handler error', { error: expect.any(Error) });
+    });
+
+    it('should pass the connection address to the handler', async () => {
+      const handler = jest.fn().mockResolvedValue({ status: 204 });
+      server = await listen(createServer(createNodeHandler(handler)));
+
+      await fetch(`${server.url}/api/fatzebra/health`);
+
+      expect(handler.mock.calls[0][0].remoteAddress).toMatch(/127\.0\.0\.1$/);
+    });
+
+    it('should stop reading a streamed body once it passes the limit', async () => {
+      const handler = jest.fn();
+      server = await listen(createServer(createNodeHandler(handler, { bodyLimit: 16 })));
+      const { port } = new URL(server.url);
+
+      // Chunked, so there is no Content-Length to reject up front
+      const status = await new Promise<number>((resolve, reject) => {
+        const req = httpRequest(
+          { host: '127.0.0.1', port, method: 'POST', path: '/api/fatzebra/purchases' },
+          res => {
+            res.resume();
+            resolve(res.statusCode!);
+          }
+        );
+        req.on('error', reject);
+        req.write('{"purchaseData":');
+        req.write('{"amount":1000}}');
+        req.end();
+      });
+
+      expect(status).toBe(413);
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import {
+  createAccessTokenHandler,
+  createOAuthTokenService
+} from '../../../src/server/oauth';
+import { AuthenticationError, GatewayError } from '../../../src/types';
+
+const tokenResponse = (body: any, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+const readBody = async (response: any) =>
+  typeof response.body === 'string' ? JSON.parse(response.body) : response.json();
+
+describe('OAuthTokenService', () => {
+  let fetch: jest.Mock;
+  let issued: number;
+
+  beforeEach(() => {
+    issued = 0;
+    fetch = jest.fn(async (_url: string, init: RequestInit) => {
+      issued += 1;
+      const params = new URLSearchParams(String(init.body));
+      return tokenResponse({
+        access_token: `token-${issued}`,
+        token_type: 'Bearer',
+        expires_in: 3600,
+        ...(params.get('scope') && { scope: params.get('scope') })
+      });
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createService = (options = {}) =>
+    createOAuthTokenService({ clientId: 'client', clientSecret: 'secret', fetch, ...options });
+
+  it('should request a token with client credentials', async () => {
+    const service = createService({ scope: 'api' });
+
+    expect(await service.getAccessToken()).toBe('token-1');
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://gateway.sandbox.fatzebra.com.au/oauth/token');
+    expect(init.method).toBe('POST');
+    expect(Object.fromEntries(new URLSearchParams(init.body))).toEqual({
+      grant_type: 'client_credentials',
+      client_id: 'client',
+      client_secret: 'secret',
+      scope: 'api'
+    });
+  });
+
+  it('should use the live endpoint when sandbox is false', async () => {
+    await createService({ sandbox: false }).getAccessToken();
+
+    expect(fetch.mock.calls[0][0]).toBe('https://gateway.fatzebra.com.au/oauth/token');
+  });
+
+  it('should cache tokens per scope', async () => {
+    const service = createService();
+
+    expect(await service.getAccessToken('api')).toBe('token-1');
+    expect(await service.getAccessToken('api')).toBe('token-1');
+    expect(await service.getAccessToken('payments')).toBe('token-2');
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share one request between concurrent callers', async () => {
+    const service = createService();
+
+    const tokens = await Promise.all([
+      service.getAccessToken(),
+      service.getAccessToken(),
+      service.getAccessToken()
+    ]);
+
+    expect(tokens).toEqual(['token-1', 'token-1', 'token-1']);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refresh a token before it expires', async () => {
+    jest.useFakeTimers({ now: 0, doNotFake: ['nextTick', 'setImmediate'] });
+    const service = createService({ refreshMargin: 60 });
+
+    expect(await service.getAccessToken()).toBe('token-1');
+
+    jest.setSystemTime(3500 * 1000);
+    expect(await service.getAccessToken()).toBe('token-1');
+
+    jest.setSystemTime(3541 * 1000);
+    expect(await service.getAccessToken()).toBe('token-2');
+  });
+
+  it('should request a new token after invalidate', async () => {
+    const service = createService();
+
+    await service.getAccessToken();
+    service.invalidate();
+
+    expect(await service.getAccessToken()).toBe('token-2');
+  });
+
+  it('should map rejected credentials to AuthenticationError', async () => {
+    fetch.mockResolvedValueOnce(
+      tokenResponse({ error: 'invalid_client', error_description: 'Client authentication failed' }, 401)
+    );
+    const service = createService();
+
+    await expect(service.getAccessToken()).rejects.toThrow(AuthenticationError);
+    // A failed request is not cached
+    expect(await service.getAccessToken()).toBe('token-1');
+  });
+
+  it('should map gateway failures to GatewayError', async () => {
+    fetch.mockResolvedValueOnce(tokenResponse({ error: 'server_error' }, 503));
+
+    await expect(createService().getAccessToken()).rejects.toThrow(GatewayError);
+  });
+
+  it('should issue a cached browser token limited to the browser scope', async () => {
+    // Frozen clock, so expires_in is not shortened by the time the test takes
+    jest.useFakeTimers({ now: Date.now() });
+    const service = createService({ scope: 'api', browserScope: 'payments:create' });
+
+    const serverToken = await service.getAccessToken();
+    const browserToken = await service.issueBrowserToken();
+    const otherBrowserToken = await service.issueBrowserToken();
+
+    expect(browserToken).toEqual({
+      access_token: 'token-2',
+      token_type: 'Bearer',
+      expires_in: 3600,
+      scope: 'payments:create'
+    });
+    expect(browserToken.access_token).not.toBe(serverToken);
+    expect(otherBrowserToken.access_token).toBe('token-2');
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(new URLSearchParams(fetch.mock.calls[1][1].body).get('scope')).toBe('payments:create');
+  });
+});
+
+describe('createAccessTokenHandler', () => {
+  const createRequest = (body: any, method = 'POST') => ({
+    method,
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+    json: () => Promise.resolve(body)
+  });
+
+  const service = createOAuthTokenService({
+    clientId: 'client',
+    clientSecret: 'secret',
+    fetch: async () =>
+      tokenResponse({ access_token: 'browser-token', token_type: 'Bearer', expires_in: 3600 })
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.now() });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return a browser token', async () => {
+    const response = await createAccessTokenHandler(service)(createRequest({}));
+
+    expect(response.status).toBe(200);
+    expect(await readBody(response)).toEqual({
+      successful: true,
+      access_token: 'browser-token',
+      token_type: 'Bearer',
+      expires_in: 3600,
+      scope: 'payments'
+    });
+  });
+
+  it('should request one gateway token for many callers', async () => {
+    const fetch = jest.fn(async () =>
+      tokenResponse({ access_token: 'browser-token', token_type: 'Bearer', expires_in: 3600 })
+    );
+    const handler = createAccessTokenHandler(
+      createOAuthTokenService({ clientId: 'client', clientSecret: 'secret', fetch })
+    );
+
+    await handler(createRequest({}));
+    await handler(createRequest({}));
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should answer 403 when authorize rejects the caller', async () => {
+    const authorize = jest.fn(async (request: any) => request.headers.cookie === 'session=1');
+    const handler = createAccessTokenHandler(service, { authorize });
+
+    const rejected = await handler(createRequest({}));
+    const accepted = await handler({
+      ...createRequest({}),
+      headers: { 'content-type': 'application/json', cookie: 'session=1' }
+    });
+
+    expect(rejected.status).toBe(403);
+    expect((await readBody(rejected)).errors).toEqual(['Forbidden']);
+    expect(accepted.status).toBe(200);
+  });
+
+  it('should reject client credentials in the request body', async () => {
+    const response = await createAccessTokenHandler(service)(
+      createRequest({ clientId: 'client', clientSecret: 'guess' })
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 500 when no credentials are configured', async () => {
+    const response = await createAccessTokenHandler(() => undefined)(createRequest({}));
+
+    expect(response.status).toBe(500);
+    expect((await readBody(response)).errors).toEqual([
+      'OAuth client credentials are not configured on the server'
+    ]);
+  });
+
+  it('should reject methods other than POST', async () => {
+    const response = await createAccessTokenHandler(service)(createRequest({}, 'GET'));
+
+    expect(response.status).toBe(405);
+  });
+});
@@ -0,0 +1,222 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  FileWebhookInboxStore,
+  MemoryWebhookInboxStore,
+  createWebhookInbox
+} from '../../../src/server/webhook-inbox';
+import { createWebhookHandler } from '../../../src/server/webhooks';
+import { hmacSha256Hex } from '../../../src/utils/crypto';
+
+const SECRET = 'webhook-secret';
+
+const createEvent = (id: string) => ({
+  id,
+  type: 'purchase.success' as const,
+  created_at: '2024-01-01T00:00:00Z',
+  data: { object: { id: `txn-${id}`, amount: 1000, reference: `order-${id}` } as any },
+  api_version: '1.0'
+});
+
+const readBody = async (response: any) =>
+  typeof response.body === 'string' ? JSON.parse(response.body) : response.json();
+
+const waitFor = async (condition: () => Promise<boolean>) => {
+  for (let i = 0; i < 100; i++) {
+    if (await condition()) {
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  throw new Error('Condition not met');
+};
+
+describe('WebhookInbox', () => {
+  it('should persist an event and process it', async () => {
+    const onPurchase = jest.fn();
+    const inbox = createWebhookInbox({ on: { 'purchase.success': onPurchase }, autoProcess: false });
+
+    expect(await inbox.receive(createEvent('evt-1'))).toBe(true);
+    expect((await inbox.list())[0]).toMatchObject({ status: 'pending', attempts: 0 });
+
+    expect(await inbox.processPending()).toBe(1);
+    expect(onPurchase).toHaveBeenCalledWith(createEvent('evt-1'));
+    expect((await inbox.list())[0]).toMatchObject({ status: 'processed', attempts: 1 });
+  });
+
+  it('should reject an event ID that is already in the inbox', async () => {
+    const inbox = createWebhookInbox({ on: {}, autoProcess: false });
+
+    expect(await inbox.receive(createEvent('evt-1'))).toBe(true);
+    expect(await inbox.receive(createEvent('evt-1'))).toBe(false);
+    expect(await inbox.list()).toHaveLength(1);
+  });
+
+  it('should retry a failing event with backoff and dead-letter it after maxAttempts', async () => {
+    const onPurchase = jest.fn().mockRejectedValue(new Error('database unavailable'));
+    const onDeadLetter = jest.fn();
+    const inbox = createWebhookInbox({
+      on: { 'purchase.success': onPurchase },
+      onDeadLetter,
+      maxAttempts: 3,
+      retryDelay: 1000,
+      autoProcess: false
+    });
+    await inbox.receive(createEvent('evt-1'));
+
+    const failed = await inbox.process('evt-1');
+    expect(failed).toMatchObject({ status: 'failed', attempts: 1, lastError: 'database unavailable' });
+    expect(failed!.nextAttemptAt! - Date.now()).toBeGreaterThan(900);
+
+    // Not due yet
+    expect(await inbox.processPending()).toBe(0);
+
+    await inbox.process('evt-1');
+    const dead = await inbox.process('evt-1');
+
+    expect(dead).toMatchObject({ status: 'dead', attempts: 3, lastError: 'database unavailable' });
+    expect(dead!.nextAttemptAt).toBeUndefined();
+    expect(onDeadLetter).toHaveBeenCalledWith(dead);
+
+    // Dead events are not processed again until replayed
+    await inbox.process('evt-1');
+    expect(onPurchase).toHaveBeenCalledTimes(3);
+  });
+
+  it('should process and retry in the background', async () => {
+    const onPurchase = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('database unavailable'))
+      .mockResolvedValueOnce(undefined);
+    const inbox = createWebhookInbox({ on: { 'purchase.success': onPurchase }, retryDelay: 1 });
+
+    await inbox.receive(createEvent('evt-1'));
+    await waitFor(async () => (await inbox.list({ status: 'processed' })).length === 1);
+
+    expect(onPurchase).toHaveBeenCalledTimes(2);
+    inbox.close();
+  });
+
+  it('should replay a dead-lettered event with fresh attempts', async () => {
+    const onPurchase = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('database unavailable'))
+      .mockResolvedValueOnce(undefined);
+    const inbox = createWebhookInbox({
+      on: { 'purchase.success': onPurchase },
+      maxAttempts: 1,
+      autoProcess: false
+    });
+    await inbox.receive(createEvent('evt-1'));
+    await inbox.process('evt-1');
+
+    const replayed = await inbox.replay('evt-1');
+
+    expect(replayed).toMatchObject({ status: 'processed', attempts: 1 });
+    expect(replayed!.lastError).toBeUndefined();
+    expect(await inbox.replay('missing')).toBeUndefined();
+  });
+
+  it('should list and purge by status and age', async () => {
+    const inbox = createWebhookInbox({
+      on: { 'purchase.success': jest.fn() },
+      autoProcess: false
+    });
+    await inbox.receive(createEvent('evt-1'));
+    await inbox.receive(createEvent('evt-2'));
+    await inbox.process('evt-1');
+
+    expect((await inbox.list({ status: 'pending' })).map(record => record.event.id)).toEqual([
+      'evt-2'
+    ]);
+    expect(await inbox.list({ receivedBefore: 0 })).toEqual([]);
+
+    expect(await inbox.purge()).toBe(1);
+    expect((await inbox.list()).map(record => record.event.id)).toEqual(['evt-2']);
+    expect(await inbox.purge({ status: ['pending', 'failed'] })).toBe(1);
+    expect(await inbox.list()).toEqual([]);
+  });
+
+  it('should pick up events left processing by a crashed process', async () => {
+    const store = new MemoryWebhookInboxStore();
+    await store.add({ event: createEvent('evt-1'), status: 'processing', attempts: 1, receivedAt: 1 });
+    const onPurchase = jest.fn();
+    const inbox = createWebhookInbox({ on: { 'purchase.success': onPurchase }, store, autoProcess: false });
+
+    expect(await inbox.processPending()).toBe(1);
+    expect(await store.get('evt-1')).toMatchObject({ status: 'processed', attempts: 2 });
+  });
+});
+
+describe('FileWebhookInboxStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'webhook-inbox-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should keep events across inbox instances', async () => {
+    const first = createWebhookInbox({
+      on: {},
+      store: new FileWebhookInboxStore(directory),
+      autoProcess: false
+    });
+    await first.receive(createEvent('evt/1'));
+
+    const onPurchase = jest.fn();
+    const second = createWebhookInbox({
+      on: { 'purchase.success': onPurchase },
+      store: new FileWebhookInboxStore(directory),
+      autoProcess: false
+    });
+
+    expect(await second.receive(createEvent('evt/1'))).toBe(false);
+    expect(await second.processPending()).toBe(1);
+    expect(onPurchase).toHaveBeenCalledWith(createEvent('evt/1'));
+    expect(await readdir(directory)).toEqual(['evt%2F1.json']);
+
+    await second.purge();
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it('should list nothing before the directory exists', async () => {
+    const store = new FileWebhookInboxStore(join(directory, 'missing'));
+
+    expect(await store.list()).toEqual([]);
+    expect(await store.get('evt-1')).toBeUndefined();
+  });
+});
+
+describe('createWebhookHandler with an inbox', () => {
+  const createRequest = async (event: any) => {
+    const body = JSON.stringify(event);
+    return {
+      method: 'POST',
+      headers: { 'x-fatzebra-signature': await hmacSha256Hex(SECRET, body) },
+      body
+    };
+  };
+
+  it('should persist the event before acknowledging with 202', async () => {
+    const onPurchase = jest.fn().mockRejectedValue(new Error('database unavailable'));
+    const inbox = createWebhookInbox({ on: { 'purchase.success': onPurchase }, autoProcess: false });
+    const handler = createWebhookHandler({ secret: SECRET, inbox });
+
+    const response = await handler(await createRequest(createEvent('evt-1')));
+    const duplicate = await handler(await createRequest(createEvent('evt-1')));
+
+    expect(response.status).toBe(202);
+    expect(await readBody(response)).toEqual({ received: true, id: 'evt-1', queued: true });
+    expect(duplicate.status).toBe(200);
+    expect(await readBody(duplicate)).toEqual({ received: true, id: 'evt-1', duplicate: true });
+    expect(onPurchase).not.toHaveBeenCalled();
+
+    await inbox.processPending();
+    expect((await inbox.list())[0]).toMatchObject({ status: 'failed', attempts: 1 });
+  });
+});
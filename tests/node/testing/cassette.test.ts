@@ -0,0 +1,103 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createFatZebraClient } from '../../../src/lib/client';
+import { Cassette, createMockGateway, loadCassette } from '../../../src/testing';
+import { TEST_CARDS } from '../../../src/types';
+
+const purchase = {
+  amount: 1000,
+  currency: 'AUD',
+  reference: 'ORDER-1',
+  card_holder: 'John Doe',
+  card_number: TEST_CARDS.VISA_SUCCESS,
+  card_expiry: '12/30',
+  cvv: '123'
+};
+
+describe('Cassette', () => {
+  let directory: string;
+  let fixture: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'cassettes-'));
+    fixture = join(directory, 'purchase-and-refund.json');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const runFlow = async (cassette: Cassette) => {
+    const client = createFatZebraClient({
+      username: 'merchant',
+      token: 'super-secret-token',
+      fetch: cassette.fetch
+    });
+
+    const result = await client.purchase(purchase);
+    const refund = await client.refund({
+      transaction_id: result.response!.id,
+      amount: 400,
+      reference: 'REFUND-1'
+    });
+
+    return { result, refund };
+  };
+
+  it('should record interactions and replay them offline', async () => {
+    const gateway = createMockGateway();
+    const transport = jest.fn(gateway.fetch);
+    const recorder = await loadCassette(fixture, { mode: 'record', fetch: transport });
+
+    const recorded = await runFlow(recorder);
+    await recorder.save(fixture);
+
+    const player = await loadCassette(fixture);
+    const replayed = await runFlow(player);
+
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(replayed.result.response!.id).toBe(recorded.result.response!.id);
+    expect(replayed.refund.response!.amount).toBe(400);
+  });
+
+  it('should redact credentials, card numbers, CVVs and expiry dates', async () => {
+    const recorder = new Cassette(undefined, { mode: 'record', fetch: createMockGateway().fetch });
+
+    await runFlow(recorder);
+    await recorder.save(fixture);
+    const contents = await readFile(fixture, 'utf8');
+
+    expect(contents).not.toContain(TEST_CARDS.VISA_SUCCESS);
+    expect(contents).not.toContain('"123"');
+    expect(contents).not.toContain('12/30');
+    expect(contents).not.toContain('super-secret-token');
+    expect(JSON.parse(contents).interactions[0].request).toMatchObject({
+      method: 'POST',
+      path: '/v1.0/purchases',
+      body: { card_number: '************0001', cvv: '[REDACTED]' }
+    });
+  });
+
+  it('should match bodies regardless of key order and ignored fields', async () => {
+    const recorder = new Cassette(undefined, { mode: 'record', fetch: createMockGateway().fetch });
+    await runFlow(recorder);
+
+    const player = new Cassette(recorder.toJSON(), { ignoreFields: ['reference'] });
+    const response = await player.fetch('https://gateway.example/v1.0/purchases', {
+      method: 'POST',
+      body: JSON.stringify({ ...purchase, reference: 'ORDER-2', cvv: '999', amount: 1000 })
+    });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should fail requests that were not recorded', async () => {
+    const player = new Cassette({ version: 1, interactions: [] });
+    const client = createFatZebraClient({ username: 'test', token: 'test', fetch: player.fetch });
+
+    await expect(client.getTransaction('txn-1')).rejects.toThrow(
+      'No cassette interaction matches GET /v1.0/purchases/txn-1'
+    );
+  });
+});
@@ -0,0 +1,185 @@
+import { createFatZebraClient, handleFatZebraResponse } from '../../../src/lib/client';
+import { createMockGateway, MockGateway } from '../../../src/testing';
+import { DeclinedError, TEST_CARDS } from '../../../src/types';
+
+const card = {
+  card_holder: 'John Doe',
+  card_number: TEST_CARDS.VISA_SUCCESS,
+  card_expiry: '12/30',
+  cvv: '123'
+};
+
+describe('MockGateway', () => {
+  let gateway: MockGateway;
+
+  const createClient = () =>
+    createFatZebraClient({ username: 'test', token: 'test', fetch: gateway.fetch });
+
+  beforeEach(() => {
+    gateway = createMockGateway();
+  });
+
+  describe('purchases', () => {
+    it('should approve purchases with success test cards', async () => {
+      const result = await createClient().purchase({ ...card, amount: 1000, reference: 'ORDER-1' });
+
+      expect(result.successful).toBe(true);
+      expect(result.response).toMatchObject({
+        amount: 1000,
+        reference: 'ORDER-1',
+        successful: true,
+        captured: true,
+        card_number: '************0001',
+        card_type: 'visa'
+      });
+      expect(gateway.getTransaction(result.response!.id)).toEqual(result.response);
+    });
+
+    it('should decline purchases with decline test cards', async () => {
+      const result = await createClient().purchase({
+        ...card,
+        card_number: TEST_CARDS.MASTERCARD_DECLINE,
+        amount: 1000,
+        reference: 'ORDER-2'
+      });
+
+      expect(result.response).toMatchObject({ successful: false, response_code: '05' });
+      expect(() => handleFatZebraResponse(result)).toThrow(DeclinedError);
+    });
+
+    it('should reject invalid card numbers', async () => {
+      await expect(
+        createClient().purchase({ ...card, card_number: '4111111111111112', amount: 1000 })
+      ).rejects.toThrow('Card number is invalid');
+    });
+
+    it('should replay results for a repeated idempotency key', async () => {
+      const client = createClient();
+      const data = { ...card, amount: 1000, reference: 'ORDER-3' };
+
+      const first = await client.purchase(data);
+      const second = await client.purchase(data);
+
+      expect(second.response!.id).toBe(first.response!.id);
+    });
+
+    it('should require the configured credentials', async () => {
+      gateway = createMockGateway({ username: 'merchant', token: 'secret' });
+
+      await expect(createClient().purchase({ ...card, amount: 1000 })).rejects.toMatchObject({
+        statusCode: 401
+      });
+    });
+  });
+
+  describe('authorizations, captures and voids', () => {
+    it('should capture part of an authorization', async () => {
+      const client = createClient();
+      const auth = await client.authorize({ ...card, amount: 5000, reference: 'AUTH-1' });
+
+      expect(auth.response!.captured).toBe(false);
+
+      const capture = await client.capture(auth.response!.id, 3000);
+
+      expect(capture.response).toMatchObject({ amount: 3000, captured: true });
+      await expect(
+        client.capture(auth.response!.id, 1000, { idempotencyKey: 'second-capture' })
+      ).rejects.toThrow('already been captured');
+    });
+
+    it('should void a transaction once', async () => {
+      const client = createClient();
+      const purchase = await client.purchase({ ...card, amount: 1000, reference: 'ORDER-4' });
+
+      const voided = await client.void(purchase.response!.id);
+
+      expect(voided.response!.message).toBe('Voided');
+      await expect(
+        client.void(purchase.response!.id, { idempotencyKey: 'second-void' })
+      ).rejects.toThrow('cannot be voided');
+    });
+
+    it('should return 404 for unknown transactions', async () => {
+      await expect(createClient().getTransaction('missing')).rejects.toMatchObject({
+        code: 'NOT_FOUND'
+      });
+    });
+  });
+
+  describe('refunds', () => {
+    it('should refund up to the captured amount', async () => {
+      const client = createClient();
+      const purchase = await client.purchase({ ...card, amount: 1000, reference: 'ORDER-5' });
+      const transactionId = purchase.response!.id;
+
+      const partial = await client.refund({ transaction_id: transactionId, amount: 400, reference: 'R-1' });
+      const rest = await client.refund({ transaction_id: transactionId, reference: 'R-2' });
+
+      expect(partial.response!.amount).toBe(400);
+      expect(rest.response!.amount).toBe(600);
+      await expect(
+        client.refund({ transaction_id: transactionId, amount: 1, reference: 'R-3' })
+      ).rejects.toThrow('remaining balance');
+    });
+  });
+
+  describe('card vault', () => {
+    it('should tokenize, charge, update and delete cards', async () => {
+      const client = createClient();
+      const token = (await client.tokenize(card)).response!.token;
+
+      const purchase = await client.purchaseWithToken({
+        card_token: token,
+        amount: 2500,
+        reference: 'ORDER-6'
+      });
+      const updated = await client.updateCardExpiry(token, { card_expiry: '01/31' });
+      const listed = await client.listCards();
+      const deleted = await client.deleteCard(token);
+
+      expect(purchase.response!.successful).toBe(true);
+      expect(updated.response).toMatchObject({ expiry_date: '01/31', transaction_count: 1 });
+      expect(listed.response).toHaveLength(1);
+      expect(deleted.response).toEqual({ token, deleted: true });
+      await expect(client.getCard(token)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+  });
+
+  describe('listen', () => {
+    it('should serve the API over HTTP for gatewayUrl', async () => {
+      const server = await gateway.listen();
+
+      try {
+        const client = createFatZebraClient({
+          username: 'test',
+          token: 'test',
+          gatewayUrl: server.url
+        });
+
+        const result = await client.purchase({ ...card, amount: 1500, reference: 'ORDER-7' });
+
+        expect(result.response!.amount).toBe(1500);
+        expect(gateway.getTransaction(result.response!.id)).toBeDefined();
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should answer 500 when handling a request throws', async () => {
+      jest.spyOn(gateway, 'handle').mockRejectedValueOnce(new Error('scenario failed'));
+      const server = await gateway.listen();
+
+      try {
+        const response = await fetch(`${server.url}/v1.0/purchases`, { method: 'POST' });
+
+        expect(response.status).toBe(500);
+        expect(await response.json()).toMatchObject({
+          successful: false,
+          errors: ['scenario failed']
+        });
+      } finally {
+        await server.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { createFatZebraClient, handleFatZebraResponse } from '../../../src/lib/client';
+import {
+  TEST_SCENARIOS,
+  createMockGateway,
+  createScenarioTransport,
+  resolveTestScenario,
+  simulateTransaction
+} from '../../../src/testing';
+import { DeclinedError, TEST_CARDS, TimeoutError } from '../../../src/types';
+import { isTestCard } from '../../../src/utils';
+import { isTestCardNumber } from '../../../src/utils/validation';
+
+const purchase = (overrides: Record<string, any> = {}) => ({
+  amount: 1000,
+  currency: 'AUD',
+  reference: 'ORDER-1',
+  card_holder: 'John Doe',
+  card_number: TEST_CARDS.VISA_SUCCESS,
+  card_expiry: '12/30',
+  cvv: '123',
+  ...overrides
+});
+
+describe('resolveTestScenario', () => {
+  it('should resolve scenarios from magic amounts', () => {
+    expect(resolveTestScenario(TEST_CARDS.VISA_SUCCESS, 1000)).toBe('approved');
+    expect(resolveTestScenario(TEST_CARDS.VISA_SUCCESS, 10051)).toBe('insufficient_funds');
+    expect(resolveTestScenario(TEST_CARDS.VISA_SUCCESS, 10054)).toBe('expired_card');
+    expect(resolveTestScenario(TEST_CARDS.VISA_SUCCESS, 10059)).toBe('suspected_fraud');
+    expect(resolveTestScenario(TEST_CARDS.VISA_SUCCESS, 10091)).toBe('timeout');
+    expect(resolveTestScenario(TEST_CARDS.VISA_SUCCESS, 10010)).toBe('partial_approval');
+  });
+
+  it('should let card scenarios take precedence over amounts', () => {
+    expect(resolveTestScenario(TEST_CARDS.AMEX_DECLINE, 10010)).toBe('declined');
+    expect(resolveTestScenario('4005 5544 4444 4460', 10051)).toBe('3ds_challenge');
+  });
+
+  it('should only use cards that isTestCard and isTestCardNumber recognise', () => {
+    for (const definition of Object.values(TEST_SCENARIOS)) {
+      for (const cardNumber of definition.cardNumbers) {
+        expect(isTestCard(cardNumber)).toBe(true);
+        expect(isTestCardNumber(cardNumber)).toBe(true);
+      }
+    }
+  });
+});
+
+describe('simulateTransaction', () => {
+  it('should map declines onto typed errors', () => {
+    const cases = [
+      [10051, 'INSUFFICIENT_FUNDS'],
+      [10054, 'EXPIRED_CARD'],
+      [10059, 'SUSPECTED_FRAUD'],
+      [10005, 'DECLINED']
+    ] as const;
+
+    for (const [amount, code] of cases) {
+      const transaction = simulateTransaction(purchase({ amount }));
+
+      expect(transaction.successful).toBe(false);
+      expect(() => handleFatZebraResponse({ successful: true, response: transaction })).toThrow(
+        expect.objectContaining({ code })
+      );
+    }
+  });
+
+  it('should approve half the amount for partial approvals', () => {
+    expect(simulateTransaction(purchase({ amount: 10010 }))).toMatchObject({
+      successful: true,
+      amount: 5005,
+      response_code: '10'
+    });
+  });
+
+  it('should return a challenge URL for the 3DS card', () => {
+    const transaction = simulateTransaction(
+      purchase({ card_number: TEST_CARDS.VISA_3DS_SUCCESS }),
+      'SIM-1'
+    );
+
+    expect(transaction.successful).toBe(false);
+    expect(transaction.threeds_challenge_url).toContain('SIM-1');
+  });
+
+  it('should throw TimeoutError for the timeout scenario', () => {
+    expect(() => simulateTransaction(purchase({ amount: 10091 }))).toThrow(TimeoutError);
+  });
+});
+
+describe('createScenarioTransport', () => {
+  const createClient = () =>
+    createFatZebraClient({ username: 'test', token: 'test', fetch: createScenarioTransport() });
+
+  it('should answer client purchases and authorizations', async () => {
+    const client = createClient();
+
+    const approved = await client.purchase(purchase());
+    const authorized = await client.authorize(purchase({ reference: 'AUTH-1' }));
+
+    expect(approved.response).toMatchObject({ successful: true, captured: true });
+    expect(authorized.response).toMatchObject({ successful: true, captured: false });
+  });
+
+  it('should surface declines through handleFatZebraResponse', async () => {
+    const result = await createClient().purchase(
+      purchase({ card_number: TEST_CARDS.VISA_DECLINE })
+    );
+
+    expect(() => handleFatZebraResponse(result)).toThrow(DeclinedError);
+  });
+
+  it('should reject with TimeoutError for the timeout scenario', async () => {
+    await expect(createClient().purchase(purchase({ amount: 10091 }))).rejects.toThrow(
+      TimeoutError
+    );
+  });
+});
+
+describe('MockGateway scenarios', () => {
+  it('should time out in process and answer 504 over handle()', async () => {
+    const gateway = createMockGateway();
+    const client = createFatZebraClient({ username: 'test', token: 'test', fetch: gateway.fetch });
+
+    await expect(client.purchase(purchase({ amount: 10091 }))).rejects.toThrow(TimeoutError);
+
+    const response = await gateway.handle(
+      new Request('http://localhost/v1.0/purchases', {
+        method: 'POST',
+        body: JSON.stringify(purchase({ amount: 10091 }))
+      })
+    );
+    expect(response.status).toBe(504);
+  });
+});
@@ -0,0 +1,31 @@
+import { randomUUID, sha256Hex, verifyWebhookSignature } from '../../../src/utils/crypto';
+
+const EXPECTED_HASH = 'd1dd3d68029fe93885670cf276b940e06318afef825f1259640daf1e933a7933';
+const WEBHOOK_PAYLOAD = '{"event":"purchase"}';
+const WEBHOOK_SIGNATURE = '0a1740845b100f4093b7ff2b1f488a3e7a0ba35255f104b0cc0bcafefe6a1279';
+
+describe('crypto utilities without a global Web Crypto (Node.js 16 and 18)', () => {
+  const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'crypto');
+
+  beforeEach(() => {
+    Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true });
+  });
+
+  afterEach(() => {
+    if (descriptor) {
+      Object.defineProperty(globalThis, 'crypto', descriptor);
+    }
+  });
+
+  it('should hash and verify signatures with node:crypto', async () => {
+    expect(globalThis.crypto).toBeUndefined();
+    await expect(sha256Hex('1000AUDORDER-11700000000secret')).resolves.toBe(EXPECTED_HASH);
+    await expect(verifyWebhookSignature(WEBHOOK_PAYLOAD, WEBHOOK_SIGNATURE, 'whsec')).resolves.toBe(
+      true
+    );
+  });
+
+  it('should generate UUIDs with node:crypto', async () => {
+    expect(await randomUUID()).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+});
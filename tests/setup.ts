@@ -280,18 +280,17 @@ Object.defineProperty(global, 'crypto', {
         return v.toString(16);
       });
     },
-    subtle: {
-      generateKey: jest.fn(),
-      importKey: jest.fn(),
-      exportKey: jest.fn(),
-      encrypt: jest.fn(),
-      decrypt: jest.fn(),
-      sign: jest.fn(),
-      verify: jest.fn(),
-    }
+    // Real Web Crypto so the hashing/HMAC utilities produce genuine digests
+    subtle: require('crypto').webcrypto.subtle
   }
 });
 
+// jsdom does not provide TextEncoder/TextDecoder
+if (typeof global.TextEncoder === 'undefined') {
+  const { TextEncoder, TextDecoder } = require('util');
+  Object.assign(global, { TextEncoder, TextDecoder });
+}
+
 // Enhanced cleanup after each test
 afterEach(() => {
   // Cleanup React testing utilities
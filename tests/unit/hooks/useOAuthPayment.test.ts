@@ -3,8 +3,8 @@ import '../../types/jest-custom-matchers';
 import { renderHook, act, waitFor } from '@testing-library/react';
 
 // Mock dependencies properly before any imports
-jest.mock('../../../src/types', () => ({
-  FatZebraError: class FatZebraError extends Error {
+jest.mock('../../../src/types', () => {
+  class FatZebraError extends Error {
     public errors: string[];
     public response?: any;
     
@@ -15,7 +15,13 @@ jest.mock('../../../src/types', () => ({
       this.response = response;
     }
   }
-}));
+
+  class ValidationError extends FatZebraError {
+    public code = 'VALIDATION_ERROR';
+  }
+
+  return { FatZebraError, ValidationError };
+});
 
 // Mock global fetch and AbortController
 global.fetch = jest.fn();
@@ -10,7 +10,19 @@ const {
 } = require('../../setup');
 
 // Import the library modules using TypeScript import syntax
-import { FatZebraClient, createFatZebraClient, handleFatZebraResponse, FatZebraError } from '../../../src/lib/client';
+import {
+  FatZebraClient,
+  createFatZebraClient,
+  handleFatZebraResponse,
+  FatZebraError,
+  ValidationError,
+  NetworkError,
+  TimeoutError,
+  AuthenticationError,
+  DeclinedError,
+  GatewayError
+} from '../../../src/lib/client';
+import { createLogger } from '../../../src/utils/logger';
 import type { 
   FatZebraConfig, 
   PurchaseRequest, 
@@ -130,6 +142,52 @@ describe('FatZebraClient - Standalone Library Tests', () => {
     });
   });
 
+  describe('Token Transactions', () => {
+    it('should purchase with a card token', async () => {
+      const mockResponse = createMockTransactionResponse();
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        mockFetchResponse(mockResponse)
+      );
+
+      const result = await client.purchaseWithToken({
+        amount: 2500,
+        currency: 'AUD',
+        reference: 'TOKEN-REF-123',
+        card_token: 'card-token-123'
+      });
+
+      expect(result.successful).toBe(true);
+
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+      const body = JSON.parse(options.body);
+      expect(url).toMatch(/\/v1\.0\/purchases$/);
+      expect(body.card_token).toBe('card-token-123');
+      expect(body.card_number).toBeUndefined();
+      expect(body.cvv).toBeUndefined();
+    });
+
+    it('should authorize with a card token without capturing', async () => {
+      const mockResponse = createMockTransactionResponse({ captured: false });
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        mockFetchResponse(mockResponse)
+      );
+
+      const result = await client.authorizeWithToken({
+        amount: 2500,
+        card_token: 'card-token-123',
+        capture: true
+      });
+
+      expect(result.response?.captured).toBe(false);
+
+      const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.card_token).toBe('card-token-123');
+      expect(body.capture).toBe(false);
+    });
+  });
+
   describe('Capture Transactions', () => {
     it('should capture authorized transaction', async () => {
       const mockResponse = createMockTransactionResponse({ captured: true });
@@ -204,6 +262,63 @@ describe('FatZebraClient - Standalone Library Tests', () => {
     });
   });
 
+  describe('Card Vault', () => {
+    const storedCard = {
+      successful: true,
+      response: {
+        token: 'card-token-123',
+        card_holder: 'John Doe',
+        card_number: '************1111',
+        card_type: 'visa',
+        expiry_date: '12/29',
+        created_at: '2024-01-15T10:30:00Z'
+      }
+    };
+
+    it('should list stored cards with paging', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        mockFetchResponse({ successful: true, response: [storedCard.response] })
+      );
+
+      const result = await client.listCards({ page: 2, per_page: 10 });
+
+      expect(result.response).toHaveLength(1);
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toMatch(/\/credit_cards\?page=2&per_page=10$/);
+      expect(options.method).toBe('GET');
+    });
+
+    it('should fetch a stored card by token', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(mockFetchResponse(storedCard));
+
+      const result = await client.getCard('card-token-123');
+
+      expect(result.response?.card_number).toBe('************1111');
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toMatch(/\/credit_cards\/card-token-123$/);
+    });
+
+    it('should update the expiry of a stored card', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(mockFetchResponse(storedCard));
+
+      await client.updateCardExpiry('card-token-123', { card_expiry: '12/29' });
+
+      const [, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(options.method).toBe('PUT');
+      expect(JSON.parse(options.body)).toEqual({ card_expiry: '12/29' });
+    });
+
+    it('should delete a stored card', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        mockFetchResponse({ successful: true, response: { token: 'card-token-123', deleted: true } })
+      );
+
+      const result = await client.deleteCard('card-token-123');
+
+      expect(result.response?.deleted).toBe(true);
+      expect((global.fetch as jest.Mock).mock.calls[0][1].method).toBe('DELETE');
+    });
+  });
+
   describe('Transaction Management', () => {
     it('should get transaction details', async () => {
       const mockResponse = createMockTransactionResponse();
@@ -231,6 +346,306 @@ describe('FatZebraClient - Standalone Library Tests', () => {
     });
   });
 
+  describe('Minor Unit Amounts', () => {
+    it('should send capture and refund amounts unchanged', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(mockFetchResponse(createMockTransactionResponse()))
+        .mockResolvedValueOnce(mockFetchResponse(createMockTransactionResponse()));
+
+      await client.capture('txn-123', 1050);
+      await client.refund({ transaction_id: 'txn-123', amount: 525, reference: 'refund-1' });
+
+      const bodies = (global.fetch as jest.Mock).mock.calls.map(call => JSON.parse(call[1].body));
+      expect(bodies[0].amount).toBe(1050);
+      expect(bodies[1].amount).toBe(525);
+    });
+
+    it('should reject fractional amounts before calling the gateway', async () => {
+      await expect(
+        client.purchase({ ...createMockPurchaseRequest(), amount: 10.5 })
+      ).rejects.toBeInstanceOf(ValidationError);
+      await expect(client.capture('txn-123', 25.99)).rejects.toBeInstanceOf(ValidationError);
+
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Idempotency Keys', () => {
+    const headersOf = (call: number = 0) =>
+      (global.fetch as jest.Mock).mock.calls[call][1].headers;
+
+    it('should derive the key from the purchase reference', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        mockFetchResponse(createMockTransactionResponse())
+      );
+
+      await client.purchase({ ...createMockPurchaseRequest(), reference: 'ORDER-1' });
+
+      expect(headersOf()['Idempotency-Key']).toBe('purchase-ORDER-1');
+    });
+
+    it('should prefer an explicit key', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        mockFetchResponse(createMockTransactionResponse())
+      );
+
+      await client.refund(
+        { transaction_id: 'txn-123', amount: 500, reference: 'refund-1' },
+        { idempotencyKey: 'custom-key' }
+      );
+
+      expect(headersOf()['Idempotency-Key']).toBe('custom-key');
+    });
+
+    it('should derive full capture and void keys from the transaction id', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(mockFetchResponse(createMockTransactionResponse()))
+        .mockResolvedValueOnce(mockFetchResponse(createMockTransactionResponse()));
+
+      await client.capture('txn-123');
+      await client.void('txn-123');
+
+      expect(headersOf(0)['Idempotency-Key']).toBe('capture-txn-123');
+      expect(headersOf(1)['Idempotency-Key']).toBe('void-txn-123');
+    });
+
+    it('should not derive a key for partial captures, which may repeat', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(mockFetchResponse(createMockTransactionResponse()))
+        .mockResolvedValueOnce(mockFetchResponse(createMockTransactionResponse()));
+
+      await client.capture('txn-123', 500);
+      await client.capture('txn-123', 500, { idempotencyKey: 'capture-2' });
+
+      expect(headersOf(0)['Idempotency-Key']).toBeUndefined();
+      expect(headersOf(1)['Idempotency-Key']).toBe('capture-2');
+    });
+
+    it('should not send a key on read-only calls', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        mockFetchResponse(createMockTransactionResponse())
+      );
+
+      await client.getTransaction('txn-123');
+
+      expect(headersOf()['Idempotency-Key']).toBeUndefined();
+    });
+  });
+
+  describe('Transport and Interceptors', () => {
+    it('should send requests through a custom fetch', async () => {
+      const transport = jest.fn().mockReturnValue(
+        mockFetchResponse(createMockTransactionResponse())
+      );
+      const customClient = createFatZebraClient({ ...config, fetch: transport });
+
+      await customClient.getTransaction('txn-123');
+
+      expect(transport).toHaveBeenCalledWith(
+        expect.stringMatching(/\/purchases\/txn-123$/),
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should use a configured User-Agent', async () => {
+      (global.fetch as jest.Mock).mockReturnValueOnce(
+        mockFetchResponse(createMockTransactionResponse())
+      );
+
+      await createFatZebraClient({ ...config, userAgent: 'my-shop/2.0' }).getTransaction('txn-123');
+
+      expect((global.fetch as jest.Mock).mock.calls[0][1].headers['User-Agent']).toBe('my-shop/2.0');
+    });
+
+    it('should let request interceptors modify or replace the request', async () => {
+      (global.fetch as jest.Mock).mockReturnValueOnce(
+        mockFetchResponse(createMockTransactionResponse())
+      );
+      const customClient = createFatZebraClient({
+        ...config,
+        interceptors: {
+          request: [
+            request => {
+              request.headers['X-Trace-Id'] = 'trace-1';
+            },
+            request => ({ ...request, url: request.url.replace('/v1.0', '/v1.1') })
+          ]
+        }
+      });
+
+      await customClient.getTransaction('txn-123');
+
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toMatch(/\/v1\.1\/purchases\/txn-123$/);
+      expect(options.headers['X-Trace-Id']).toBe('trace-1');
+    });
+
+    it('should pass responses to response interceptors before mapping errors', async () => {
+      (global.fetch as jest.Mock).mockReturnValueOnce(
+        mockFetchResponse({ successful: false, errors: ['Not found'] }, 404)
+      );
+      const interceptor = jest.fn();
+      client.addResponseInterceptor(interceptor);
+
+      await expect(client.getTransaction('txn-123')).rejects.toBeInstanceOf(FatZebraError);
+
+      expect(interceptor).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 404,
+          data: { successful: false, errors: ['Not found'] },
+          duration: expect.any(Number),
+          request: expect.objectContaining({ method: 'GET' })
+        })
+      );
+    });
+
+    it('should remove interceptors with the returned function', async () => {
+      (global.fetch as jest.Mock).mockReturnValueOnce(
+        mockFetchResponse(createMockTransactionResponse())
+      );
+      const interceptor = jest.fn();
+      const remove = client.addRequestInterceptor(interceptor);
+      remove();
+
+      await client.getTransaction('txn-123');
+
+      expect(interceptor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Logging', () => {
+    it('should log gateway errors through the injected logger with card data redacted', async () => {
+      (global.fetch as jest.Mock).mockReturnValueOnce(
+        mockFetchResponse(
+          { successful: false, errors: ['Invalid card 4005550000000001'], card_number: '4005550000000001' },
+          422
+        )
+      );
+      const write = jest.fn();
+      const logger = createLogger({ level: 'debug', format: 'json', write });
+
+      await expect(
+        createFatZebraClient({ ...config, logger }).getTransaction('txn-123')
+      ).rejects.toBeInstanceOf(FatZebraError);
+
+      const entries = write.mock.calls.map(([line]) => JSON.parse(line));
+      expect(entries.map(entry => entry.message)).toEqual([
+        'Gateway response',
+        'Gateway returned an error'
+      ]);
+      expect(entries[1].metadata).toMatchObject({
+        status: 422,
+        response: { errors: ['Invalid card ************0001'], card_number: '************0001' }
+      });
+      expect(write.mock.calls.join('\n')).not.toContain('4005550000000001');
+    });
+  });
+
+  describe('Retry Policy', () => {
+    const retryClient = (retry: any = {}) =>
+      createFatZebraClient({ ...config, retry: { baseDelay: 0, jitter: false, ...retry } });
+
+    const errorResponse = (status: number, headers: Record<string, string> = {}) =>
+      Promise.resolve({
+        ok: false,
+        status,
+        headers: new Headers(headers),
+        json: () => Promise.resolve({ successful: false, errors: [`HTTP ${status}`] })
+      });
+
+    beforeEach(() => {
+      (global.fetch as jest.Mock).mockReset();
+    });
+
+    it('should not retry unless a policy is configured', async () => {
+      (global.fetch as jest.Mock).mockReturnValueOnce(errorResponse(503));
+
+      await expect(client.getTransaction('txn-123')).rejects.toBeInstanceOf(GatewayError);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry 5xx responses and succeed', async () => {
+      (global.fetch as jest.Mock)
+        .mockReturnValueOnce(errorResponse(503))
+        .mockResolvedValueOnce(mockFetchResponse(createMockTransactionResponse()));
+
+      const result = await retryClient().getTransaction('txn-123');
+
+      expect(result.successful).toBe(true);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry network errors up to maxRetries', async () => {
+      (global.fetch as jest.Mock).mockRejectedValue(new Error('ECONNRESET'));
+
+      await expect(retryClient({ maxRetries: 2 }).getTransaction('txn-123')).rejects.toBeInstanceOf(
+        NetworkError
+      );
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should never retry declines or validation errors', async () => {
+      (global.fetch as jest.Mock).mockReturnValueOnce(errorResponse(422));
+
+      await expect(retryClient().getTransaction('txn-123')).rejects.toBeInstanceOf(
+        ValidationError
+      );
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry a POST without an idempotency key', async () => {
+      (global.fetch as jest.Mock).mockReturnValueOnce(errorResponse(503));
+      const { reference, ...purchase } = createMockPurchaseRequest();
+
+      await expect(retryClient().purchase(purchase as PurchaseRequest)).rejects.toBeInstanceOf(
+        GatewayError
+      );
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry a POST that carries an idempotency key', async () => {
+      (global.fetch as jest.Mock)
+        .mockReturnValueOnce(errorResponse(502))
+        .mockResolvedValueOnce(mockFetchResponse(createMockTransactionResponse()));
+
+      await retryClient().purchase(createMockPurchaseRequest());
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect((global.fetch as jest.Mock).mock.calls[1][1].headers['Idempotency-Key']).toBe(
+        'purchase-TEST-REF-123'
+      );
+    });
+
+    it('should honour Retry-After on 429 responses', async () => {
+      jest.useFakeTimers();
+      (global.fetch as jest.Mock)
+        .mockReturnValueOnce(errorResponse(429, { 'Retry-After': '2' }))
+        .mockResolvedValueOnce(mockFetchResponse(createMockTransactionResponse()));
+
+      const pending = retryClient().getTransaction('txn-123');
+
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      await pending;
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      jest.useRealTimers();
+    });
+
+    it('should let shouldRetry narrow the retryable errors', async () => {
+      (global.fetch as jest.Mock).mockReturnValueOnce(errorResponse(503));
+      const shouldRetry = jest.fn().mockReturnValue(false);
+
+      await expect(retryClient({ shouldRetry }).getTransaction('txn-123')).rejects.toBeInstanceOf(
+        GatewayError
+      );
+      expect(shouldRetry).toHaveBeenCalledWith(expect.any(GatewayError), 1);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Response Handling', () => {
     it('should handle successful responses correctly', () => {
       const successResponse: FatZebraResponse = {
@@ -288,6 +703,134 @@ describe('FatZebraClient - Standalone Library Tests', () => {
 
       await expect(client.purchase(mockRequest)).rejects.toThrow('Request timeout');
     });
+
+    it('should default the error code to UNKNOWN_ERROR', () => {
+      const error = new FatZebraError('Test error');
+      expect(error.code).toBe('UNKNOWN_ERROR');
+      expect(error.statusCode).toBeUndefined();
+    });
+
+    it('should raise TimeoutError with TIMEOUT code on abort', async () => {
+      const abortError = new Error('The operation was aborted');
+      abortError.name = 'AbortError';
+      (global.fetch as jest.Mock).mockRejectedValueOnce(abortError);
+
+      const error = await client.purchase(createMockPurchaseRequest()).catch(e => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error).toBeInstanceOf(FatZebraError);
+      expect(error.code).toBe('TIMEOUT');
+    });
+
+    it('should raise NetworkError with NETWORK_ERROR code on fetch failure', async () => {
+      (global.fetch as jest.Mock).mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      const error = await client.purchase(createMockPurchaseRequest()).catch(e => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.code).toBe('NETWORK_ERROR');
+      expect(error.message).toBe('Network error: fetch failed');
+    });
+
+    it.each([
+      [400, ValidationError, 'VALIDATION_ERROR'],
+      [422, ValidationError, 'VALIDATION_ERROR'],
+      [401, AuthenticationError, 'AUTHENTICATION_ERROR'],
+      [403, AuthenticationError, 'AUTHENTICATION_ERROR'],
+      [404, FatZebraError, 'NOT_FOUND'],
+      [429, GatewayError, 'RATE_LIMITED'],
+      [503, GatewayError, 'SERVER_ERROR'],
+    ])('should map HTTP %i to %p with code %s', async (status, ErrorClass, code) => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        mockFetchResponse({ successful: false, errors: ['Gateway said no'] }, status)
+      );
+
+      const error = await client.purchase(createMockPurchaseRequest()).catch(e => e);
+
+      expect(error).toBeInstanceOf(ErrorClass);
+      expect(error.code).toBe(code);
+      expect(error.statusCode).toBe(status);
+      expect(error.message).toBe('Gateway said no');
+    });
+
+    it('should classify non-JSON error pages by status', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 502,
+        json: () => Promise.reject(new SyntaxError('Unexpected token <'))
+      });
+
+      const error = await client.purchase(createMockPurchaseRequest()).catch(e => e);
+
+      expect(error).toBeInstanceOf(GatewayError);
+      expect(error.message).toBe('HTTP 502');
+    });
+  });
+
+  describe('Decline Codes', () => {
+    const declined = (overrides: Record<string, any>, errors: string[] = ['Declined']) => ({
+      successful: false,
+      response: { ...createMockTransactionResponse().response, successful: false, ...overrides },
+      errors
+    });
+
+    it('should map gateway response codes to stable error codes', () => {
+      const cases: Array<[string, string]> = [
+        ['51', 'INSUFFICIENT_FUNDS'],
+        ['54', 'EXPIRED_CARD'],
+        ['14', 'INVALID_CARD'],
+        ['59', 'SUSPECTED_FRAUD'],
+        ['05', 'DECLINED'],
+      ];
+
+      cases.forEach(([responseCode, code]) => {
+        try {
+          handleFatZebraResponse(declined({ response_code: responseCode }));
+          throw new Error('Expected handleFatZebraResponse to throw');
+        } catch (error: any) {
+          expect(error).toBeInstanceOf(DeclinedError);
+          expect(error.code).toBe(code);
+        }
+      });
+    });
+
+    it('should fall back to the decline message when no response code is present', () => {
+      expect(() =>
+        handleFatZebraResponse(declined({}, ['Insufficient Funds']))
+      ).toThrow(expect.objectContaining({ code: 'INSUFFICIENT_FUNDS' }));
+    });
+
+    it('should treat an unapproved transaction in a successful response as declined', () => {
+      const response = {
+        successful: true,
+        response: {
+          ...createMockTransactionResponse().response,
+          successful: false,
+          message: 'Expired Card',
+          response_code: '54'
+        },
+        errors: []
+      };
+
+      expect(() => handleFatZebraResponse(response)).toThrow(DeclinedError);
+      expect(() => handleFatZebraResponse(response)).toThrow(
+        expect.objectContaining({ code: 'EXPIRED_CARD', message: 'Expired Card' })
+      );
+    });
+
+    it('should keep a plain FatZebraError for non-transaction failures', () => {
+      const error = (() => {
+        try {
+          return handleFatZebraResponse({ successful: false, errors: ['Something odd'] });
+        } catch (e) {
+          return e;
+        }
+      })() as FatZebraError;
+
+      expect(error).not.toBeInstanceOf(DeclinedError);
+      expect(error.code).toBe('UNKNOWN_ERROR');
+    });
   });
 
   describe('Standalone Library Features', () => {
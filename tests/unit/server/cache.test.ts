@@ -0,0 +1,120 @@
+import {
+  cardCacheKey,
+  createResponseCache,
+  MemoryResponseCacheStore,
+  transactionCacheKey
+} from '../../../src/server/cache';
+
+const config = { username: 'merchant', token: 'token', sandbox: true };
+
+const transaction = (id: string) => ({ successful: true, response: { id } });
+
+describe('MemoryResponseCacheStore', () => {
+  it('should evict the least recently used item past maxSize', async () => {
+    const store = new MemoryResponseCacheStore(2);
+    const item = (data: string) => ({ data, timestamp: Date.now(), ttl: 60000 });
+
+    await store.set('a', item('a'));
+    await store.set('b', item('b'));
+    await store.get('a');
+    await store.set('c', item('c'));
+
+    expect(await store.get('a')).toBeDefined();
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBeDefined();
+  });
+
+  it('should drop expired items', async () => {
+    const store = new MemoryResponseCacheStore();
+
+    await store.set('a', { data: 'a', timestamp: Date.now() - 1000, ttl: 1000 });
+
+    expect(await store.get('a')).toBeUndefined();
+  });
+});
+
+describe('ResponseCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should load once and serve hits until the ttl passes', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const cache = createResponseCache({ ttl: 1000 });
+    const load = jest.fn().mockResolvedValue(transaction('txn-1'));
+
+    const first = await cache.fetch('key', load);
+    const second = await cache.fetch('key', load);
+    jest.setSystemTime(1000);
+    const third = await cache.fetch('key', load);
+
+    expect([first.cached, second.cached, third.cached]).toEqual([false, true, false]);
+    expect(second.result).toEqual(transaction('txn-1'));
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should ignore expired items returned by a custom store', async () => {
+    const store = {
+      get: jest.fn().mockResolvedValue({ data: transaction('stale'), timestamp: 0, ttl: 1000 }),
+      set: jest.fn().mockResolvedValue(undefined),
+      delete: jest.fn().mockResolvedValue(undefined)
+    };
+    const cache = createResponseCache({ store });
+
+    const { result, cached } = await cache.fetch('key', async () => transaction('fresh'));
+
+    expect(cached).toBe(false);
+    expect(result.response.id).toBe('fresh');
+    expect(store.set).toHaveBeenCalledWith('key', expect.objectContaining({ ttl: 10000 }));
+  });
+
+  it('should fall back to the gateway when the store fails', async () => {
+    const store = {
+      get: jest.fn().mockRejectedValue(new Error('connection refused')),
+      set: jest.fn().mockRejectedValue(new Error('connection refused')),
+      delete: jest.fn().mockRejectedValue(new Error('connection refused'))
+    };
+    const cache = createResponseCache({ store });
+
+    await expect(cache.fetch('key', async () => transaction('txn-1'))).resolves.toEqual({
+      result: transaction('txn-1'),
+      cached: false
+    });
+    await expect(cache.invalidate('key')).resolves.toBeUndefined();
+  });
+
+  it('should forget invalidated keys', async () => {
+    const cache = createResponseCache();
+    const load = jest.fn().mockResolvedValue(transaction('txn-1'));
+
+    await cache.fetch('key', load);
+    await cache.invalidate('key');
+    const { cached } = await cache.fetch('key', load);
+
+    expect(cached).toBe(false);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should bypass the store when disabled', async () => {
+    const cache = createResponseCache({ enabled: false });
+    const load = jest.fn().mockResolvedValue(transaction('txn-1'));
+
+    await cache.fetch('key', load);
+    const { cached } = await cache.fetch('key', load);
+
+    expect(cached).toBe(false);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('cache keys', () => {
+  it('should be scoped to the merchant and gateway', () => {
+    expect(transactionCacheKey(config, 'txn-1')).toBe('merchant@sandbox:transaction:txn-1');
+    expect(transactionCacheKey({ ...config, sandbox: false }, 'txn-1')).not.toBe(
+      transactionCacheKey(config, 'txn-1')
+    );
+    expect(cardCacheKey({ ...config, username: 'other' }, 'card-1')).toBe(
+      'other@sandbox:card:card-1'
+    );
+  });
+});
@@ -0,0 +1,167 @@
+import { cors, withCors } from '../../../src/server/cors';
+import { compose } from '../../../src/server/middleware';
+import { createExpressHandler } from '../../../src/server';
+
+const STOREFRONT = 'https://shop.example.com';
+
+const createRequest = (headers: Record<string, string> = {}, method = 'POST') => ({
+  method,
+  url: '/api/purchase',
+  headers,
+  body: '{}',
+  json: () => Promise.resolve({})
+});
+
+const preflight = (origin = STOREFRONT, headers: Record<string, string> = {}) =>
+  createRequest(
+    { origin, 'access-control-request-method': 'POST', ...headers },
+    'OPTIONS'
+  );
+
+describe('cors', () => {
+  let handler: jest.Mock;
+
+  beforeEach(() => {
+    handler = jest.fn().mockImplementation(async () => ({
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ successful: true })
+    }));
+  });
+
+  it('should answer preflight requests without calling the handler', async () => {
+    const response: any = await withCors(handler, {
+      origin: STOREFRONT,
+      methods: ['POST'],
+      maxAge: 600
+    })(preflight(STOREFRONT, { 'access-control-request-headers': 'content-type, idempotency-key' }));
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(response.status).toBe(204);
+    expect(response.headers).toEqual({
+      'Access-Control-Allow-Origin': STOREFRONT,
+      'Access-Control-Allow-Methods': 'POST',
+      'Access-Control-Allow-Headers': 'content-type, idempotency-key',
+      'Access-Control-Max-Age': '600',
+      Vary: 'Origin'
+    });
+  });
+
+  it('should use configured allowed headers', async () => {
+    const response: any = await withCors(handler, { allowedHeaders: ['Content-Type'] })(
+      preflight(STOREFRONT, { 'access-control-request-headers': 'x-anything' })
+    );
+
+    expect(response.headers['Access-Control-Allow-Headers']).toBe('Content-Type');
+  });
+
+  it('should add CORS headers to actual responses', async () => {
+    const response: any = await withCors(handler, {
+      origin: [STOREFRONT],
+      exposedHeaders: ['X-Request-Id', 'X-RateLimit-Remaining']
+    })(createRequest({ origin: STOREFRONT }));
+
+    expect(handler).toHaveBeenCalled();
+    expect(response.headers).toMatchObject({
+      'content-type': 'application/json',
+      'Access-Control-Allow-Origin': STOREFRONT,
+      'Access-Control-Expose-Headers': 'X-Request-Id, X-RateLimit-Remaining',
+      Vary: 'Origin'
+    });
+  });
+
+  it('should allow any origin with a wildcard by default', async () => {
+    const response: any = await withCors(handler)(createRequest({ origin: STOREFRONT }));
+
+    expect(response.headers['Access-Control-Allow-Origin']).toBe('*');
+    expect(response.headers.Vary).toBeUndefined();
+  });
+
+  it('should require an allow-list when credentials are on', () => {
+    expect(() => withCors(handler, { credentials: true })).toThrow('explicit origin allow-list');
+    expect(() => withCors(handler, { origin: true, credentials: true })).toThrow();
+  });
+
+  it('should only send credentials to allow-listed origins', async () => {
+    const withCredentials = withCors(handler, { origin: STOREFRONT, credentials: true });
+
+    const allowed: any = await withCredentials(createRequest({ origin: STOREFRONT }));
+    const foreign: any = await withCredentials(createRequest({ origin: 'https://evil.example' }));
+
+    expect(allowed.headers['Access-Control-Allow-Origin']).toBe(STOREFRONT);
+    expect(allowed.headers['Access-Control-Allow-Credentials']).toBe('true');
+    expect(foreign.headers['Access-Control-Allow-Origin']).toBeUndefined();
+    expect(foreign.headers['Access-Control-Allow-Credentials']).toBeUndefined();
+  });
+
+  it('should match origins against regexes and functions', async () => {
+    const regex = withCors(handler, { origin: [/^https:\/\/[a-z]+\.example\.com$/] });
+    const fn = withCors(handler, { origin: async origin => origin.endsWith('.example.com') });
+
+    const allowed: any = await regex(createRequest({ origin: 'https://checkout.example.com' }));
+    const rejected: any = await regex(createRequest({ origin: 'https://example.com.evil.test' }));
+    const byFunction: any = await fn(createRequest({ origin: STOREFRONT }));
+
+    expect(allowed.headers['Access-Control-Allow-Origin']).toBe('https://checkout.example.com');
+    expect(rejected.headers['Access-Control-Allow-Origin']).toBeUndefined();
+    expect(byFunction.headers['Access-Control-Allow-Origin']).toBe(STOREFRONT);
+  });
+
+  it('should not allow origins outside the allow-list', async () => {
+    const response: any = await withCors(handler, { origin: STOREFRONT })(
+      preflight('https://evil.test')
+    );
+
+    expect(response.status).toBe(204);
+    expect(response.headers['Access-Control-Allow-Origin']).toBeUndefined();
+    expect(response.headers['Access-Control-Allow-Methods']).toBeUndefined();
+  });
+
+  it('should pass same-origin requests through untouched', async () => {
+    const response: any = await compose(cors({ origin: STOREFRONT }))(handler)(createRequest());
+
+    expect(response.headers).toEqual({ 'content-type': 'application/json' });
+  });
+});
+
+describe('createExpressHandler with CORS', () => {
+  const createResponse = () => {
+    const headers: Record<string, string> = {};
+    return {
+      statusCode: 200,
+      headers,
+      setHeader: jest.fn((name: string, value: string) => {
+        headers[name] = value;
+      }),
+      end: jest.fn()
+    };
+  };
+
+  it('should answer preflight requests with an empty 204', async () => {
+    const handler = jest.fn();
+    const res = createResponse();
+
+    await createExpressHandler(handler, {
+      enableCors: true,
+      corsOptions: { origin: STOREFRONT }
+    })(preflight(), res);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(204);
+    expect(res.headers['Access-Control-Allow-Origin']).toBe(STOREFRONT);
+    expect(res.end).toHaveBeenCalledWith();
+  });
+
+  it('should leave CORS off unless enabled', async () => {
+    const handler = jest.fn().mockResolvedValue({ status: 200, headers: {}, body: '{}' });
+    const res = createResponse();
+
+    await createExpressHandler(handler, { corsOptions: { origin: STOREFRONT } })(
+      createRequest({ origin: STOREFRONT }, 'GET'),
+      res
+    );
+
+    expect(handler).toHaveBeenCalled();
+    expect(res.headers['Access-Control-Allow-Origin']).toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  checkHealth,
+  getHealthCheckType,
+  getUptime,
+  respondToHealthCheck
+} from '../../../src/server/health';
+import { VERSION } from '../../../src/utils/version';
+
+const { mockFetchResponse } = require('../../setup');
+const packageJson = require('../../../package.json');
+
+const config = { username: 'merchant', token: 'token', sandbox: true };
+
+const respondWith = (data: any, status?: number) =>
+  (global.fetch as jest.Mock).mockImplementation(() => mockFetchResponse(data, status));
+
+const readBody = async (response: any) =>
+  typeof response.body === 'string' ? JSON.parse(response.body) : response.json();
+
+describe('health checks', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    (global.fetch as jest.Mock).mockReset();
+    process.env = { ...originalEnv };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should report the package version', () => {
+    expect(VERSION).toBe(packageJson.version);
+  });
+
+  it('should answer liveness without calling the gateway', async () => {
+    const result = await checkHealth({ config });
+
+    expect(result).toMatchObject({
+      status: 'ok',
+      version: VERSION,
+      mode: 'standalone',
+      check: 'liveness',
+      uptime: expect.any(Number)
+    });
+    expect(result.dependencies).toBeUndefined();
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should probe the gateway with the credentials for readiness', async () => {
+    respondWith({ successful: true, response: [] });
+
+    const result = await checkHealth({ check: 'readiness', config });
+
+    expect(result.status).toBe('ok');
+    expect(result.dependencies).toEqual({ config: 'ok', gateway: 'ok' });
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('https://gateway.sandbox.fatzebra.com.au/v1.0/credit_cards?per_page=1');
+    expect(init.method).toBe('GET');
+    expect(init.headers.Authorization).toBe(`Basic ${btoa('merchant:token')}`);
+  });
+
+  it('should fail readiness when the gateway rejects the credentials', async () => {
+    respondWith({ successful: false, errors: ['Invalid credentials'] }, 401);
+
+    const result = await checkHealth({ check: 'readiness', config });
+
+    expect(result.status).toBe('error');
+    expect(result.dependencies).toEqual({ config: 'ok', gateway: 'error' });
+  });
+
+  it('should fail readiness when the gateway is unreachable', async () => {
+    (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+    const result = await checkHealth({ check: 'readiness', config });
+
+    expect(result.dependencies?.gateway).toBe('error');
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail readiness without credentials or required environment variables', async () => {
+    respondWith({ successful: true, response: [] });
+    delete process.env.FAT_ZEBRA_SHARED_SECRET;
+
+    const missingConfig = await checkHealth({ check: 'readiness' });
+    const missingEnv = await checkHealth({
+      check: 'readiness',
+      config,
+      requiredEnv: ['FAT_ZEBRA_SHARED_SECRET']
+    });
+
+    expect(missingConfig.dependencies).toEqual({ config: 'error', gateway: 'error' });
+    expect(missingEnv.dependencies).toEqual({ config: 'error', gateway: 'ok' });
+  });
+
+  it('should select the check from the query string', () => {
+    expect(getHealthCheckType({ url: '/health?check=readiness', headers: {} })).toBe('readiness');
+    expect(getHealthCheckType({ url: 'https://shop.example/health?check=ready', headers: {} })).toBe(
+      'readiness'
+    );
+    expect(getHealthCheckType({ url: '/health', headers: {} })).toBe('liveness');
+    expect(getHealthCheckType({ headers: {} })).toBe('liveness');
+  });
+
+  it('should answer 503 when a readiness check fails', async () => {
+    const response = await respondToHealthCheck(
+      { method: 'GET', url: '/health?check=readiness', headers: {} },
+      {}
+    );
+
+    expect(response.status).toBe(503);
+    expect((await readBody(response)).status).toBe('error');
+  });
+
+  it('should count uptime in seconds', () => {
+    expect(getUptime()).toBeGreaterThanOrEqual(0);
+    expect(Number.isInteger(getUptime())).toBe(true);
+  });
+});
@@ -0,0 +1,155 @@
+import {
+  withIdempotency,
+  MemoryIdempotencyStore,
+  getIdempotencyOptions
+} from '../../../src/server/idempotency';
+import { extractRequestData } from '../../../src/server/types';
+
+const createRequest = (body: any, headers: Record<string, string> = {}) => ({
+  method: 'POST',
+  url: '/api/purchase',
+  headers,
+  body: JSON.stringify(body),
+  json: () => Promise.resolve(body)
+});
+
+const readBody = async (response: any) =>
+  typeof response.body === 'string' ? JSON.parse(response.body) : response.json();
+
+describe('withIdempotency', () => {
+  let store: MemoryIdempotencyStore;
+  let handler: jest.Mock;
+
+  beforeEach(() => {
+    store = new MemoryIdempotencyStore();
+    handler = jest.fn().mockImplementation(async () => ({
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ successful: true, response: { id: `txn-${handler.mock.calls.length}` } })
+    }));
+  });
+
+  it('should pass requests without a key straight through', async () => {
+    const wrapped = withIdempotency(handler, { store });
+
+    await wrapped(createRequest({ amount: 1000 }));
+    await wrapped(createRequest({ amount: 1000 }));
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should replay the stored response for a repeated key', async () => {
+    const wrapped = withIdempotency(handler, { store });
+    const headers = { 'Idempotency-Key': 'order-1' };
+
+    const first = await wrapped(createRequest({ amount: 1000 }, headers));
+    const second = await wrapped(createRequest({ amount: 1000 }, headers));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(second.status).toBe(200);
+    expect(await readBody(second)).toEqual(await readBody(first));
+  });
+
+  it('should reject a key reused with a different body', async () => {
+    const wrapped = withIdempotency(handler, { store });
+    const headers = { 'idempotency-key': 'order-1' };
+
+    await wrapped(createRequest({ amount: 1000 }, headers));
+    const response = await wrapped(createRequest({ amount: 2000 }, headers));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(response.status).toBe(422);
+  });
+
+  it('should tell apart object bodies a framework already parsed', async () => {
+    const wrapped = withIdempotency(handler, { store });
+    const headers = { 'idempotency-key': 'order-1' };
+
+    await wrapped({ ...createRequest({}, headers), body: { amount: 1000 } } as any);
+    const response = await wrapped({ ...createRequest({}, headers), body: { amount: 2000 } } as any);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(response.status).toBe(422);
+  });
+
+  it('should leave a body that json() can only return once readable by the handler', async () => {
+    let reads = 0;
+    const request = {
+      method: 'POST',
+      url: '/api/purchase',
+      headers: { 'idempotency-key': 'order-1' },
+      json: async () => {
+        if (reads++ > 0) throw new TypeError('Body is unusable');
+        return { amount: 1000 };
+      }
+    };
+    const wrapped = withIdempotency(async request => {
+      const { body } = await extractRequestData(request);
+      return handler({ ...request, body: JSON.stringify(body) });
+    }, { store });
+
+    const response = await wrapped(request);
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(handler.mock.calls[0][0].body)).toEqual({ amount: 1000 });
+  });
+
+  it('should reject a repeat while the first request is in progress', async () => {
+    let release: () => void = () => {};
+    handler.mockImplementationOnce(
+      () =>
+        new Promise(resolve => {
+          release = () => resolve({ status: 200, body: JSON.stringify({ successful: true }) });
+        })
+    );
+    const wrapped = withIdempotency(handler, { store });
+    const headers = { 'idempotency-key': 'order-1' };
+
+    const pending = wrapped(createRequest({ amount: 1000 }, headers));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const concurrent = await wrapped(createRequest({ amount: 1000 }, headers));
+    release();
+    await pending;
+
+    expect(concurrent.status).toBe(409);
+  });
+
+  it('should not store server errors so the call can be retried', async () => {
+    handler.mockResolvedValueOnce({ status: 502, body: JSON.stringify({ successful: false }) });
+    const wrapped = withIdempotency(handler, { store });
+    const headers = { 'idempotency-key': 'order-1' };
+
+    const first = await wrapped(createRequest({ amount: 1000 }, headers));
+    const second = await wrapped(createRequest({ amount: 1000 }, headers));
+
+    expect(first.status).toBe(502);
+    expect(second.status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should expire records after the ttl', async () => {
+    const wrapped = withIdempotency(handler, { store, ttl: 1000 });
+    const headers = { 'idempotency-key': 'order-1' };
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await wrapped(createRequest({ amount: 1000 }, headers));
+    spy.mockReturnValue(now + 1001);
+    await wrapped(createRequest({ amount: 1000 }, headers));
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    spy.mockRestore();
+  });
+});
+
+describe('getIdempotencyOptions', () => {
+  it('should return the key from the request headers', () => {
+    expect(getIdempotencyOptions({ headers: { 'Idempotency-Key': 'abc' } })).toEqual({
+      idempotencyKey: 'abc'
+    });
+  });
+
+  it('should return empty options when no key was sent', () => {
+    expect(getIdempotencyOptions({ headers: {} })).toEqual({});
+  });
+});
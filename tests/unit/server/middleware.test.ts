@@ -0,0 +1,301 @@
+import {
+  allowMethods,
+  compose,
+  jsonBody,
+  normalizeErrors,
+  requestId,
+  requestLogger,
+  requireAuth,
+  timing
+} from '../../../src/server/middleware';
+import { createLogger } from '../../../src/utils/logger';
+import { GatewayError, ValidationError } from '../../../src/types';
+
+const createRequest = (overrides: any = {}) => ({
+  method: 'POST',
+  url: '/api/purchase',
+  headers: { 'x-forwarded-for': '203.0.113.1' } as Record<string, string>,
+  body: JSON.stringify({ amount: 1000 }),
+  json: () => Promise.resolve({ amount: 1000 }),
+  ...overrides
+});
+
+const readBody = async (response: any) =>
+  typeof response.body === 'string' ? JSON.parse(response.body) : response.json();
+
+const getHeader = (response: any, name: string) =>
+  typeof response.headers?.get === 'function' ? response.headers.get(name) : response.headers[name];
+
+describe('compose', () => {
+  let handler: jest.Mock;
+
+  beforeEach(() => {
+    handler = jest.fn().mockImplementation(async () => ({
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ successful: true })
+    }));
+  });
+
+  it('should run middleware in order around the handler', async () => {
+    const calls: string[] = [];
+    const trace = (name: string) => async (_request: any, next: () => Promise<any>) => {
+      calls.push(`${name}:before`);
+      const response = await next();
+      calls.push(`${name}:after`);
+      return response;
+    };
+
+    const response = await compose(trace('outer'), trace('inner'))(handler)(createRequest());
+
+    expect(response.status).toBe(200);
+    expect(calls).toEqual(['outer:before', 'inner:before', 'inner:after', 'outer:after']);
+  });
+
+  it('should let middleware short-circuit the handler', async () => {
+    const response = await compose(allowMethods('GET'))(handler)(createRequest());
+
+    expect(response.status).toBe(405);
+    expect(getHeader(response, 'Allow')).toBe('GET');
+    expect(await readBody(response)).toMatchObject({
+      successful: false,
+      error: 'Method not allowed',
+      code: 'METHOD_NOT_ALLOWED'
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should reject next() being called twice', async () => {
+    const twice = async (_request: any, next: () => Promise<any>) => {
+      await next();
+      return next();
+    };
+
+    await expect(compose(twice)(handler)(createRequest())).rejects.toThrow(
+      'next() called multiple times'
+    );
+  });
+
+  it('should call the handler directly without middleware', async () => {
+    const request = createRequest();
+
+    await compose()(handler)(request);
+
+    expect(handler).toHaveBeenCalledWith(request);
+  });
+
+  describe('requestId', () => {
+    it('should generate an ID and set it on the request and response', async () => {
+      const response: any = await compose(requestId({ generate: () => 'req-1' }))(handler)(
+        createRequest()
+      );
+
+      expect(handler.mock.calls[0][0].requestId).toBe('req-1');
+      expect(response.headers['x-request-id']).toBe('req-1');
+      expect(response.requestId).toBe('req-1');
+    });
+
+    it('should reuse an incoming ID unless told not to', async () => {
+      const request = () => createRequest({ headers: { 'X-Request-Id': 'from-client' } });
+      const generate = () => 'generated';
+
+      const reused: any = await compose(requestId({ generate }))(handler)(request());
+      const replaced: any = await compose(requestId({ generate, trustIncoming: false }))(handler)(
+        request()
+      );
+
+      expect(reused.requestId).toBe('from-client');
+      expect(replaced.requestId).toBe('generated');
+    });
+
+    it('should include the ID in error responses', async () => {
+      const response = await compose(
+        requestId({ generate: () => 'req-2' }),
+        allowMethods('GET')
+      )(handler)(createRequest());
+
+      expect((await readBody(response)).requestId).toBe('req-2');
+    });
+  });
+
+  describe('timing', () => {
+    it('should set processingTime and X-Response-Time', async () => {
+      const response: any = await compose(timing())(handler)(
+        createRequest({ headers: { 'user-agent': 'jest', 'x-forwarded-for': '203.0.113.9' } })
+      );
+      const request = handler.mock.calls[0][0];
+
+      expect(typeof response.processingTime).toBe('number');
+      expect(response.headers['X-Response-Time']).toBe(`${response.processingTime}ms`);
+      expect(request.timestamp).toBeInstanceOf(Date);
+      expect(request.ip).toBe('203.0.113.9');
+      expect(request.userAgent).toBe('jest');
+    });
+  });
+
+  describe('allowMethods', () => {
+    it('should pass allowed methods regardless of case', async () => {
+      const response = await compose(allowMethods('post', 'PUT'))(handler)(createRequest());
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('jsonBody', () => {
+    it('should parse the body onto the request', async () => {
+      await compose(jsonBody())(handler)(createRequest());
+
+      expect(handler.mock.calls[0][0].parsedBody).toEqual({ amount: 1000 });
+    });
+
+    it('should reject malformed JSON with 400', async () => {
+      const response = await compose(jsonBody())(handler)(createRequest({ body: '{"amount":' }));
+
+      expect(response.status).toBe(400);
+      expect((await readBody(response)).error).toBe('Request body must be valid JSON');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should only require a body when configured', async () => {
+      const empty = () => createRequest({ body: '' });
+
+      expect((await compose(jsonBody())(handler)(empty())).status).toBe(200);
+      expect((await compose(jsonBody({ required: true }))(handler)(empty())).status).toBe(400);
+    });
+  });
+
+  describe('normalizeErrors', () => {
+    it('should map Fat Zebra errors to an ErrorResponse', async () => {
+      handler.mockRejectedValueOnce(new ValidationError('Invalid amount', ['amount is required']));
+
+      const response = await compose(normalizeErrors())(handler)(createRequest());
+
+      expect(response.status).toBe(400);
+      expect(await readBody(response)).toMatchObject({
+        successful: false,
+        error: 'Invalid amount',
+        code: 'VALIDATION_ERROR',
+        details: ['amount is required'],
+        timestamp: expect.any(String)
+      });
+    });
+
+    it('should answer 502 for gateway failures', async () => {
+      handler.mockRejectedValueOnce(new GatewayError('Gateway unavailable'));
+
+      const response = await compose(normalizeErrors())(handler)(createRequest());
+
+      expect(response.status).toBe(502);
+    });
+
+    it('should use the status code of server errors', async () => {
+      const error = Object.assign(new Error('Order not found'), {
+        statusCode: 404,
+        code: 'NOT_FOUND'
+      });
+      handler.mockRejectedValueOnce(error);
+
+      const response = await compose(normalizeErrors())(handler)(createRequest());
+
+      expect(response.status).toBe(404);
+      expect(await readBody(response)).toMatchObject({ error: 'Order not found', code: 'NOT_FOUND' });
+    });
+
+    it('should hide the message of unexpected errors and report them', async () => {
+      const onError = jest.fn();
+      handler.mockRejectedValueOnce(new Error('connection string leaked'));
+
+      const response = await compose(normalizeErrors(onError))(handler)(createRequest());
+
+      expect(response.status).toBe(500);
+      expect((await readBody(response)).error).toBe('Internal server error');
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), expect.anything());
+    });
+  });
+
+  describe('requestLogger', () => {
+    it('should give the request a logger that carries its request ID', async () => {
+      const write = jest.fn();
+      const logger = createLogger({ format: 'json', write });
+      handler.mockImplementationOnce(async (request: any) => {
+        request.logger.info('Charging card');
+        return { status: 201, headers: {}, body: '{}' };
+      });
+
+      await compose(requestId({ generate: () => 'req-1' }), requestLogger(logger))(handler)(
+        createRequest({ headers: { 'user-agent': 'jest', 'x-forwarded-for': '203.0.113.1' } })
+      );
+
+      const entries = write.mock.calls.map(([line]) => JSON.parse(line));
+      expect(entries).toEqual([
+        expect.objectContaining({ message: 'Charging card', requestId: 'req-1', ip: '203.0.113.1' }),
+        expect.objectContaining({
+          message: 'Request completed',
+          requestId: 'req-1',
+          userAgent: 'jest',
+          metadata: expect.objectContaining({ method: 'POST', status: 201 })
+        })
+      ]);
+    });
+
+    it('should log errors normalized further down the pipeline', async () => {
+      const write = jest.fn();
+      handler.mockRejectedValueOnce(new Error('database unavailable'));
+
+      await compose(requestLogger(createLogger({ format: 'json', write })), normalizeErrors())(
+        handler
+      )(createRequest());
+
+      const entries = write.mock.calls.map(([line]) => JSON.parse(line));
+      expect(entries.map(entry => [entry.level, entry.message])).toEqual([
+        ['error', 'Unhandled route error'],
+        ['error', 'Request failed']
+      ]);
+      expect(entries[0].metadata.error.message).toBe('database unavailable');
+    });
+  });
+
+  describe('requireAuth', () => {
+    it('should accept a configured API key as a Bearer token or X-API-Key', async () => {
+      const protectedHandler = compose(requireAuth({ apiKeys: ['key-1'] }))(handler);
+
+      const bearer = await protectedHandler(
+        createRequest({ headers: { authorization: 'Bearer key-1' } })
+      );
+      const apiKey = await protectedHandler(createRequest({ headers: { 'x-api-key': 'key-1' } }));
+
+      expect(bearer.status).toBe(200);
+      expect(apiKey.status).toBe(200);
+    });
+
+    it('should reject missing or unknown keys with 401', async () => {
+      const protectedHandler = compose(requireAuth({ apiKeys: ['key-1'] }))(handler);
+
+      const missing = await protectedHandler(createRequest());
+      const wrong = await protectedHandler(
+        createRequest({ headers: { authorization: 'Bearer key-2' } })
+      );
+
+      expect(missing.status).toBe(401);
+      expect(getHeader(missing, 'WWW-Authenticate')).toBe('Bearer');
+      expect(wrong.status).toBe(401);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should store the result of a custom verify on the request', async () => {
+      const verify = jest.fn(async (_request: any, token?: string) =>
+        token === 'session-1' ? { userId: 'user-1' } : undefined
+      );
+
+      await compose(requireAuth({ verify }))(handler)(
+        createRequest({ headers: { authorization: 'Bearer session-1' } })
+      );
+
+      expect(handler.mock.calls[0][0].auth).toEqual({ userId: 'user-1' });
+    });
+
+    it('should need apiKeys or verify', () => {
+      expect(() => requireAuth({})).toThrow('requireAuth needs apiKeys or a verify function');
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import {
+  withRateLimit,
+  MemoryRateLimitStore,
+  getCardFingerprint
+} from '../../../src/server/rate-limit';
+
+const createRequest = (body: any, ip = '203.0.113.1') => ({
+  method: 'POST',
+  url: '/api/purchase',
+  headers: {},
+  remoteAddress: ip,
+  body: JSON.stringify(body),
+  json: () => Promise.resolve(body)
+});
+
+const readBody = async (response: any) =>
+  typeof response.body === 'string' ? JSON.parse(response.body) : response.json();
+
+describe('withRateLimit', () => {
+  let store: MemoryRateLimitStore;
+  let handler: jest.Mock;
+
+  beforeEach(() => {
+    store = new MemoryRateLimitStore();
+    handler = jest.fn().mockImplementation(async () => ({
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ successful: true })
+    }));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should reject requests over the limit with 429 and Retry-After', async () => {
+    const limited = withRateLimit(handler, { store, maxRequests: 2, windowMs: 60000 });
+
+    await limited(createRequest({ amount: 1000 }));
+    await limited(createRequest({ amount: 1000 }));
+    const response: any = await limited(createRequest({ amount: 1000 }));
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(response.status).toBe(429);
+    expect(response.headers['Retry-After']).toBe('60');
+    expect(response.headers['X-RateLimit-Remaining']).toBe('0');
+    expect((await readBody(response)).errors).toEqual(['Too many requests, please try again later']);
+  });
+
+  it('should add rate limit headers to allowed responses', async () => {
+    jest.useFakeTimers({ now: 1_700_000_000_000 });
+    const limited = withRateLimit(handler, { store, maxRequests: 5, windowMs: 60000 });
+
+    const response: any = await limited(createRequest({ amount: 1000 }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers).toMatchObject({
+      'content-type': 'application/json',
+      'X-RateLimit-Limit': '5',
+      'X-RateLimit-Remaining': '4',
+      'X-RateLimit-Reset': '1700000060'
+    });
+  });
+
+  it('should count requests in a sliding window', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const limited = withRateLimit(handler, { store, maxRequests: 2, windowMs: 60000 });
+
+    await limited(createRequest({}));
+    jest.setSystemTime(30000);
+    await limited(createRequest({}));
+
+    jest.setSystemTime(59999);
+    expect((await limited(createRequest({}))).status).toBe(429);
+
+    // The first request has left the window; the second still counts
+    jest.setSystemTime(60001);
+    expect((await limited(createRequest({}))).status).toBe(200);
+    expect((await limited(createRequest({}))).status).toBe(429);
+  });
+
+  it('should key on the client IP by default', async () => {
+    const limited = withRateLimit(handler, { store, maxRequests: 1 });
+
+    await limited(createRequest({}, '203.0.113.1'));
+    const otherClient = await limited(createRequest({}, '203.0.113.2'));
+    const sameClient = await limited(createRequest({}, '203.0.113.1'));
+
+    expect(otherClient.status).toBe(200);
+    expect(sameClient.status).toBe(429);
+  });
+
+  it('should not let a spoofed X-Forwarded-For reset the limit', async () => {
+    const limited = withRateLimit(handler, { store, maxRequests: 1 });
+    const spoofed = (forwardedFor: string) => ({
+      ...createRequest({}, '203.0.113.1'),
+      headers: { 'x-forwarded-for': forwardedFor }
+    });
+
+    await limited(spoofed('198.51.100.1'));
+    const response = await limited(spoofed('198.51.100.2'));
+
+    expect(response.status).toBe(429);
+  });
+
+  it('should read the address appended by trusted proxies with trustProxy', async () => {
+    const limited = withRateLimit(handler, { store, maxRequests: 1, trustProxy: true });
+    const viaProxy = (forwardedFor: string) => ({
+      ...createRequest({}, '10.0.0.1'),
+      headers: { 'x-forwarded-for': forwardedFor }
+    });
+
+    await limited(viaProxy('198.51.100.1, 203.0.113.1'));
+    const spoofed = await limited(viaProxy('198.51.100.2, 203.0.113.1'));
+    const otherClient = await limited(viaProxy('203.0.113.2'));
+
+    expect(spoofed.status).toBe(429);
+    expect(otherClient.status).toBe(200);
+  });
+
+  it('should not put clients without an address in one shared bucket', async () => {
+    const limited = withRateLimit(handler, { store, maxRequests: 1 });
+    const anonymous = () => ({ ...createRequest({}), remoteAddress: undefined });
+
+    await limited(anonymous());
+    const response = await limited(anonymous());
+
+    expect(response.status).toBe(200);
+    expect(response.headers['X-RateLimit-Limit']).toBeUndefined();
+  });
+
+  it('should key on the card fingerprint across IPs', async () => {
+    const limited = withRateLimit(handler, { store, maxRequests: 1, key: 'card' });
+    const purchase = (card: string) => ({ purchaseData: { card_number: card, amount: 100 } });
+
+    await limited(createRequest(purchase('4005550000000001'), '203.0.113.1'));
+    const sameCard = await limited(createRequest(purchase('4005 5500 0000 0001'), '203.0.113.2'));
+    const otherCard = await limited(createRequest(purchase('5123456789012346'), '203.0.113.1'));
+
+    expect(sameCard.status).toBe(429);
+    expect(otherCard.status).toBe(200);
+  });
+
+  it('should find the card in authorization and tokenization bodies', async () => {
+    const limited = withRateLimit(handler, { store, maxRequests: 1, key: 'card' });
+
+    await limited(
+      createRequest({ authData: { card_number: '4005550000000001', amount: 100 } }, '203.0.113.1')
+    );
+    const tokenization = await limited(
+      createRequest({ tokenData: { card_number: '4005550000000001' } }, '203.0.113.2')
+    );
+
+    expect(tokenization.status).toBe(429);
+  });
+
+  it('should support a custom key and skip requests without one', async () => {
+    const limited = withRateLimit(handler, {
+      store,
+      maxRequests: 1,
+      key: request => (request as any).headers['x-customer-id']
+    });
+    const withCustomer = { ...createRequest({}), headers: { 'x-customer-id': 'cus-1' } };
+
+    await limited(withCustomer);
+    expect((await limited(withCustomer)).status).toBe(429);
+
+    await limited(createRequest({}));
+    expect((await limited(createRequest({}))).status).toBe(200);
+  });
+
+  it('should not count successful responses with skipSuccessful', async () => {
+    const limited = withRateLimit(handler, { store, maxRequests: 1, skipSuccessful: true });
+
+    await limited(createRequest({}));
+    const response: any = await limited(createRequest({}));
+
+    expect(response.status).toBe(200);
+    expect(response.headers['X-RateLimit-Remaining']).toBe('1');
+  });
+
+  it('should not count failed responses or errors with skipFailed', async () => {
+    handler
+      .mockResolvedValueOnce({ status: 402, headers: {}, body: '{}' })
+      .mockRejectedValueOnce(new Error('gateway down'));
+    const limited = withRateLimit(handler, { store, maxRequests: 1, skipFailed: true });
+
+    expect((await limited(createRequest({}))).status).toBe(402);
+    await expect(limited(createRequest({}))).rejects.toThrow('gateway down');
+    expect((await limited(createRequest({}))).status).toBe(200);
+    expect((await limited(createRequest({}))).status).toBe(429);
+  });
+
+  it('should set headers on responses with a Headers object', async () => {
+    const headers = new Map<string, string>();
+    handler.mockResolvedValueOnce({ status: 200, headers, json: async () => ({}) });
+    const limited = withRateLimit(handler, { store, maxRequests: 3 });
+
+    await limited(createRequest({}));
+
+    expect(headers.get('X-RateLimit-Remaining')).toBe('2');
+  });
+});
+
+describe('getCardFingerprint', () => {
+  it('should hash the card number without spaces', async () => {
+    const plain = await getCardFingerprint(createRequest({ card_number: '4005550000000001' }));
+    const spaced = await getCardFingerprint(createRequest({ card_number: '4005 5500 0000 0001' }));
+
+    expect(plain).toMatch(/^[0-9a-f]{64}$/);
+    expect(spaced).toBe(plain);
+  });
+
+  it('should return undefined when the body has no card', async () => {
+    expect(await getCardFingerprint(createRequest({ transactionId: 'txn-1' }))).toBeUndefined();
+  });
+});
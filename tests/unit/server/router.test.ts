@@ -0,0 +1,214 @@
+import { createFatZebraRouter } from '../../../src/server/router';
+import { requireAuth, requestId } from '../../../src/server/middleware';
+
+const { mockFetchResponse, createMockTransactionResponse } = require('../../setup');
+
+const createRequest = (method: string, path: string, body?: any, headers: any = {}) => ({
+  method,
+  url: `/api/fatzebra${path}`,
+  headers: { 'content-type': 'application/json', ...headers },
+  body: body === undefined ? '' : JSON.stringify(body),
+  json: () => Promise.resolve(body ?? null)
+});
+
+const readBody = async (response: any) =>
+  typeof response.body === 'string' ? JSON.parse(response.body) : response.json();
+
+const getHeader = (response: any, name: string) =>
+  typeof response.headers?.get === 'function' ? response.headers.get(name) : response.headers[name];
+
+const ok = () => ({ status: 200, headers: {}, body: JSON.stringify({ successful: true }) });
+
+const allow = async () => true;
+
+const createHandlers = () =>
+  Object.fromEntries(
+    [
+      'handleHealthCheck',
+      'handleLiveness',
+      'handleReadiness',
+      'handlePurchase',
+      'handleAuthorization',
+      'handleCapture',
+      'handleRefund',
+      'handleTokenization',
+      'handleListCards',
+      'handleGetCard',
+      'handleUpdateCardExpiry',
+      'handleDeleteCard',
+      'handleVoid',
+      'handleTransactionStatus',
+      'handleVerifyWebhook',
+      'handleGenerateHash'
+    ].map(name => [name, jest.fn().mockImplementation(async () => ok())])
+  ) as any;
+
+describe('createFatZebraRouter', () => {
+  let handlers: any;
+
+  beforeEach(() => {
+    handlers = createHandlers();
+  });
+
+  it('should pass requests without path parameters through untouched', async () => {
+    const router = createFatZebraRouter({ handlers });
+    const request = createRequest('POST', '/purchases', { purchaseData: { amount: 1000 } });
+
+    const response = await router(request);
+
+    expect(response.status).toBe(200);
+    expect(handlers.handlePurchase).toHaveBeenCalledWith(request);
+  });
+
+  it('should move path parameters into the body the handler expects', async () => {
+    const router = createFatZebraRouter({
+      handlers,
+      authorize: allow,
+      routes: { capture: true, transactionStatus: true, updateCardExpiry: true, listCards: true }
+    });
+
+    await router.POST(createRequest('POST', '/purchases/txn-1/capture', { amount: 500 }));
+    await router.GET(createRequest('GET', '/transactions/txn%2F2'));
+    await router.PUT(createRequest('PUT', '/cards/card-1', { cardExpiry: '12/30' }));
+    await router.GET(createRequest('GET', '/cards?page=2&per_page=10'));
+
+    const bodyOf = async (handler: jest.Mock) => handler.mock.calls[0][0].json();
+    expect(await bodyOf(handlers.handleCapture)).toEqual({ amount: 500, transactionId: 'txn-1' });
+    expect(await bodyOf(handlers.handleTransactionStatus)).toEqual({ transactionId: 'txn/2' });
+    expect(await bodyOf(handlers.handleUpdateCardExpiry)).toEqual({
+      cardExpiry: '12/30',
+      cardToken: 'card-1'
+    });
+    expect(await bodyOf(handlers.handleListCards)).toEqual({ options: { page: 2, per_page: 10 } });
+    expect(handlers.handleTransactionStatus.mock.calls[0][0].method).toBe('POST');
+  });
+
+  it('should answer 404 for unknown paths and 405 for other methods', async () => {
+    const router = createFatZebraRouter({ handlers });
+
+    const notFound = await router(createRequest('POST', '/payouts', {}));
+    const outsideBase = await router({ ...createRequest('POST', '/purchases', {}), url: '/other' });
+    const wrongMethod = await router(createRequest('DELETE', '/purchases', {}));
+
+    expect(notFound.status).toBe(404);
+    expect((await readBody(notFound)).code).toBe('NOT_FOUND');
+    expect(outsideBase.status).toBe(404);
+    expect(wrongMethod.status).toBe(405);
+    expect(getHeader(wrongMethod, 'Allow')).toBe('POST');
+  });
+
+  it('should treat disabled routes as missing', async () => {
+    const router = createFatZebraRouter({
+      handlers,
+      authorize: allow,
+      routes: { refund: false, deleteCard: { enabled: false }, getCard: true, updateCardExpiry: true }
+    });
+
+    const refund = await router(createRequest('POST', '/refunds', {}));
+    const deleteCard = await router(createRequest('DELETE', '/cards/card-1'));
+    const getCard = await router(createRequest('GET', '/cards/card-1'));
+
+    expect(refund.status).toBe(404);
+    expect(deleteCard.status).toBe(405);
+    expect(getHeader(deleteCard, 'Allow')).toBe('GET, PUT');
+    expect(getCard.status).toBe(200);
+    expect(handlers.handleRefund).not.toHaveBeenCalled();
+    expect(handlers.handleDeleteCard).not.toHaveBeenCalled();
+  });
+
+  it('should leave privileged routes off unless they are enabled', async () => {
+    const router = createFatZebraRouter({ handlers });
+
+    const responses = await Promise.all([
+      router(createRequest('POST', '/purchases/txn-1/capture', {})),
+      router(createRequest('POST', '/purchases/txn-1/void', {})),
+      router(createRequest('POST', '/refunds', {})),
+      router(createRequest('GET', '/transactions/txn-1')),
+      router(createRequest('GET', '/cards')),
+      router(createRequest('DELETE', '/cards/card-1'))
+    ]);
+    const purchase = await router(createRequest('POST', '/purchases', {}));
+
+    expect(responses.map(response => response.status)).toEqual([404, 404, 404, 404, 405, 404]);
+    expect(purchase.status).toBe(200);
+    expect(handlers.handleRefund).not.toHaveBeenCalled();
+    expect(handlers.handleDeleteCard).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to enable privileged routes without authorize', () => {
+    expect(() => createFatZebraRouter({ handlers, routes: { refund: true } })).toThrow(
+      'createFatZebraRouter needs authorize to enable refund'
+    );
+    expect(() =>
+      createFatZebraRouter({
+        handlers,
+        routes: { deleteCard: { middleware: [requireAuth({ apiKeys: ['key-1'] })] } }
+      })
+    ).toThrow('deleteCard');
+  });
+
+  it('should ask authorize with the route name', async () => {
+    const authorize = jest.fn(async (_request: any, route: string) => route !== 'refund');
+    const router = createFatZebraRouter({ handlers, authorize, routes: { refund: true } });
+
+    const refund = await router(createRequest('POST', '/refunds', {}));
+    const purchase = await router(createRequest('POST', '/purchases', {}));
+
+    expect(refund.status).toBe(403);
+    expect((await readBody(refund)).code).toBe('FORBIDDEN');
+    expect(purchase.status).toBe(200);
+    expect(authorize).toHaveBeenCalledWith(expect.anything(), 'refund');
+  });
+
+  it('should run router and per-route middleware', async () => {
+    const router = createFatZebraRouter({
+      handlers,
+      basePath: '/payments/',
+      authorize: allow,
+      middleware: [requestId({ generate: () => 'req-1' })],
+      routes: { void: { middleware: [requireAuth({ apiKeys: ['key-1'] })] } }
+    });
+    const request = (headers: any = {}) => ({
+      ...createRequest('POST', '', {}, headers),
+      url: 'https://shop.example/payments/purchases/txn-1/void'
+    });
+
+    const rejected = await router(request());
+    const accepted = await router(request({ authorization: 'Bearer key-1' }));
+
+    expect(rejected.status).toBe(401);
+    expect(accepted.status).toBe(200);
+    expect(handlers.handleVoid).toHaveBeenCalledTimes(1);
+    expect(handlers.handleVoid.mock.calls[0][0].requestId).toBe('req-1');
+  });
+
+  it('should reject malformed JSON for routes with path parameters', async () => {
+    const router = createFatZebraRouter({ handlers, authorize: allow, routes: { capture: true } });
+
+    const response = await router({
+      ...createRequest('POST', '/purchases/txn-1/capture'),
+      body: '{"amount":'
+    });
+
+    expect(response.status).toBe(400);
+    expect(handlers.handleCapture).not.toHaveBeenCalled();
+  });
+
+  it('should call the gateway through the standalone handlers by default', async () => {
+    (global.fetch as jest.Mock).mockImplementation(() =>
+      mockFetchResponse(createMockTransactionResponse())
+    );
+    const router = createFatZebraRouter({
+      config: { username: 'server-user', token: 'server-token', sandbox: true },
+      authorize: allow,
+      routes: { transactionStatus: true }
+    });
+
+    const response = await router(createRequest('GET', '/transactions/txn-123'));
+
+    expect(response.status).toBe(200);
+    expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe(
+      'https://gateway.sandbox.fatzebra.com.au/v1.0/purchases/txn-123'
+    );
+  });
+});
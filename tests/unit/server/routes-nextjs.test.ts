@@ -812,4 +812,56 @@ describe('routes-nextjs (Enhanced Coverage)', () => {
       expect(response).toBeDefined();
     });
   });
+  describe('Amount units', () => {
+    const gatewayAmount = () => JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body).amount;
+
+    beforeEach(() => {
+      (global.fetch as jest.Mock).mockReset();
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve(createMockTransactionResponse())
+      });
+      process.env.FAT_ZEBRA_USERNAME = 'server-user';
+      process.env.FAT_ZEBRA_TOKEN = 'server-token';
+    });
+
+    it('should send the same gateway amount as the standalone handlers for the same purchase', async () => {
+      const { createStandaloneHandlers } = await import('../../../src/server/routes-standalone');
+      const purchase = { ...createMockPurchaseRequest(), amount: 1050, currency: 'AUD' };
+
+      await routesNextjs.handlePurchase({
+        method: 'POST',
+        headers: new Map([['content-type', 'application/json']]),
+        json: () => Promise.resolve(purchase)
+      });
+      const nextAmount = gatewayAmount();
+
+      (global.fetch as jest.Mock).mockClear();
+      const handlers = createStandaloneHandlers({
+        config: { username: 'server-user', token: 'server-token', sandbox: true }
+      });
+      await handlers.handlePurchase({
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ purchaseData: purchase })
+      } as any);
+
+      expect(nextAmount).toBe(1050);
+      expect(gatewayAmount()).toBe(nextAmount);
+    });
+
+    it('should reject major-unit amounts instead of charging them', async () => {
+      const purchase = { ...createMockPurchaseRequest(), amount: 10.5 };
+
+      const response = await routesNextjs.handlePurchase({
+        method: 'POST',
+        headers: new Map([['content-type', 'application/json']]),
+        json: () => Promise.resolve(purchase)
+      });
+
+      expect(response.status).toBe(400);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
 });
\ No newline at end of file
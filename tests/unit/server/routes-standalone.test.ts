@@ -8,6 +8,8 @@ const {
   createMockErrorResponse
 } = require('../../setup');
 
+import { generateVerificationHashAsync, hmacSha256Hex } from '../../../src/utils/crypto';
+
 // Mock fetch for the standalone routes
 global.fetch = jest.fn();
 
@@ -162,6 +164,33 @@ describe('routes-standalone (Enhanced Coverage)', () => {
       expect(response).toBeDefined();
     });
 
+    it('should forward the caller idempotency key to the gateway', async () => {
+      const body = {
+        purchaseData: createMockPurchaseRequest(),
+        config: { username: 'test', token: 'test', sandbox: true }
+      };
+      const mockRequest = {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'idempotency-key': 'order-42' },
+        body: JSON.stringify(body),
+        json: () => Promise.resolve(body)
+      };
+
+      (global.fetch as jest.Mock).mockReset();
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve(createMockTransactionResponse())
+      });
+
+      const response = await routesStandalone.handlePurchase(mockRequest);
+
+      expect(response.status).toBe(200);
+      expect((global.fetch as jest.Mock).mock.calls[0][1].headers['Idempotency-Key']).toBe(
+        'order-42'
+      );
+    });
+
     it('should handle non-POST methods (implementation dependent)', async () => {
       const methods = ['GET', 'PUT', 'DELETE', 'PATCH'];
       
@@ -739,6 +768,109 @@ describe('routes-standalone (Enhanced Coverage)', () => {
     });
   });
 
+  describe('Card vault handlers', () => {
+    const config = { username: 'test', token: 'test', sandbox: true };
+
+    beforeEach(() => {
+      (global.fetch as jest.Mock).mockReset();
+    });
+
+    const createRequest = (body: any, method = 'POST') => ({
+      method,
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+      json: () => Promise.resolve(body)
+    });
+
+    it('should list stored cards', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ successful: true, response: [{ token: 'card-token-123' }] })
+      });
+
+      const response = await routesStandalone.handleListCards(
+        createRequest({ options: { page: 2 }, config })
+      );
+
+      expect(response.status).toBe(200);
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toMatch(/\/credit_cards\?page=2$/);
+    });
+
+    it('should fetch a stored card', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ successful: true, response: { token: 'card-token-123' } })
+      });
+
+      const response = await routesStandalone.handleGetCard(
+        createRequest({ cardToken: 'card-token-123', config })
+      );
+
+      expect(response.status).toBe(200);
+      const [url, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toMatch(/\/credit_cards\/card-token-123$/);
+      expect(options.method).toBe('GET');
+    });
+
+    it('should require a card token', async () => {
+      const response = await routesStandalone.handleGetCard(createRequest({ config }));
+      expect(response.status).toBe(400);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should update the expiry of a stored card', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ successful: true, response: { token: 'card-token-123' } })
+      });
+
+      const response = await routesStandalone.handleUpdateCardExpiry(
+        createRequest({ cardToken: 'card-token-123', cardExpiry: '12/39', config })
+      );
+
+      expect(response.status).toBe(200);
+      const [, options] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(options.method).toBe('PUT');
+      expect(JSON.parse(options.body)).toEqual({ card_expiry: '12/39' });
+    });
+
+    it('should reject an invalid expiry date', async () => {
+      const response = await routesStandalone.handleUpdateCardExpiry(
+        createRequest({ cardToken: 'card-token-123', cardExpiry: '13/99', config })
+      );
+
+      expect(response.status).toBe(400);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should delete a stored card', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () =>
+          Promise.resolve({ successful: true, response: { token: 'card-token-123', deleted: true } })
+      });
+
+      const response = await routesStandalone.handleDeleteCard(
+        createRequest({ cardToken: 'card-token-123', config })
+      );
+
+      expect(response.status).toBe(200);
+      expect((global.fetch as jest.Mock).mock.calls[0][1].method).toBe('DELETE');
+    });
+
+    it('should reject non-POST methods', async () => {
+      const response = await routesStandalone.handleDeleteCard(
+        createRequest({ cardToken: 'card-token-123', config }, 'GET')
+      );
+
+      expect(response.status).toBe(405);
+    });
+  });
+
   describe('handleVoid - Enhanced Coverage', () => {
     it('should handle valid void requests', async () => {
       const mockRequest = {
@@ -1243,4 +1375,357 @@ describe('routes-standalone (Enhanced Coverage)', () => {
       expect(response).toBeDefined();
     });
   });
-});
\ No newline at end of file
+
+  describe('createStandaloneHandlers', () => {
+    const serverConfig = { username: 'server-user', token: 'server-token', sandbox: true };
+
+    const createRequest = (body: any) => ({
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+      json: () => Promise.resolve(body)
+    });
+
+    const readBody = async (response: any) =>
+      typeof response.body === 'string' ? JSON.parse(response.body) : response.json();
+
+    beforeEach(() => {
+      (global.fetch as jest.Mock).mockReset();
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve(createMockTransactionResponse())
+      });
+    });
+
+    it('should use the server-side config for gateway calls', async () => {
+      const handlers = routesStandalone.createStandaloneHandlers({ config: serverConfig });
+
+      const response = await handlers.handlePurchase(
+        createRequest({ purchaseData: createMockPurchaseRequest() })
+      );
+
+      expect(response.status).toBe(200);
+      expect((global.fetch as jest.Mock).mock.calls[0][1].headers.Authorization).toBe(
+        `Basic ${btoa('server-user:server-token')}`
+      );
+    });
+
+    it('should replay repeated idempotency keys when idempotency is configured', async () => {
+      const { MemoryIdempotencyStore } = await import('../../../src/server/idempotency');
+      const handlers = routesStandalone.createStandaloneHandlers({
+        config: serverConfig,
+        idempotency: { store: new MemoryIdempotencyStore() }
+      });
+      const request = () => ({
+        ...createRequest({ purchaseData: createMockPurchaseRequest() }),
+        headers: { 'content-type': 'application/json', 'idempotency-key': 'order-1' }
+      });
+
+      await handlers.handlePurchase(request());
+      const replayed = await handlers.handlePurchase(request());
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(replayed.headers['idempotent-replayed']).toBe('true');
+    });
+
+    it('should log handler errors through the configured logger', async () => {
+      (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('socket hang up'));
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), child: jest.fn() };
+      const handlers = routesStandalone.createStandaloneHandlers({ config: serverConfig, logger });
+
+      const response = await handlers.handlePurchase(
+        createRequest({ purchaseData: createMockPurchaseRequest() })
+      );
+
+      expect(response.status).toBe(400);
+      expect(logger.error).toHaveBeenCalledWith('Gateway request failed', expect.anything());
+      expect(logger.warn).toHaveBeenCalledWith('Purchase failed', {
+        error: expect.any(Error)
+      });
+    });
+
+    it('should guard methods and parse JSON bodies through the middleware pipeline', async () => {
+      const handlers = routesStandalone.createStandaloneHandlers({ config: serverConfig });
+
+      const wrongMethod = await handlers.handlePurchase({ ...createRequest({}), method: 'GET' });
+      const malformed = await handlers.handlePurchase({ ...createRequest({}), body: '{"purchaseData":' });
+      const empty = await handlers.handlePurchase({ ...createRequest({}), body: '' });
+
+      expect(wrongMethod.status).toBe(405);
+      expect(wrongMethod.headers.Allow).toBe('POST');
+      expect(malformed.status).toBe(400);
+      expect((await readBody(malformed)).code).toBe('VALIDATION_ERROR');
+      expect(empty.status).toBe(400);
+      expect(await readBody(empty)).toMatchObject({
+        error: 'Request body is required',
+        errors: ['Request body is required']
+      });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to credentials from the environment', async () => {
+      process.env.FAT_ZEBRA_USERNAME = 'env-user';
+      process.env.FAT_ZEBRA_TOKEN = 'env-token';
+      const handlers = routesStandalone.createStandaloneHandlers();
+
+      const response = await handlers.handleVoid(createRequest({ transactionId: 'txn-123' }));
+
+      expect(response.status).toBe(200);
+      expect((global.fetch as jest.Mock).mock.calls[0][1].headers.Authorization).toBe(
+        `Basic ${btoa('env-user:env-token')}`
+      );
+    });
+
+    it('should reject credentials sent in the request body', async () => {
+      const handlers = routesStandalone.createStandaloneHandlers({ config: serverConfig });
+
+      const response = await handlers.handleRefund(
+        createRequest({
+          refundData: { transaction_id: 'txn-123', amount: 1000, reference: 'REFUND-1' },
+          config: { username: 'browser', token: 'leaked', sandbox: true }
+        })
+      );
+
+      expect(response.status).toBe(400);
+      expect((await readBody(response)).errors[0]).toMatch(/must not be sent in the request body/);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when no credentials are configured', async () => {
+      delete process.env.FAT_ZEBRA_USERNAME;
+      delete process.env.FAT_ZEBRA_TOKEN;
+      const handlers = routesStandalone.createStandaloneHandlers();
+
+      const response = await handlers.handleCapture(
+        createRequest({ transactionId: 'txn-123', amount: 1000 })
+      );
+
+      expect(response.status).toBe(500);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should accept body config when allowBodyConfig is set', async () => {
+      const handlers = routesStandalone.createStandaloneHandlers({ allowBodyConfig: true });
+
+      const response = await handlers.handlePurchase(
+        createRequest({ purchaseData: createMockPurchaseRequest(), config: serverConfig })
+      );
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should hash with the server-side shared secret', async () => {
+      const handlers = routesStandalone.createStandaloneHandlers({ sharedSecret: 'server-secret' });
+      const data = { amount: 1000, currency: 'AUD', reference: 'ORDER-1', timestamp: 1700000000 };
+
+      const response = await handlers.handleGenerateHash(createRequest({ data }));
+      const rejected = await handlers.handleGenerateHash(
+        createRequest({ data, sharedSecret: 'browser-secret' })
+      );
+
+      expect(response.status).toBe(200);
+      expect((await readBody(response)).hash).toBe(
+        await generateVerificationHashAsync(data, 'server-secret')
+      );
+      expect(rejected.status).toBe(400);
+    });
+
+    it('should probe the gateway with the server credentials for readiness', async () => {
+      const handlers = routesStandalone.createStandaloneHandlers({
+        config: serverConfig,
+        health: { requiredEnv: ['FAT_ZEBRA_SHARED_SECRET'] }
+      });
+      process.env.FAT_ZEBRA_SHARED_SECRET = 'server-secret';
+      const request = { method: 'GET', url: '/health', headers: {} };
+
+      const liveness = await handlers.handleLiveness(request);
+      expect(global.fetch).not.toHaveBeenCalled();
+
+      const readiness = await handlers.handleReadiness(request);
+      delete process.env.FAT_ZEBRA_SHARED_SECRET;
+      const notReady = await handlers.handleHealthCheck({ ...request, url: '/health?check=readiness' });
+
+      expect(liveness.status).toBe(200);
+      expect(readiness.status).toBe(200);
+      expect((await readBody(readiness)).dependencies).toEqual({ config: 'ok', gateway: 'ok' });
+      expect((global.fetch as jest.Mock).mock.calls[0][1].headers.Authorization).toBe(
+        `Basic ${btoa('server-user:server-token')}`
+      );
+      expect(notReady.status).toBe(503);
+    });
+
+    describe('response cache', () => {
+      const getHeader = (response: any, name: string) =>
+        typeof response.headers?.get === 'function' ? response.headers.get(name) : response.headers[name];
+
+      it('should serve repeated transaction status reads from the cache', async () => {
+        const handlers = routesStandalone.createStandaloneHandlers({
+          config: serverConfig,
+          cache: { ttl: 60000 }
+        });
+
+        const first = await handlers.handleTransactionStatus(createRequest({ transactionId: 'txn-123' }));
+        const second = await handlers.handleTransactionStatus(createRequest({ transactionId: 'txn-123' }));
+
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+        expect(first.cached).toBe(false);
+        expect(getHeader(first, 'X-Cache')).toBe('MISS');
+        expect(second.cached).toBe(true);
+        expect(getHeader(second, 'X-Cache')).toBe('HIT');
+        expect(await readBody(second)).toEqual(await readBody(first));
+      });
+
+      it('should invalidate the transaction after a capture, refund or void', async () => {
+        const handlers = routesStandalone.createStandaloneHandlers({ config: serverConfig, cache: {} });
+        const status = () => handlers.handleTransactionStatus(createRequest({ transactionId: 'txn-123' }));
+
+        await status();
+        await handlers.handleCapture(createRequest({ transactionId: 'txn-123', amount: 1000 }));
+        expect((await status()).cached).toBe(false);
+
+        await handlers.handleRefund(
+          createRequest({ refundData: { transaction_id: 'txn-123', amount: 500, reference: 'REFUND-1' } })
+        );
+        expect((await status()).cached).toBe(false);
+
+        await handlers.handleVoid(createRequest({ transactionId: 'txn-123' }));
+        expect((await status()).cached).toBe(false);
+        expect((await status()).cached).toBe(true);
+      });
+
+      it('should invalidate a card token when it is updated', async () => {
+        const handlers = routesStandalone.createStandaloneHandlers({ config: serverConfig, cache: {} });
+        const getCard = () => handlers.handleGetCard(createRequest({ cardToken: 'card-1' }));
+
+        await getCard();
+        expect((await getCard()).cached).toBe(true);
+
+        await handlers.handleUpdateCardExpiry(createRequest({ cardToken: 'card-1', cardExpiry: '12/40' }));
+        expect((await getCard()).cached).toBe(false);
+      });
+
+      it('should not cache failed lookups', async () => {
+        (global.fetch as jest.Mock).mockResolvedValue({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve(createMockErrorResponse(['Transaction not found']))
+        });
+        const handlers = routesStandalone.createStandaloneHandlers({ config: serverConfig, cache: {} });
+
+        await handlers.handleTransactionStatus(createRequest({ transactionId: 'txn-missing' }));
+        await handlers.handleTransactionStatus(createRequest({ transactionId: 'txn-missing' }));
+
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+      });
+
+      it('should leave responses unmarked without a cache', async () => {
+        const handlers = routesStandalone.createStandaloneHandlers({ config: serverConfig });
+
+        await handlers.handleTransactionStatus(createRequest({ transactionId: 'txn-123' }));
+        const response = await handlers.handleTransactionStatus(
+          createRequest({ transactionId: 'txn-123' })
+        );
+
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+        expect(response.cached).toBeUndefined();
+      });
+    });
+
+    describe('handleVerifyWebhook', () => {
+      const event = {
+        id: 'evt-1',
+        type: 'purchase.success',
+        created_at: '2024-01-01T00:00:00Z',
+        data: { object: { id: 'txn-1' } },
+        api_version: '1.0'
+      };
+
+      const createWebhookRequest = async (secret: string, body: any = event) => {
+        const rawBody = JSON.stringify(body);
+        return {
+          method: 'POST',
+          headers: { 'X-FatZebra-Signature': await hmacSha256Hex(secret, rawBody) },
+          body: rawBody
+        };
+      };
+
+      it('should verify the raw body with the server-side secret', async () => {
+        const handlers = routesStandalone.createStandaloneHandlers({ sharedSecret: 'server-secret' });
+
+        const response = await handlers.handleVerifyWebhook(await createWebhookRequest('server-secret'));
+        const body = await readBody(response);
+
+        expect(response.status).toBe(200);
+        expect(body.verified).toBe(true);
+        expect(body.payload).toEqual(event);
+      });
+
+      it('should ignore a shared secret sent in the request body', async () => {
+        const handlers = routesStandalone.createStandaloneHandlers({ sharedSecret: 'server-secret' });
+
+        const response = await handlers.handleVerifyWebhook(
+          await createWebhookRequest('attacker-secret', { ...event, sharedSecret: 'attacker-secret' })
+        );
+
+        expect(response.status).toBe(401);
+        expect((await readBody(response)).verified).toBe(false);
+      });
+
+      it('should answer unexpected errors without exposing their message', async () => {
+        const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), child: jest.fn() };
+        const handlers = routesStandalone.createStandaloneHandlers({
+          sharedSecret: 'server-secret',
+          logger,
+          webhookEventStore: { add: jest.fn().mockRejectedValue(new Error('db password rejected')) }
+        });
+
+        const response = await handlers.handleVerifyWebhook(await createWebhookRequest('server-secret'));
+
+        expect(response.status).toBe(500);
+        expect(await readBody(response)).toMatchObject({
+          successful: false,
+          error: 'Internal server error'
+        });
+        expect(logger.error).toHaveBeenCalledWith('Webhook verification error', {
+          error: expect.any(Error)
+        });
+      });
+
+      it('should acknowledge a replayed event as a duplicate', async () => {
+        const handlers = routesStandalone.createStandaloneHandlers({ sharedSecret: 'server-secret' });
+
+        await handlers.handleVerifyWebhook(await createWebhookRequest('server-secret'));
+        const replay = await handlers.handleVerifyWebhook(await createWebhookRequest('server-secret'));
+
+        expect(replay.status).toBe(200);
+        expect(await readBody(replay)).toMatchObject({ verified: true, duplicate: true });
+      });
+
+      it('should accept every configured webhook secret', async () => {
+        const handlers = routesStandalone.createStandaloneHandlers({
+          webhookSecrets: ['next-secret', 'current-secret']
+        });
+
+        const current = await handlers.handleVerifyWebhook(
+          await createWebhookRequest('current-secret')
+        );
+        const next = await handlers.handleVerifyWebhook(
+          await createWebhookRequest('next-secret', { ...event, id: 'evt-2' })
+        );
+
+        expect(current.status).toBe(200);
+        expect(next.status).toBe(200);
+      });
+
+      it('should return 500 when no webhook secret is configured', async () => {
+        delete process.env.FAT_ZEBRA_SHARED_SECRET;
+        const handlers = routesStandalone.createStandaloneHandlers();
+
+        const response = await handlers.handleVerifyWebhook(await createWebhookRequest('any'));
+
+        expect(response.status).toBe(500);
+      });
+    });
+  });
+});
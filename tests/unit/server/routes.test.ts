@@ -244,6 +244,42 @@ describe('routes.ts (actual source code)', () => {
       expect(mockNextResponse.json).toHaveBeenCalled();
     });
 
+    it('should pass the minor-unit amount through unchanged', async () => {
+      const mockRequest = {
+        json: () => Promise.resolve({ transaction_id: 'txn-123', amount: 1500, currency: 'JPY' }),
+        headers: {
+          get: jest.fn(() => null)
+        }
+      };
+
+      (global.fetch as jest.Mock).mockReset();
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve(createMockTransactionResponse())
+      });
+
+      await routes.handleCapture(mockRequest);
+
+      const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.amount).toBe(1500);
+    });
+
+    it('should log errors through the request logger when one is set', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), child: jest.fn() };
+      const mockRequest = {
+        json: () => Promise.resolve({ transaction_id: 'txn-123', amount: 10.5 }),
+        headers: {
+          get: jest.fn(() => null)
+        },
+        logger
+      };
+
+      await routes.handleCapture(mockRequest);
+
+      expect(logger.error).toHaveBeenCalledWith('Capture error', { error: expect.any(Error) });
+    });
+
     it('should handle missing transaction_id', async () => {
       const mockRequest = {
         json: () => Promise.resolve({
@@ -0,0 +1,275 @@
+import {
+  createWebhookHandler,
+  parseWebhookEvent,
+  verifyWebhookRequest,
+  MemoryWebhookEventStore
+} from '../../../src/server/webhooks';
+import { hmacSha256Hex } from '../../../src/utils/crypto';
+import { ValidationError } from '../../../src/types';
+
+const SECRET = 'webhook-secret';
+
+const purchaseEvent = {
+  id: 'evt-1',
+  type: 'purchase.success',
+  created_at: '2024-01-01T00:00:00Z',
+  data: { object: { id: 'txn-1', amount: 1000, reference: 'order-1' } },
+  api_version: '1.0'
+};
+
+const createRequest = async (
+  event: any,
+  options: {
+    secret?: string;
+    header?: string;
+    method?: string;
+    signature?: string;
+    timestamp?: number;
+  } = {}
+) => {
+  const body = typeof event === 'string' ? event : JSON.stringify(event);
+  const signed = options.timestamp !== undefined ? `${options.timestamp}.${body}` : body;
+  const signature = options.signature ?? (await hmacSha256Hex(options.secret ?? SECRET, signed));
+  const headers: Record<string, string> = { [options.header ?? 'X-FatZebra-Signature']: signature };
+
+  if (options.timestamp !== undefined) {
+    headers['X-FatZebra-Timestamp'] = String(options.timestamp);
+  }
+
+  return { method: options.method ?? 'POST', headers, body };
+};
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const readBody = async (response: any) =>
+  typeof response.body === 'string' ? JSON.parse(response.body) : response.json();
+
+describe('createWebhookHandler', () => {
+  it('should dispatch a verified event to its typed handler', async () => {
+    const onPurchase = jest.fn();
+    const handler = createWebhookHandler({ secret: SECRET, on: { 'purchase.success': onPurchase } });
+
+    const response = await handler(await createRequest(purchaseEvent));
+
+    expect(response.status).toBe(200);
+    expect(await readBody(response)).toEqual({ received: true, id: 'evt-1', handled: true });
+    expect(onPurchase).toHaveBeenCalledWith(purchaseEvent);
+  });
+
+  it('should verify the signature over the raw body as sent', async () => {
+    const onPurchase = jest.fn();
+    const handler = createWebhookHandler({ secret: SECRET, on: { 'purchase.success': onPurchase } });
+    const rawBody = JSON.stringify(purchaseEvent, null, 2);
+
+    const response = await handler(await createRequest(rawBody));
+
+    expect(response.status).toBe(200);
+    expect(onPurchase).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a missing signature with 400', async () => {
+    const onPurchase = jest.fn();
+    const handler = createWebhookHandler({ secret: SECRET, on: { 'purchase.success': onPurchase } });
+
+    const response = await handler({ method: 'POST', headers: {}, body: JSON.stringify(purchaseEvent) });
+
+    expect(response.status).toBe(400);
+    expect((await readBody(response)).errors).toEqual(['Missing webhook signature']);
+    expect(onPurchase).not.toHaveBeenCalled();
+  });
+
+  it('should reject an invalid signature with 401', async () => {
+    const onPurchase = jest.fn();
+    const handler = createWebhookHandler({ secret: SECRET, on: { 'purchase.success': onPurchase } });
+
+    const response = await handler(await createRequest(purchaseEvent, { secret: 'other-secret' }));
+
+    expect(response.status).toBe(401);
+    expect(onPurchase).not.toHaveBeenCalled();
+  });
+
+  it('should reject a malformed payload with 400', async () => {
+    const handler = createWebhookHandler({ secret: SECRET, on: {} });
+
+    const invalidJson = await handler(await createRequest('not json'));
+    const missingType = await handler(await createRequest({ id: 'evt-1', data: {} }));
+
+    expect(invalidJson.status).toBe(400);
+    expect(missingType.status).toBe(400);
+  });
+
+  it('should reject methods other than POST with 405', async () => {
+    const handler = createWebhookHandler({ secret: SECRET, on: {} });
+
+    const response = await handler(await createRequest(purchaseEvent, { method: 'GET' }));
+
+    expect(response.status).toBe(405);
+  });
+
+  it('should acknowledge event types without a handler', async () => {
+    const onUnhandled = jest.fn();
+    const handler = createWebhookHandler({ secret: SECRET, on: {}, onUnhandled });
+    const event = { ...purchaseEvent, type: 'customer.updated' };
+
+    const response = await handler(await createRequest(event));
+
+    expect(response.status).toBe(200);
+    expect(await readBody(response)).toEqual({ received: true, id: 'evt-1', handled: false });
+    expect(onUnhandled).toHaveBeenCalledWith(event);
+  });
+
+  it('should return 500 when a handler throws so the event is retried', async () => {
+    const handler = createWebhookHandler({
+      secret: SECRET,
+      on: {
+        'purchase.success': async () => {
+          throw new Error('database unavailable');
+        }
+      }
+    });
+
+    const response = await handler(await createRequest(purchaseEvent));
+
+    expect(response.status).toBe(500);
+    expect((await readBody(response)).errors).toEqual(['Webhook handler failed']);
+  });
+
+  it('should read the signature from a custom header', async () => {
+    const onPurchase = jest.fn();
+    const handler = createWebhookHandler({
+      secret: SECRET,
+      signatureHeader: 'X-FZ-Signature',
+      on: { 'purchase.success': onPurchase }
+    });
+
+    const response = await handler(await createRequest(purchaseEvent, { header: 'x-fz-signature' }));
+
+    expect(response.status).toBe(200);
+    expect(onPurchase).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('webhook replay protection', () => {
+  it('should acknowledge a second delivery of the same event ID without handling it', async () => {
+    const onPurchase = jest.fn();
+    const handler = createWebhookHandler({ secret: SECRET, on: { 'purchase.success': onPurchase } });
+
+    const first = await handler(await createRequest(purchaseEvent));
+    const replay = await handler(await createRequest(purchaseEvent));
+
+    expect(first.status).toBe(200);
+    expect(replay.status).toBe(200);
+    expect(await readBody(replay)).toEqual({ received: true, id: purchaseEvent.id, duplicate: true });
+    expect(onPurchase).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept a retry after a handler failure', async () => {
+    const onPurchase = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('database unavailable'))
+      .mockResolvedValueOnce(undefined);
+    const handler = createWebhookHandler({ secret: SECRET, on: { 'purchase.success': onPurchase } });
+
+    const failed = await handler(await createRequest(purchaseEvent));
+    const retried = await handler(await createRequest(purchaseEvent));
+
+    expect(failed.status).toBe(500);
+    expect(retried.status).toBe(200);
+    expect(onPurchase).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share seen event IDs through the event store', async () => {
+    const eventStore = new MemoryWebhookEventStore();
+    const first = createWebhookHandler({ secret: SECRET, eventStore, on: {} });
+    const second = createWebhookHandler({ secret: SECRET, eventStore, on: {} });
+
+    await first(await createRequest(purchaseEvent));
+    const response = await second(await createRequest(purchaseEvent));
+
+    expect(response.status).toBe(200);
+    expect((await readBody(response)).duplicate).toBe(true);
+  });
+
+  it('should accept a signed timestamp inside the tolerance window', async () => {
+    const handler = createWebhookHandler({ secret: SECRET, on: {} });
+
+    const response = await handler(await createRequest(purchaseEvent, { timestamp: now() - 60 }));
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should reject a timestamp outside the tolerance window', async () => {
+    const handler = createWebhookHandler({ secret: SECRET, tolerance: 60, on: {} });
+
+    const response = await handler(await createRequest(purchaseEvent, { timestamp: now() - 120 }));
+
+    expect(response.status).toBe(401);
+    expect((await readBody(response)).errors).toEqual([
+      'Webhook timestamp is outside the tolerance window'
+    ]);
+  });
+
+  it('should reject a timestamp that was not part of the signature', async () => {
+    const request = await createRequest(purchaseEvent);
+    const handler = createWebhookHandler({ secret: SECRET, on: {} });
+
+    const response = await handler({
+      ...request,
+      headers: { ...request.headers, 'X-FatZebra-Timestamp': String(now()) }
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should require a timestamp when configured', async () => {
+    const handler = createWebhookHandler({ secret: SECRET, requireTimestamp: true, on: {} });
+
+    const response = await handler(await createRequest(purchaseEvent));
+
+    expect(response.status).toBe(400);
+    expect((await readBody(response)).errors).toEqual(['Missing webhook timestamp']);
+  });
+
+  it('should accept any of several secrets while rotating', async () => {
+    const handler = createWebhookHandler({ secret: ['new-secret', SECRET], on: {} });
+
+    const oldSecret = await handler(await createRequest(purchaseEvent));
+    const newSecret = await handler(
+      await createRequest({ ...purchaseEvent, id: 'evt-2' }, { secret: 'new-secret' })
+    );
+    const unknown = await handler(
+      await createRequest({ ...purchaseEvent, id: 'evt-3' }, { secret: 'retired-secret' })
+    );
+
+    expect(oldSecret.status).toBe(200);
+    expect(newSecret.status).toBe(200);
+    expect(unknown.status).toBe(401);
+  });
+});
+
+describe('verifyWebhookRequest', () => {
+  it('should verify against lowercased headers', async () => {
+    const rawBody = JSON.stringify(purchaseEvent);
+    const signature = await hmacSha256Hex(SECRET, rawBody);
+
+    await expect(
+      verifyWebhookRequest(rawBody, { 'x-fatzebra-signature': signature }, { secret: SECRET })
+    ).resolves.toEqual({ valid: true });
+    await expect(
+      verifyWebhookRequest(`${rawBody} `, { 'x-fatzebra-signature': signature }, { secret: SECRET })
+    ).resolves.toMatchObject({ valid: false, status: 401 });
+  });
+});
+
+describe('parseWebhookEvent', () => {
+  it('should parse a valid event', () => {
+    expect(parseWebhookEvent(JSON.stringify(purchaseEvent))).toEqual(purchaseEvent);
+  });
+
+  it('should throw ValidationError for invalid payloads', () => {
+    expect(() => parseWebhookEvent('{')).toThrow(ValidationError);
+    expect(() => parseWebhookEvent(JSON.stringify({ id: 'evt-1', type: 'x' }))).toThrow(
+      'Webhook payload must include id, type and data'
+    );
+  });
+});
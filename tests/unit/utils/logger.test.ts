@@ -0,0 +1,130 @@
+import { createLogger } from '../../../src/utils/logger';
+import { REDACTED } from '../../../src/utils/redact';
+import { DeclinedError } from '../../../src/types';
+
+describe('createLogger', () => {
+  let lines: string[];
+  let write: jest.Mock;
+
+  beforeEach(() => {
+    lines = [];
+    write = jest.fn((line: string) => {
+      lines.push(line);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should write JSON entries with metadata', () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    const logger = createLogger({ format: 'json', write });
+
+    logger.info('Payment created', { transactionId: 'txn-1', amount: 1000 });
+
+    expect(JSON.parse(lines[0])).toEqual({
+      level: 'info',
+      message: 'Payment created',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      metadata: { transactionId: 'txn-1', amount: 1000 }
+    });
+  });
+
+  it('should write text entries with the request ID', () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    const logger = createLogger({ write }).child({ requestId: 'req-1' });
+
+    logger.warn('Retrying', { attempt: 2 });
+
+    expect(lines[0]).toBe('2024-01-01T00:00:00.000Z WARN [req-1] Retrying {"attempt":2}');
+  });
+
+  it('should skip entries below the configured level', () => {
+    const logger = createLogger({ level: 'warn', write });
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(write.mock.calls.map(([, entry]) => entry.level)).toEqual(['warn', 'error']);
+  });
+
+  it('should redact card data and credentials from messages and metadata', () => {
+    const logger = createLogger({ format: 'json', write });
+
+    logger.error('Card 4005550000000001 declined', {
+      request: {
+        headers: { Authorization: 'Basic dXNlcjp0b2tlbg==', 'X-API-Key': 'key-1' },
+        body: { card_number: '4005550000000001', cvv: '123', card_expiry: '12/30' }
+      },
+      raw: '{"card_number":"4005550000000001","cvv":"123"}'
+    });
+
+    const entry = JSON.parse(lines[0]);
+    expect(entry.message).toBe('Card ************0001 declined');
+    expect(entry.metadata.request).toEqual({
+      headers: { Authorization: REDACTED, 'X-API-Key': REDACTED },
+      body: { card_number: '************0001', cvv: REDACTED, card_expiry: REDACTED }
+    });
+    expect(entry.metadata.raw).toBe(`{"card_number":"************0001","cvv":"${REDACTED}"}`);
+    expect(lines[0]).not.toContain('4005550000000001');
+  });
+
+  it('should serialize errors including gateway responses, redacted', () => {
+    const logger = createLogger({ format: 'json', write });
+    const error = new DeclinedError('Declined', ['Card 5123456789012346 declined'], {
+      response: { card_number: '5123456789012346', cvv: '999' }
+    });
+
+    logger.error('Purchase failed', { error });
+
+    const { metadata } = JSON.parse(lines[0]);
+    expect(metadata.error).toMatchObject({
+      name: 'DeclinedError',
+      message: 'Declined',
+      code: 'DECLINED',
+      errors: ['Card ************2346 declined'],
+      response: { response: { card_number: '************2346', cvv: REDACTED } }
+    });
+  });
+
+  it('should merge context from nested child loggers', () => {
+    const logger = createLogger({ format: 'json', write, context: { userId: 'user-1' } });
+
+    logger.child({ requestId: 'req-1' }).child({ ip: '203.0.113.1' }).info('Hello');
+
+    expect(JSON.parse(lines[0])).toMatchObject({
+      userId: 'user-1',
+      requestId: 'req-1',
+      ip: '203.0.113.1'
+    });
+  });
+
+  it('should write to the console by default', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    createLogger().error('Something failed');
+
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('ERROR Something failed'));
+  });
+
+  it('should not throw when the destination fails', () => {
+    const logger = createLogger({
+      write: () => {
+        throw new Error('disk full');
+      }
+    });
+
+    expect(() => logger.info('Hello')).not.toThrow();
+  });
+
+  it('should require a writer for file and remote destinations', () => {
+    expect(() => createLogger({ destination: 'file', filename: 'app.log' })).toThrow(
+      'createFileLogWriter'
+    );
+    expect(() => createLogger({ destination: 'remote' })).toThrow('LoggerConfig.write');
+  });
+});
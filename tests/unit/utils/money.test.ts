@@ -0,0 +1,64 @@
+import {
+  getCurrencyExponent,
+  toMinorUnits,
+  fromMinorUnits,
+  isMinorUnitAmount,
+  moneyFromMajor,
+  formatMoney
+} from '../../../src/utils/money';
+
+describe('Money Utilities', () => {
+  describe('getCurrencyExponent', () => {
+    it('should default to two decimal places', () => {
+      expect(getCurrencyExponent('AUD')).toBe(2);
+      expect(getCurrencyExponent('usd')).toBe(2);
+    });
+
+    it('should know zero and three decimal currencies', () => {
+      expect(getCurrencyExponent('JPY')).toBe(0);
+      expect(getCurrencyExponent('KRW')).toBe(0);
+      expect(getCurrencyExponent('KWD')).toBe(3);
+    });
+  });
+
+  describe('toMinorUnits', () => {
+    it('should convert major units using the currency exponent', () => {
+      expect(toMinorUnits(10.5, 'AUD')).toBe(1050);
+      expect(toMinorUnits(1050, 'JPY')).toBe(1050);
+      expect(toMinorUnits(1.234, 'KWD')).toBe(1234);
+    });
+
+    it('should round away floating point error', () => {
+      expect(toMinorUnits(19.99, 'AUD')).toBe(1999);
+      expect(toMinorUnits(0.1 + 0.2, 'AUD')).toBe(30);
+    });
+  });
+
+  describe('fromMinorUnits', () => {
+    it('should convert minor units back to major units', () => {
+      expect(fromMinorUnits(1050, 'AUD')).toBe(10.5);
+      expect(fromMinorUnits(1050, 'JPY')).toBe(1050);
+    });
+  });
+
+  describe('isMinorUnitAmount', () => {
+    it('should accept non-negative integers only', () => {
+      expect(isMinorUnitAmount(1050)).toBe(true);
+      expect(isMinorUnitAmount(0)).toBe(true);
+      expect(isMinorUnitAmount(10.5)).toBe(false);
+      expect(isMinorUnitAmount(-1)).toBe(false);
+      expect(isMinorUnitAmount('1050')).toBe(false);
+    });
+  });
+
+  describe('moneyFromMajor and formatMoney', () => {
+    it('should build Money values in minor units', () => {
+      expect(moneyFromMajor(10.5, 'aud')).toEqual({ amountMinor: 1050, currency: 'AUD' });
+    });
+
+    it('should format with the currency exponent', () => {
+      expect(formatMoney({ amountMinor: 1050, currency: 'AUD' })).toBe('$10.50');
+      expect(formatMoney({ amountMinor: 1050, currency: 'JPY' }, 'en-US')).toBe('¥1,050');
+    });
+  });
+});
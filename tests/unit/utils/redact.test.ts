@@ -0,0 +1,96 @@
+import {
+  REDACTED,
+  maskPan,
+  redactText,
+  redactSensitiveData
+} from '../../../src/utils/redact';
+
+describe('redaction utilities', () => {
+  describe('maskPan', () => {
+    it('should keep only the last four digits', () => {
+      expect(maskPan('4005 5500 0000 0001')).toBe('************0001');
+      expect(maskPan('123')).toBe(REDACTED);
+    });
+  });
+
+  describe('redactText', () => {
+    it('should mask Luhn-valid card numbers in free text', () => {
+      expect(redactText('Card 4005550000000001 was declined')).toBe(
+        'Card ************0001 was declined'
+      );
+      expect(redactText('Card 4005-5500-0000-0001 was declined')).toBe(
+        'Card ************0001 was declined'
+      );
+    });
+
+    it('should redact labelled CVVs, expiry dates and authorization credentials', () => {
+      expect(redactText('{"cvv":"123","card_expiry":"12/30","amount":1000}')).toBe(
+        `{"cvv":"${REDACTED}","card_expiry":"${REDACTED}","amount":1000}`
+      );
+      expect(redactText('cvv=123&expiry=12%2F30')).toBe(`cvv=${REDACTED}&expiry=${REDACTED}`);
+      expect(redactText('Authorization: Basic dXNlcjp0b2tlbg==')).toBe(
+        `Authorization: Basic ${REDACTED}`
+      );
+      expect(redactText('Bearer eyJhbGciOi.eyJzdWIi.c2lnbmF0dXJl')).toBe(`Bearer ${REDACTED}`);
+    });
+
+    it('should leave other long numbers alone', () => {
+      expect(redactText('Order 1234567890123 created')).toBe('Order 1234567890123 created');
+    });
+
+    it('should leave millisecond timestamps alone unless labelled as a card number', () => {
+      // 1700000000004 passes the Luhn check
+      expect(redactText('{"timestamp":1700000000004}')).toBe('{"timestamp":1700000000004}');
+      expect(redactText('{"card_number":"4222222222222"}')).toBe(
+        '{"card_number":"*********2222"}'
+      );
+      expect(redactText('pan=4222222222222')).toBe('pan=*********2222');
+    });
+  });
+
+  describe('redactSensitiveData', () => {
+    it('should redact card data and credentials in nested objects', () => {
+      const input = {
+        card_number: '4005550000000001',
+        cvv: '123',
+        card_expiry: '12/30',
+        headers: { Authorization: 'Basic abc' },
+        errors: ['Invalid card 5123456789012346'],
+        nested: [{ cardNumber: '5123456789012346', sharedSecret: 'whsec' }],
+        amount: 1000
+      };
+
+      expect(redactSensitiveData(input)).toEqual({
+        card_number: '************0001',
+        cvv: REDACTED,
+        card_expiry: REDACTED,
+        headers: { Authorization: REDACTED },
+        errors: ['Invalid card ************2346'],
+        nested: [{ cardNumber: '************2346', sharedSecret: REDACTED }],
+        amount: 1000
+      });
+    });
+
+    it('should redact the gateway token in a FatZebraConfig', () => {
+      const config = { username: 'merchant', token: 'api-token', sandbox: true };
+
+      expect(redactSensitiveData({ config })).toEqual({
+        config: { username: 'merchant', token: REDACTED, sandbox: true }
+      });
+    });
+
+    it('should not modify the input', () => {
+      const input = { cvv: '123' };
+
+      redactSensitiveData(input);
+
+      expect(input.cvv).toBe('123');
+    });
+
+    it('should keep card numbers that are already masked', () => {
+      expect(redactSensitiveData({ card_number: '************0001' })).toEqual({
+        card_number: '************0001'
+      });
+    });
+  });
+});
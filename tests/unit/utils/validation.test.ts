@@ -186,6 +186,10 @@ describe('Validation Utilities - Actual Source Code Tests', () => {
         expect(isTestCardNumber('5555555555554444')).toBe(false);
       });
 
+      it('should identify the 3DS test card', () => {
+        expect(isTestCardNumber('4005554444444460')).toBe(true);
+      });
+
       it('should handle cards with formatting', () => {
         expect(isTestCardNumber('4005-5500-0000-0001')).toBe(true);
         expect(isTestCardNumber('4005 5500 0000 0001')).toBe(true);